@@ -1,11 +1,30 @@
 
-import React, { useState, Suspense, useEffect } from 'react';
+import React, { useState, Suspense, useEffect, useRef } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Loader } from '@react-three/drei';
 import { Experience } from './components/Experience';
 import { UIOverlay } from './components/UIOverlay';
 import { GestureController } from './components/GestureController';
-import { TreeMode } from './types';
+import { GestureBindingsEditor } from './components/GestureBindingsEditor';
+import { InputController, KEY_BINDINGS } from './components/InputController';
+import { GestureTutorial } from './components/GestureTutorial';
+import { AppAction, GestureType, TreeMode } from './types';
+import { ACTION_INFO, GESTURE_ICONS, GestureBindings, HAND_LABELS, loadBindings, saveBindings } from './lib/gestureBindings';
+import { loadSessionThresholds, saveSessionThresholds } from './lib/gestureCalibration';
+import { PoseThresholds } from './lib/gestureRecognizer';
+import { loadMultiPersonSettings, MultiPersonSettings, saveMultiPersonSettings } from './lib/handOwnership';
+import { DEFAULT_MOTION_THRESHOLDS, loadMotionThresholds, MotionThresholds, saveMotionThresholds } from './lib/motionGestures';
+import { DEFAULT_HAND_RANGE, HandPositionSettings, HandRange, loadHandPositionSettings, saveHandPositionSettings } from './lib/handPosition';
+import { DEFAULT_TREE_SHAPE, loadTreeShape, saveTreeShape, TREE_PROFILES, TREE_SHAPE_LIMITS, TreeProfile, TreeShape } from './lib/treeShape';
+import { applyThemeToDocument, loadThemeId, saveThemeId, ThemeId, THEMES } from './lib/themes';
+import { parseShareConfig, ShareConfig } from './lib/shareConfig';
+import { DEFAULT_FORMATION_TEXT, Formation, TREE_FORMATION } from './lib/formations';
+import { CHOREOGRAPHIES, findChoreography, loadChoreographyId, saveChoreographyId } from './lib/transitionTimeline';
+import { findLightPattern, LIGHT_PATTERNS, loadLightPatternId, nextLightPattern, saveLightPatternId } from './lib/lightPatterns';
+import { DEFAULT_GARLAND_SETTINGS, GARLAND_STYLES, GarlandSettings, loadGarlandSettings, MAX_GARLAND_SPACING, MAX_GARLAND_STRANDS, MIN_GARLAND_SPACING, saveGarlandSettings } from './lib/garlands';
+import { extractSvgPath, loadTopperConfig, saveTopperConfig, TopperConfig, TOPPERS } from './lib/toppers';
+import { loadSceneSeed, replaceSeed, restoreSeed, saveSceneSeed, SceneSeed, shuffleSeed } from './lib/random';
+import { AudioReactor, createFileAudioReactor, createMicrophoneAudioReactor, loadAudioSensitivity, MAX_SENSITIVITY, MIN_SENSITIVITY, saveAudioSensitivity } from './lib/audioReactive';
 
 // Simple Error Boundary to catch 3D resource loading errors (like textures)
 class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasError: boolean}> {
@@ -26,13 +45,13 @@ class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasErr
     if (this.state.hasError) {
       // You can customize this fallback UI
       return (
-        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 text-[#D4AF37] font-serif p-8 text-center">
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 text-primary font-serif p-8 text-center">
           <div>
             <h2 className="text-2xl mb-2">Something went wrong</h2>
             <p className="opacity-70">A resource failed to load (likely a missing image). Check the console for details.</p>
             <button 
               onClick={() => this.setState({ hasError: false })}
-              className="mt-4 px-4 py-2 border border-[#D4AF37] hover:bg-[#D4AF37] hover:text-black transition-colors"
+              className="mt-4 px-4 py-2 border border-primary hover:bg-primary hover:text-black transition-colors"
             >
               Try Again
             </button>
@@ -45,6 +64,8 @@ class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasErr
   }
 }
 
+const TUTORIAL_SEEN_KEY = 'gestureTutorialSeen';
+
 export default function App() {
   const [mode, setMode] = useState<TreeMode>(TreeMode.FORMED);
   const [handPosition, setHandPosition] = useState<{ x: number; y: number; detected: boolean }>({ x: 0.5, y: 0.5, detected: false });
@@ -63,6 +84,33 @@ export default function App() {
   const [debugMode, setDebugMode] = useState(false); // Default: OFF
   const [snowEnabled, setSnowEnabled] = useState(true); // Default: ON
   const [uploadMode, setUploadMode] = useState(true); // Default: ON (upload), OFF = load from folder
+  const [gestureBindings, setGestureBindings] = useState<GestureBindings>(loadBindings);
+  const [showBindingsEditor, setShowBindingsEditor] = useState(false);
+  const [slideshowActive, setSlideshowActive] = useState(false);
+  const [screenshotRequest, setScreenshotRequest] = useState(0);
+  const [spinRequest, setSpinRequest] = useState(0);
+  const [motionThresholds, setMotionThresholds] = useState<MotionThresholds>(loadMotionThresholds);
+  const [multiPerson, setMultiPerson] = useState<MultiPersonSettings>(loadMultiPersonSettings);
+  const [handPositionSettings, setHandPositionSettings] = useState<HandPositionSettings>(loadHandPositionSettings);
+  const [calibrating, setCalibrating] = useState(false);
+  const [poseThresholds, setPoseThresholds] = useState<Partial<PoseThresholds> | undefined>(loadSessionThresholds);
+  const [showTutorial, setShowTutorial] = useState(false);
+  const [treeShape, setTreeShape] = useState<TreeShape>(loadTreeShape);
+  const [garlands, setGarlands] = useState<GarlandSettings>(loadGarlandSettings);
+  const [topper, setTopper] = useState<TopperConfig>(loadTopperConfig);
+  const topperInputRef = useRef<HTMLInputElement>(null);
+  const [sceneSeed, setSceneSeed] = useState<SceneSeed>(loadSceneSeed);
+  const [themeId, setThemeId] = useState<ThemeId>(loadThemeId);
+  const theme = THEMES[themeId];
+  const [formation, setFormation] = useState<Formation>(TREE_FORMATION);
+  const [formationText, setFormationText] = useState(DEFAULT_FORMATION_TEXT);
+  const [choreographyId, setChoreographyId] = useState(loadChoreographyId);
+  const choreography = findChoreography(choreographyId);
+  const [lightPatternId, setLightPatternId] = useState(loadLightPatternId);
+  const [audioReactor, setAudioReactor] = useState<AudioReactor | null>(null);
+  const [audioSensitivity, setAudioSensitivity] = useState(loadAudioSensitivity);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
 
   // Load photos from public/photos folder
   const loadPhotosFromFolder = async () => {
@@ -85,6 +133,17 @@ export default function App() {
     }
   };
 
+  // Scene settings that go out with (and come back from) a share link
+  const shareConfig: ShareConfig = { theme: themeId, topper, seed: sceneSeed.seed, treeShape, garlands };
+
+  const applyShareConfig = (config: ShareConfig) => {
+    if (config.theme) setThemeId(config.theme);
+    if (config.topper) setTopper(config.topper);
+    if (config.treeShape) setTreeShape(config.treeShape);
+    if (config.garlands) setGarlands(config.garlands);
+    if (config.seed !== undefined) setSceneSeed(prev => replaceSeed(prev, config.seed!));
+  };
+
   // Check for share parameter in URL on mount
   useEffect(() => {
     const loadSharedPhotos = async () => {
@@ -104,6 +163,7 @@ export default function App() {
 
           if (response.ok && data.success) {
             setUploadedPhotos(data.images);
+            applyShareConfig(parseShareConfig(data.config));
             return;
           }
         } catch (apiError) {
@@ -115,6 +175,7 @@ export default function App() {
         if (shareDataStr) {
           const shareData = JSON.parse(shareDataStr);
           setUploadedPhotos(shareData.images);
+          applyShareConfig(parseShareConfig(shareData.config));
         } else {
           console.error('Share not found');
         }
@@ -135,6 +196,79 @@ export default function App() {
     }
   }, [uploadMode, isSharedView]);
 
+  // Persist gesture bindings whenever they are edited
+  useEffect(() => {
+    saveBindings(gestureBindings);
+  }, [gestureBindings]);
+
+  // First time the camera is turned on this session, walk the guest through the gestures
+  useEffect(() => {
+    if (debugMode && !sessionStorage.getItem(TUTORIAL_SEEN_KEY)) {
+      setShowTutorial(true);
+    }
+  }, [debugMode]);
+
+  // Persist hand smoothing / calibration
+  useEffect(() => {
+    saveHandPositionSettings(handPositionSettings);
+  }, [handPositionSettings]);
+
+  useEffect(() => {
+    saveMotionThresholds(motionThresholds);
+  }, [motionThresholds]);
+
+  useEffect(() => {
+    saveMultiPersonSettings(multiPerson);
+  }, [multiPerson]);
+
+  // Like the theme, what a shared link brings is shown but never replaces the viewer's own settings
+  useEffect(() => {
+    if (!isSharedView) saveTreeShape(treeShape);
+  }, [treeShape, isSharedView]);
+
+  useEffect(() => {
+    if (!isSharedView) saveGarlandSettings(garlands);
+  }, [garlands, isSharedView]);
+
+  useEffect(() => {
+    if (!isSharedView) saveTopperConfig(topper);
+  }, [topper, isSharedView]);
+
+  useEffect(() => {
+    if (!isSharedView) saveSceneSeed(sceneSeed);
+  }, [sceneSeed, isSharedView]);
+
+  useEffect(() => {
+    saveChoreographyId(choreographyId);
+  }, [choreographyId]);
+
+  useEffect(() => {
+    saveLightPatternId(lightPatternId);
+  }, [lightPatternId]);
+
+  // Replacing or clearing the audio source releases the previous one (and the mic)
+  useEffect(() => () => audioReactor?.stop(), [audioReactor]);
+
+  useEffect(() => {
+    audioReactor?.setSensitivity(audioSensitivity);
+    saveAudioSensitivity(audioSensitivity);
+  }, [audioReactor, audioSensitivity]);
+
+  // A shared link shows the sharer's theme without replacing the viewer's own choice
+  useEffect(() => {
+    applyThemeToDocument(theme);
+    if (!isSharedView) saveThemeId(themeId);
+  }, [themeId, isSharedView]);
+
+  // Advance the photo viewer while the slideshow runs
+  useEffect(() => {
+    if (!slideshowActive || uploadedPhotos.length === 0) return;
+    const interval = setInterval(() => {
+      setCurrentPhotoIndex(prev => (prev + 1) % uploadedPhotos.length);
+    }, 3000);
+    return () => clearInterval(interval);
+  }, [slideshowActive, uploadedPhotos.length]);
+
   // Sync snow state with snowEnabled setting
   useEffect(() => {
     setShowSnow(snowEnabled);
@@ -160,6 +294,57 @@ export default function App() {
     setUploadedPhotos(photos);
   };
 
+  // Morphing only shows while formed, so pick formed along with the shape
+  const showFormation = (next: Formation) => {
+    setFormation(next);
+    setMode(TreeMode.FORMED);
+  };
+
+  const handleLogoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !file.type.startsWith('image/')) return;
+    const reader = new FileReader();
+    reader.onload = () => showFormation({ kind: 'image', url: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const handleTopperFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let path: string | null = null;
+    try {
+      path = extractSvgPath(await file.text());
+    } catch (error) {
+      console.warn('Could not read topper SVG:', error);
+    }
+    if (path) {
+      setTopper({ id: 'custom', path });
+    } else {
+      setPhotoChangeMessage('⚠️ SVG cần có <path> và không quá phức tạp');
+      setTimeout(() => setPhotoChangeMessage(''), 2000);
+    }
+  };
+
+  const startAudio = async (create: () => Promise<AudioReactor>, errorMessage: string) => {
+    setAudioReactor(null);
+    try {
+      setAudioReactor(await create());
+    } catch (error) {
+      console.warn('Could not start audio:', error);
+      setPhotoChangeMessage(errorMessage);
+      setTimeout(() => setPhotoChangeMessage(''), 2000);
+    }
+  };
+
+  const handleAudioFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !file.type.startsWith('audio/')) return;
+    startAudio(() => createFileAudioReactor(file, audioSensitivity), '⚠️ Không phát được file nhạc này');
+  };
+
   const [photoChangeMessage, setPhotoChangeMessage] = useState<string>('');
 
   const handlePhotoChange = (direction: 'next' | 'prev') => {
@@ -168,8 +353,7 @@ export default function App() {
     
     if (uploadedPhotos.length === 0) {
       console.log('[DEBUG] No photos uploaded!');
-      setPhotoChangeMessage('⚠️ Chưa có ảnh! Hãy tải ảnh lên trước');
-      setTimeout(() => setPhotoChangeMessage(''), 2000);
+      showNoPhotosMessage();
       return;
     }
     
@@ -196,12 +380,110 @@ export default function App() {
     setCameraMove(direction);
   };
 
+  const openTutorial = () => {
+    setDebugMode(true); // The tutorial needs the camera
+    setShowSettings(false);
+    setShowTutorial(true);
+  };
+
+  const closeTutorial = (thresholds?: Partial<PoseThresholds>) => {
+    sessionStorage.setItem(TUTORIAL_SEEN_KEY, '1');
+    if (thresholds) {
+      setPoseThresholds(thresholds);
+      saveSessionThresholds(thresholds);
+    }
+    setShowTutorial(false);
+  };
+
+  const handleFormationError = () => {
+    setFormation(TREE_FORMATION);
+    setPhotoChangeMessage('⚠️ Không tạo được hình này, quay lại cây thông');
+    setTimeout(() => setPhotoChangeMessage(''), 2000);
+  };
+
+  const startCalibration = () => {
+    setCalibrating(true);
+    setPhotoChangeMessage('🎯 Di chuyển tay khắp vùng thoải mái trong 6 giây...');
+    setTimeout(() => setCalibrating(false), 6000);
+  };
+
+  const handleCalibrated = (range: HandRange | null) => {
+    if (range) {
+      setHandPositionSettings(prev => ({ ...prev, range }));
+      setPhotoChangeMessage('✅ Đã hiệu chỉnh vùng tay');
+    } else {
+      setPhotoChangeMessage('⚠️ Chưa đủ dữ liệu, hãy thử lại');
+    }
+    setTimeout(() => setPhotoChangeMessage(''), 2000);
+  };
+
   const handleSnowToggle = () => {
     setShowSnow(prev => !prev);
   };
 
+  const showNoPhotosMessage = () => {
+    setPhotoChangeMessage('⚠️ Chưa có ảnh! Hãy tải ảnh lên trước');
+    setTimeout(() => setPhotoChangeMessage(''), 2000);
+  };
+
+  // Single dispatch point for bound actions (gesture extras, keyboard, touch)
+  const handleAction = (action: AppAction) => {
+    switch (action) {
+      case AppAction.MODE_CHAOS:
+        setMode(TreeMode.CHAOS);
+        break;
+      case AppAction.MODE_FORMED:
+        setMode(TreeMode.FORMED);
+        break;
+      case AppAction.TOGGLE_MODE:
+        toggleMode();
+        break;
+      case AppAction.PHOTO_PREV:
+        handlePhotoChange('prev');
+        break;
+      case AppAction.PHOTO_NEXT:
+        handlePhotoChange('next');
+        break;
+      case AppAction.SNOW_TOGGLE:
+        handleSnowToggle();
+        break;
+      case AppAction.CAMERA_FORWARD:
+      case AppAction.CAMERA_BACKWARD:
+        // Continuous: driven through handleCameraMove by the input sources
+        break;
+      case AppAction.OPEN_PHOTO_VIEWER:
+        if (uploadedPhotos.length === 0) {
+          showNoPhotosMessage();
+          return;
+        }
+        setShowPhotoViewer(true);
+        setTimeout(() => setShowPhotoViewer(false), 3000);
+        break;
+      case AppAction.START_SLIDESHOW:
+        if (uploadedPhotos.length === 0) {
+          showNoPhotosMessage();
+          return;
+        }
+        setSlideshowActive(prev => !prev);
+        break;
+      case AppAction.TAKE_SCREENSHOT:
+        setScreenshotRequest(prev => prev + 1);
+        break;
+      case AppAction.SPIN_TREE:
+        setSpinRequest(prev => prev + 1);
+        break;
+      case AppAction.LIGHT_PATTERN_NEXT: {
+        const next = nextLightPattern(lightPatternId);
+        setLightPatternId(next.id);
+        setPhotoChangeMessage(next.label);
+        setTimeout(() => setPhotoChangeMessage(''), 2000);
+        break;
+      }
+    }
+  };
+
   return (
-    <div className="w-full h-screen relative bg-gradient-to-b from-black via-[#001a0d] to-[#0a2f1e]">
+    <div className="w-full h-screen relative bg-gradient-to-b from-black via-scene-mid to-scene-end">
       <ErrorBoundary>
         <Canvas
           dpr={[1, 2]}
@@ -218,6 +500,18 @@ export default function App() {
               onClosestPhotoChange={handleClosestPhotoChange}
               cameraMove={cameraMove}
               showSnow={showSnow}
+              screenshotRequest={screenshotRequest}
+              spinRequest={spinRequest}
+              treeShape={treeShape}
+              garlands={garlands}
+              topper={topper}
+              seed={sceneSeed.seed}
+              theme={theme}
+              formation={formation}
+              onFormationError={handleFormationError}
+              choreography={choreography}
+              lightPattern={findLightPattern(lightPatternId)}
+              audio={audioReactor}
             />
           </Suspense>
         </Canvas>
@@ -226,8 +520,8 @@ export default function App() {
       <Loader 
         containerStyles={{ background: '#000' }} 
         innerStyles={{ width: '300px', height: '10px', background: '#333' }}
-        barStyles={{ background: '#D4AF37', height: '10px' }}
-        dataStyles={{ color: '#D4AF37', fontFamily: 'Cinzel' }}
+        barStyles={{ background: theme.ui.primary, height: '10px' }}
+        dataStyles={{ color: theme.ui.primary, fontFamily: 'Cinzel' }}
       />
       
       <UIOverlay 
@@ -237,17 +531,21 @@ export default function App() {
         hasPhotos={uploadedPhotos.length > 0}
         uploadedPhotos={uploadedPhotos}
         isSharedView={isSharedView}
+        shareConfig={shareConfig}
       />
       
       {/* Loading indicator for shared photos */}
       {isLoadingShare && (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80">
-          <div className="text-[#D4AF37] font-serif text-xl">
+          <div className="text-primary font-serif text-xl">
             Đang tải ảnh được chia sẻ...
           </div>
         </div>
       )}
       
+      {/* Keyboard / Mouse Wheel / Touch Controls */}
+      <InputController onAction={handleAction} onCameraMove={handleCameraMove} />
+      
       {/* Gesture Control Module */}
       <GestureController 
         currentMode={mode} 
@@ -257,27 +555,45 @@ export default function App() {
         onPhotoChange={handlePhotoChange}
         onCameraMove={handleCameraMove}
         onSnowToggle={handleSnowToggle}
+        onAction={handleAction}
+        bindings={gestureBindings}
+        poseThresholds={poseThresholds}
+        motionThresholds={motionThresholds}
+        suspendActions={showTutorial}
+        multiPerson={multiPerson}
+        handPositionSettings={handPositionSettings}
+        calibrating={calibrating}
+        onCalibrated={handleCalibrated}
         debugMode={debugMode}
       />
       
+      {/* Gesture Tutorial Wizard */}
+      {showTutorial && (
+        <GestureTutorial
+          bindings={gestureBindings}
+          onComplete={closeTutorial}
+          onSkip={() => closeTutorial()}
+        />
+      )}
+      
       {/* Settings Button */}
       <button
         onClick={() => setShowSettings(!showSettings)}
-        className="fixed top-4 left-4 z-50 w-10 h-10 bg-black/70 border border-[#D4AF37]/50 rounded-full flex items-center justify-center text-[#D4AF37] hover:bg-[#D4AF37]/20 transition-colors"
+        className="fixed top-4 left-4 z-50 w-10 h-10 bg-black/70 border border-primary/50 rounded-full flex items-center justify-center text-primary hover:bg-primary/20 transition-colors"
       >
         ⚙️
       </button>
       
       {/* Settings Menu */}
       {showSettings && (
-        <div className="fixed top-16 left-4 z-50 bg-black/90 backdrop-blur-md border border-[#D4AF37]/50 rounded-lg p-4 min-w-[250px] shadow-xl">
-          <div className="text-[#D4AF37] font-bold mb-4 text-center border-b border-[#D4AF37]/30 pb-2">
+        <div className="fixed top-16 left-4 z-50 bg-black/90 backdrop-blur-md border border-primary/50 rounded-lg p-4 min-w-[250px] max-h-[calc(100vh-5rem)] overflow-y-auto shadow-xl">
+          <div className="text-primary font-bold mb-4 text-center border-b border-primary/30 pb-2">
             ⚙️ Cài đặt
           </div>
           
           {/* Debug Mode Toggle */}
           <div className="flex items-center justify-between mb-3">
-            <span className="text-[#F5E6BF] text-sm">🔧 Chế độ Debug</span>
+            <span className="text-highlight text-sm">🔧 Chế độ Debug</span>
             <button
               onClick={() => setDebugMode(!debugMode)}
               className={`w-12 h-6 rounded-full transition-colors ${
@@ -292,7 +608,7 @@ export default function App() {
           
           {/* Snow Toggle */}
           <div className="flex items-center justify-between mb-3">
-            <span className="text-[#F5E6BF] text-sm">❄️ Hiệu ứng tuyết</span>
+            <span className="text-highlight text-sm">❄️ Hiệu ứng tuyết</span>
             <button
               onClick={() => setSnowEnabled(!snowEnabled)}
               className={`w-12 h-6 rounded-full transition-colors ${
@@ -307,7 +623,7 @@ export default function App() {
           
           {/* Upload Mode Toggle */}
           <div className="flex items-center justify-between mb-3">
-            <span className="text-[#F5E6BF] text-sm">📤 Tải ảnh lên</span>
+            <span className="text-highlight text-sm">📤 Tải ảnh lên</span>
             <button
               onClick={() => setUploadMode(!uploadMode)}
               className={`w-12 h-6 rounded-full transition-colors ${
@@ -321,55 +637,497 @@ export default function App() {
           </div>
           
           {/* Info text */}
-          <div className="text-[#F5E6BF]/50 text-xs mt-2 pt-2 border-t border-[#D4AF37]/20">
+          <div className="text-highlight/50 text-xs mt-2 pt-2 border-t border-primary/20">
             {uploadMode ? '📤 Đang dùng ảnh tải lên' : '📁 Đang dùng ảnh từ folder photos/'}
           </div>
           
-          {/* Gesture Guidelines - Compact */}
-          <div className="mt-3 pt-2 border-t border-[#D4AF37]/30">
-            <div className="text-[#D4AF37] font-bold mb-2 text-center text-xs">
-              🖐️ Cử chỉ
+          {/* Theme */}
+          <label className="flex items-center justify-between gap-2 mt-3 pt-2 border-t border-primary/30 text-xs">
+            <span className="text-primary font-bold">🎨 Chủ đề</span>
+            <select
+              value={themeId}
+              onChange={(e) => setThemeId(e.target.value as ThemeId)}
+              className="bg-black/70 border border-primary/30 rounded text-highlight px-1 py-0.5 text-[10px]"
+            >
+              {Object.values(THEMES).map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          </label>
+          
+          {/* Transition choreography */}
+          <label className="flex items-center justify-between gap-2 mt-2 text-xs">
+            <span className="text-primary font-bold">🎬 Chuyển cảnh</span>
+            <select
+              value={choreographyId}
+              onChange={(e) => setChoreographyId(e.target.value)}
+              className="bg-black/70 border border-primary/30 rounded text-highlight px-1 py-0.5 text-[10px]"
+            >
+              {CHOREOGRAPHIES.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          </label>
+          
+          {/* Light show on the ornament lights */}
+          <label className="flex items-center justify-between gap-2 mt-2 text-xs">
+            <span className="text-primary font-bold">💡 Hiệu ứng đèn</span>
+            <select
+              value={lightPatternId}
+              onChange={(e) => setLightPatternId(e.target.value)}
+              className="bg-black/70 border border-primary/30 rounded text-highlight px-1 py-0.5 text-[10px]"
+            >
+              {LIGHT_PATTERNS.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          </label>
+          
+          {/* Tree Shape */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="text-primary font-bold mb-2 text-center text-xs">
+              🌲 Hình dáng cây
+            </div>
+            
+            <label className="flex items-center justify-between gap-2 mb-1 text-[10px] text-highlight/70">
+              <span>Kiểu dáng</span>
+              <select
+                value={treeShape.profile}
+                onChange={(e) => setTreeShape(prev => ({ ...prev, profile: e.target.value as TreeProfile }))}
+                className="bg-black/70 border border-primary/30 rounded text-highlight px-1 py-0.5"
+              >
+                {TREE_PROFILES.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </label>
+            
+            {([
+              { key: 'height', label: 'Chiều cao', ...TREE_SHAPE_LIMITS.height, step: 0.5 },
+              { key: 'baseRadius', label: 'Độ rộng', ...TREE_SHAPE_LIMITS.baseRadius, step: 0.25 },
+              { key: 'layers', label: 'Số tầng', ...TREE_SHAPE_LIMITS.layers, step: 1 },
+            ] as { key: 'height' | 'baseRadius' | 'layers'; label: string; min: number; max: number; step: number }[]).map(({ key, label, min, max, step }) => (
+              <label key={key} className="flex items-center justify-between gap-2 mb-1 text-[10px] text-highlight/70">
+                <span>{label}</span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={treeShape[key]}
+                  onChange={(e) => setTreeShape(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                  className="w-28 accent-primary"
+                />
+              </label>
+            ))}
+            <button
+              onClick={() => setTreeShape(DEFAULT_TREE_SHAPE)}
+              className="w-full mt-1 text-[10px] text-primary/70 hover:underline"
+            >
+              ↺ Dáng mặc định
+            </button>
+          </div>
+          
+          {/* Garland strands wrapped around the tree */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="text-primary font-bold mb-2 text-center text-xs">
+              🎀 Dây trang trí
+            </div>
+            
+            <div className="grid grid-cols-3 gap-1 text-[10px] mb-1">
+              {GARLAND_STYLES.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setGarlands(prev => ({ ...prev, style: id }))}
+                  className={`px-1 py-1 border rounded transition-colors ${
+                    garlands.style === id ? 'border-primary bg-primary/20 text-primary' : 'border-primary/30 text-highlight/70 hover:bg-primary/20'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            
+            {([
+              { key: 'strands', label: `Số dây (${garlands.strands})`, min: 0, max: MAX_GARLAND_STRANDS, step: 1 },
+              { key: 'spacing', label: 'Khoảng cách vòng', min: MIN_GARLAND_SPACING, max: MAX_GARLAND_SPACING, step: 0.25 },
+            ] as { key: 'strands' | 'spacing'; label: string; min: number; max: number; step: number }[]).map(({ key, label, min, max, step }) => (
+              <label key={key} className="flex items-center justify-between gap-2 mb-1 text-[10px] text-highlight/70">
+                <span>{label}</span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={garlands[key]}
+                  onChange={(e) => setGarlands(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                  className="w-28 accent-primary"
+                />
+              </label>
+            ))}
+            <button
+              onClick={() => setGarlands(DEFAULT_GARLAND_SETTINGS)}
+              className="w-full mt-1 text-[10px] text-primary/70 hover:underline"
+            >
+              ↺ Mặc định
+            </button>
+          </div>
+          
+          {/* Tree topper */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="text-primary font-bold mb-2 text-center text-xs">
+              ⭐ Đỉnh cây
+            </div>
+            
+            <div className="grid grid-cols-4 gap-1 text-[10px]">
+              {TOPPERS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  // An SVG topper always comes from a file the user picks
+                  onClick={() => (id === 'custom' ? topperInputRef.current?.click() : setTopper({ id }))}
+                  className={`px-1 py-1 border rounded transition-colors ${
+                    topper.id === id ? 'border-primary bg-primary/20 text-primary' : 'border-primary/30 text-highlight/70 hover:bg-primary/20'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              <input
+                ref={topperInputRef}
+                type="file"
+                accept=".svg,image/svg+xml"
+                onChange={handleTopperFile}
+                className="hidden"
+              />
+            </div>
+          </div>
+          
+          {/* Layout seed: the same seed always builds the same tree */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="text-primary font-bold mb-2 text-center text-xs">
+              🎲 Bố cục cây
             </div>
             
+            <div className="mb-1 text-center text-[10px] text-highlight/70">
+              Mã bố cục: <span className="text-primary font-mono">#{sceneSeed.seed.toString(36)}</span>
+            </div>
             <div className="grid grid-cols-2 gap-1 text-[10px]">
-              <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
-                <span>🙌</span>
-                <span className="text-[#F5E6BF]/70">Xem ảnh</span>
-              </div>
-              <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
-                <span>🤏◀️</span>
-                <span className="text-[#F5E6BF]/70">Ảnh trước</span>
-              </div>
-              <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
-                <span>▶️🤏</span>
-                <span className="text-[#F5E6BF]/70">Ảnh sau</span>
-              </div>
-              <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
-                <span>✌️</span>
-                <span className="text-[#F5E6BF]/70">Tuyết</span>
-              </div>
-              <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
-                <span>👍</span>
-                <span className="text-[#F5E6BF]/70">Tiến tới</span>
-              </div>
-              <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
-                <span>👎</span>
-                <span className="text-[#F5E6BF]/70">Lùi lại</span>
-              </div>
-              <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
-                <span>✋</span>
-                <span className="text-[#F5E6BF]/70">Hỗn loạn</span>
+              <button
+                onClick={() => setSceneSeed(shuffleSeed)}
+                className="px-1 py-1 border rounded border-primary/30 text-highlight/70 hover:bg-primary/20"
+              >
+                🔀 Xáo trộn
+              </button>
+              <button
+                onClick={() => setSceneSeed(restoreSeed)}
+                disabled={sceneSeed.history.length === 0}
+                className="px-1 py-1 border rounded border-primary/30 text-highlight/70 hover:bg-primary/20 disabled:opacity-40"
+              >
+                ↩️ Cây trước{sceneSeed.history.length > 0 ? ` (${sceneSeed.history.length})` : ''}
+              </button>
+            </div>
+          </div>
+          
+          {/* Formations: what the particles gather into */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="text-primary font-bold mb-2 text-center text-xs">
+              ✨ Biến hình
+            </div>
+            
+            <div className="grid grid-cols-4 gap-1 text-[10px] mb-1">
+              {([
+                { formation: TREE_FORMATION, label: '🎄 Cây' },
+                { formation: { kind: 'heart' }, label: '💝 Tim' },
+                { formation: { kind: 'star' }, label: '⭐ Sao' },
+              ] as { formation: Formation; label: string }[]).map(({ formation: option, label }) => (
+                <button
+                  key={option.kind}
+                  onClick={() => showFormation(option)}
+                  className={`px-1 py-1 border rounded transition-colors ${
+                    formation.kind === option.kind ? 'border-primary bg-primary/20 text-primary' : 'border-primary/30 text-highlight/70 hover:bg-primary/20'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => logoInputRef.current?.click()}
+                className={`px-1 py-1 border rounded transition-colors ${
+                  formation.kind === 'image' ? 'border-primary bg-primary/20 text-primary' : 'border-primary/30 text-highlight/70 hover:bg-primary/20'
+                }`}
+              >
+                🖼️ Logo
+              </button>
+              <input
+                ref={logoInputRef}
+                type="file"
+                accept="image/png,image/*"
+                onChange={handleLogoFile}
+                className="hidden"
+              />
+            </div>
+            
+            <div className="flex gap-1 text-[10px]">
+              <input
+                type="text"
+                value={formationText}
+                maxLength={40}
+                onChange={(e) => setFormationText(e.target.value)}
+                className="flex-1 min-w-0 bg-black/70 border border-primary/30 rounded text-highlight px-1 py-0.5"
+              />
+              <button
+                onClick={() => formationText.trim() && showFormation({ kind: 'text', text: formationText })}
+                className={`px-2 py-1 border rounded transition-colors ${
+                  formation.kind === 'text' ? 'border-primary bg-primary/20 text-primary' : 'border-primary/30 text-highlight/70 hover:bg-primary/20'
+                }`}
+              >
+                🔤 Chữ
+              </button>
+            </div>
+          </div>
+          
+          {/* Music: the tree reacts to a local file or the microphone */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="text-primary font-bold mb-2 text-center text-xs">
+              🎵 Nhạc
+            </div>
+            
+            <div className="grid grid-cols-3 gap-1 text-[10px] mb-1">
+              <button
+                onClick={() => audioInputRef.current?.click()}
+                className={`px-1 py-1 border rounded transition-colors ${
+                  audioReactor?.kind === 'file' ? 'border-primary bg-primary/20 text-primary' : 'border-primary/30 text-highlight/70 hover:bg-primary/20'
+                }`}
+              >
+                📂 File nhạc
+              </button>
+              <button
+                onClick={() => startAudio(() => createMicrophoneAudioReactor(audioSensitivity), '⚠️ Không truy cập được micro')}
+                className={`px-1 py-1 border rounded transition-colors ${
+                  audioReactor?.kind === 'microphone' ? 'border-primary bg-primary/20 text-primary' : 'border-primary/30 text-highlight/70 hover:bg-primary/20'
+                }`}
+              >
+                🎤 Micro
+              </button>
+              <button
+                onClick={() => setAudioReactor(null)}
+                disabled={!audioReactor}
+                className="px-1 py-1 border rounded border-primary/30 text-highlight/70 hover:bg-primary/20 disabled:opacity-40"
+              >
+                ⏹️ Tắt
+              </button>
+              <input
+                ref={audioInputRef}
+                type="file"
+                accept="audio/*"
+                onChange={handleAudioFile}
+                className="hidden"
+              />
+            </div>
+            
+            {audioReactor && (
+              <div className="text-[10px] text-highlight/50 truncate mb-1">
+                ▶️ {audioReactor.name}
               </div>
-              <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
-                <span>✊</span>
-                <span className="text-[#F5E6BF]/70">Cây thông</span>
+            )}
+            
+            <label className="flex items-center justify-between gap-2 mb-1 text-[10px] text-highlight/70">
+              <span>Độ nhạy</span>
+              <input
+                type="range"
+                min={MIN_SENSITIVITY}
+                max={MAX_SENSITIVITY}
+                step={0.1}
+                value={audioSensitivity}
+                onChange={(e) => setAudioSensitivity(Number(e.target.value))}
+                className="w-28 accent-primary"
+              />
+            </label>
+          </div>
+          
+          {/* Hand Orbit Control */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="text-primary font-bold mb-2 text-center text-xs">
+              🎯 Điều khiển góc nhìn
+            </div>
+            
+            <label className="flex items-center justify-between gap-2 mb-1 text-[10px] text-highlight/70">
+              <span>Làm mượt</span>
+              <input
+                type="range"
+                min={0.1}
+                max={3}
+                step={0.1}
+                value={3.1 - handPositionSettings.minCutoff}
+                onChange={(e) => setHandPositionSettings(prev => ({ ...prev, minCutoff: 3.1 - Number(e.target.value) }))}
+                className="w-28 accent-primary"
+              />
+            </label>
+            
+            <label className="flex items-center justify-between gap-2 mb-2 text-[10px] text-highlight/70">
+              <span>Vùng chết</span>
+              <input
+                type="range"
+                min={0}
+                max={0.3}
+                step={0.01}
+                value={handPositionSettings.deadZone}
+                onChange={(e) => setHandPositionSettings(prev => ({ ...prev, deadZone: Number(e.target.value) }))}
+                className="w-28 accent-primary"
+              />
+            </label>
+            
+            <div className="flex gap-1 text-[10px]">
+              <button
+                onClick={startCalibration}
+                disabled={!debugMode || calibrating}
+                className="flex-1 px-2 py-1 border border-primary/50 rounded text-primary hover:bg-primary/20 transition-colors disabled:opacity-40"
+              >
+                {calibrating ? '⏳ Đang hiệu chỉnh...' : '🎯 Hiệu chỉnh vùng tay'}
+              </button>
+              <button
+                onClick={() => setHandPositionSettings(prev => ({ ...prev, range: DEFAULT_HAND_RANGE }))}
+                className="px-2 py-1 border border-primary/50 rounded text-primary hover:bg-primary/20 transition-colors"
+              >
+                ↺
+              </button>
+            </div>
+          </div>
+          
+          {/* Multi-person Mode */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-primary font-bold text-xs">👥 Nhiều người</span>
+              <button
+                onClick={() => setMultiPerson(prev => ({ ...prev, enabled: !prev.enabled }))}
+                className={`w-12 h-6 rounded-full transition-colors ${
+                  multiPerson.enabled ? 'bg-green-500' : 'bg-gray-600'
+                }`}
+              >
+                <div className={`w-5 h-5 bg-white rounded-full shadow transform transition-transform ${
+                  multiPerson.enabled ? 'translate-x-6' : 'translate-x-0.5'
+                }`} />
+              </button>
+            </div>
+            
+            {multiPerson.enabled && (
+              <>
+                <label className="flex items-center justify-between gap-2 text-[10px] text-highlight/70">
+                  <span>Tay khác</span>
+                  <select
+                    value={multiPerson.guestRole}
+                    onChange={(e) => setMultiPerson(prev => ({ ...prev, guestRole: e.target.value as MultiPersonSettings['guestRole'] }))}
+                    className="bg-black/70 border border-primary/30 rounded text-highlight px-1 py-0.5"
+                  >
+                    <option value="photos">Chỉ xem ảnh</option>
+                    <option value="ignore">Bỏ qua</option>
+                  </select>
+                </label>
+                <div className="text-highlight/40 text-[9px] mt-1 text-center italic">
+                  Giơ cao bàn tay xòe 1 giây để nhận quyền điều khiển
+                </div>
+              </>
+            )}
+          </div>
+          
+          {/* Gesture Guidelines - Compact */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="text-primary font-bold mb-2 text-center text-xs">
+              🖐️ Cử chỉ
+            </div>
+            
+            {showBindingsEditor ? (
+              <>
+                <GestureBindingsEditor bindings={gestureBindings} onChange={setGestureBindings} />
+                
+                {/* Motion gesture sensitivity: lower = easier to trigger */}
+                <div className="mt-2 text-[10px] text-highlight/50 text-center">💨 Tốc độ tối thiểu</div>
+                {([
+                  { key: 'swipeVelocity', label: '👋 Vuốt', min: 0.5, max: 3, step: 0.1 },
+                  { key: 'flickVelocity', label: '☝️ Hất lên', min: 0.5, max: 3, step: 0.1 },
+                  { key: 'stirSpeed', label: '🌀 Khuấy', min: 0.25, max: 2, step: 0.05 },
+                ] as { key: keyof MotionThresholds; label: string; min: number; max: number; step: number }[]).map(({ key, label, min, max, step }) => (
+                  <label key={key} className="flex items-center justify-between gap-2 mt-1 text-[10px] text-highlight/70">
+                    <span>{label}</span>
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={motionThresholds[key]}
+                      onChange={(e) => setMotionThresholds(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                      className="w-28 accent-primary"
+                    />
+                  </label>
+                ))}
+                <button
+                  onClick={() => setMotionThresholds(DEFAULT_MOTION_THRESHOLDS)}
+                  className="w-full mt-1 text-[10px] text-primary/70 hover:underline"
+                >
+                  ↺ Tốc độ mặc định
+                </button>
+              </>
+            ) : (
+              <div className="grid grid-cols-2 gap-1 text-[10px]">
+                <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
+                  <span>🙌</span>
+                  <span className="text-highlight/70">Xem ảnh</span>
+                </div>
+                <div className="flex items-center gap-1 p-1 bg-white/5 rounded">
+                  <span>🤏🤏</span>
+                  <span className="text-highlight/70">Thu phóng/Xoay</span>
+                </div>
+                {(Object.keys(gestureBindings) as GestureType[]).map(gesture => (
+                  <div key={gesture} className="flex items-center gap-1 p-1 bg-white/5 rounded">
+                    <span>{GESTURE_ICONS[gesture]}</span>
+                    <span className="text-highlight/70">{ACTION_INFO[gestureBindings[gesture].action].label}</span>
+                    {gestureBindings[gesture].hand !== 'any' && (
+                      <span className="text-primary/60 text-[9px]">({HAND_LABELS[gestureBindings[gesture].hand]})</span>
+                    )}
+                  </div>
+                ))}
               </div>
+            )}
+            
+            <div className="flex justify-between mt-2 text-[10px]">
+              <button
+                onClick={() => setShowBindingsEditor(!showBindingsEditor)}
+                className="text-primary hover:underline"
+              >
+                {showBindingsEditor ? '✔️ Xong' : '✏️ Tùy chỉnh cử chỉ'}
+              </button>
+              <button
+                onClick={openTutorial}
+                className="text-primary hover:underline"
+              >
+                🎓 Hướng dẫn
+              </button>
             </div>
             
-            <div className="text-[#F5E6BF]/40 text-[9px] mt-2 text-center italic">
+            <div className="text-highlight/40 text-[9px] mt-2 text-center italic">
               * Bật Debug để dùng
             </div>
           </div>
+          
+          {/* Keyboard Shortcuts */}
+          <div className="mt-3 pt-2 border-t border-primary/30">
+            <div className="text-primary font-bold mb-2 text-center text-xs">
+              ⌨️ Phím tắt
+            </div>
+            
+            <div className="grid grid-cols-2 gap-1 text-[10px]">
+              {KEY_BINDINGS.map(({ key, label, action }) => (
+                <div key={key} className="flex items-center gap-1 p-1 bg-white/5 rounded">
+                  <kbd className="px-1 border border-primary/40 rounded text-primary font-mono">{label}</kbd>
+                  <span className="text-highlight/70">{ACTION_INFO[action].label}</span>
+                </div>
+              ))}
+            </div>
+            
+            <div className="text-highlight/40 text-[9px] mt-2 text-center italic">
+              📱 Vuốt nhanh: đổi ảnh · Chạm 2 lần: đổi chế độ · Chụm 2 ngón / cuộn chuột: thu phóng
+            </div>
+          </div>
         </div>
       )}
       
@@ -383,7 +1141,7 @@ export default function App() {
           <div className="relative z-50 flex flex-col items-center transform transition-all duration-500 ease-out animate-scale-in">
             {/* Photo index indicator */}
             <div className="flex items-center gap-4 mb-4">
-              <span className="text-[#D4AF37] font-serif text-lg">
+              <span className="text-primary font-serif text-lg">
                 🙌 {currentPhotoIndex + 1} / {uploadedPhotos.length}
               </span>
             </div>
@@ -391,7 +1149,7 @@ export default function App() {
             {/* Polaroid container */}
             <div className="bg-white p-4 pb-8 shadow-2xl" style={{ width: '60vmin', maxWidth: '600px' }}>
               {/* Gold clip at top */}
-              <div className="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-12 h-6 bg-gradient-to-b from-[#D4AF37] to-[#C5A028] rounded-sm shadow-lg"></div>
+              <div className="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-12 h-6 bg-gradient-to-b from-primary to-primary-dark rounded-sm shadow-lg"></div>
               
               {/* Photo - use currentPhotoIndex */}
               <img 
@@ -412,14 +1170,14 @@ export default function App() {
       {/* Photo Change Notification - Top center */}
       {photoChangeMessage && (
         <div className="fixed top-8 left-1/2 transform -translate-x-1/2 z-[100] pointer-events-none animate-pulse">
-          <div className="bg-black/80 border border-[#D4AF37] rounded-lg px-4 py-2 text-[#D4AF37] font-medium text-sm shadow-lg">
+          <div className="bg-black/80 border border-primary rounded-lg px-4 py-2 text-primary font-medium text-sm shadow-lg">
             {photoChangeMessage}
           </div>
         </div>
       )}
 
-      {/* Photo Viewer - Shows when pinch gesture changes photo */}
-      {showPhotoViewer && uploadedPhotos.length > 0 && (
+      {/* Photo Viewer - Shows when pinch gesture changes photo or the slideshow runs */}
+      {(showPhotoViewer || slideshowActive) && uploadedPhotos.length > 0 && (
         <div className="fixed inset-0 z-40 flex items-center justify-center pointer-events-none">
           {/* Semi-transparent backdrop */}
           <div className="absolute inset-0 bg-black/70 backdrop-blur-sm"></div>
@@ -429,7 +1187,7 @@ export default function App() {
             {/* Navigation indicators */}
             <div className="flex items-center gap-4 mb-4">
               <span className="text-white/50 text-2xl">◀️</span>
-              <span className="text-[#D4AF37] font-serif text-lg">
+              <span className="text-primary font-serif text-lg">
                 {currentPhotoIndex + 1} / {uploadedPhotos.length}
               </span>
               <span className="text-white/50 text-2xl">▶️</span>
@@ -438,7 +1196,7 @@ export default function App() {
             {/* Polaroid container */}
             <div className="bg-white p-4 pb-8 shadow-2xl transition-all duration-300" style={{ width: '50vmin', maxWidth: '500px' }}>
               {/* Gold clip at top */}
-              <div className="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-12 h-6 bg-gradient-to-b from-[#D4AF37] to-[#C5A028] rounded-sm shadow-lg"></div>
+              <div className="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-12 h-6 bg-gradient-to-b from-primary to-primary-dark rounded-sm shadow-lg"></div>
               
               {/* Photo */}
               <img 
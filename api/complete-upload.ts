@@ -2,10 +2,14 @@ const KV_NAMESPACE_ID = process.env.CLOUDFLARE_KV_NAMESPACE_ID || '';
 const KV_API_TOKEN = process.env.CLOUDFLARE_KV_API_TOKEN || '';
 const CLOUDFLARE_ACCOUNT_ID = process.env.CLOUDFLARE_ACCOUNT_ID || '';
 
+// Scene settings (theme etc.) are opaque here; the client validates them on load
+const MAX_CONFIG_BYTES = 4096;
+
 // Helper function to store data in Cloudflare KV
-async function storeInKV(shareId: string, imageUrls: string[]): Promise<void> {
+async function storeInKV(shareId: string, imageUrls: string[], config: Record<string, unknown>): Promise<void> {
   const data = {
     images: imageUrls,
+    config,
     createdAt: Date.now(),
   };
 
@@ -43,14 +47,18 @@ export default async function handler(req: any, res: any) {
   }
 
   try {
-    const { shareId, imageUrls } = req.body;
+    const { shareId, imageUrls, config = {} } = req.body;
 
     if (!shareId || !imageUrls || !Array.isArray(imageUrls)) {
       return res.status(400).json({ error: 'Invalid request data' });
     }
 
+    if (!config || typeof config !== 'object' || Array.isArray(config) || JSON.stringify(config).length > MAX_CONFIG_BYTES) {
+      return res.status(400).json({ error: 'Invalid share config' });
+    }
+
     // Store share data in KV with 30-day expiration
-    await storeInKV(shareId, imageUrls);
+    await storeInKV(shareId, imageUrls, config);
 
     // Return share link
     const shareLink = `${req.headers.origin || 'https://your-app.vercel.app'}/?share=${shareId}`;
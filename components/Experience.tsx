@@ -1,14 +1,26 @@
 
-import React, { useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
 import { Environment, OrbitControls, ContactShadows } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
-import { BlendFunction } from 'postprocessing';
-import { useFrame } from '@react-three/fiber';
+import { BlendFunction, BloomEffect } from 'postprocessing';
+import { useFrame, useThree } from '@react-three/fiber';
 import { Foliage } from './Foliage';
 import { Ornaments } from './Ornaments';
+import { Garlands } from './Garlands';
 import { Polaroids } from './Polaroids';
 import { TreeStar } from './TreeStar';
 import { TreeMode } from '../types';
+import { subscribeManipulation } from '../lib/twoHandManipulation';
+import { DEFAULT_TREE_SHAPE, TreeShape } from '../lib/treeShape';
+import { DEFAULT_THEME_ID, Theme, THEMES } from '../lib/themes';
+import { Formation, TREE_FORMATION } from '../lib/formations';
+import { Choreography, CHOREOGRAPHIES, createTransitionTimeline } from '../lib/transitionTimeline';
+import { LightPattern } from '../lib/lightPatterns';
+import { AudioReactor } from '../lib/audioReactive';
+import { createHandBrush, updateHandBrush } from '../lib/springPhysics';
+import { DEFAULT_GARLAND_SETTINGS, GarlandSettings } from '../lib/garlands';
+import { TopperConfig } from '../lib/toppers';
 
 interface ExperienceProps {
   mode: TreeMode;
@@ -18,8 +30,31 @@ interface ExperienceProps {
   onClosestPhotoChange?: (photoUrl: string | null) => void;
   cameraMove?: 'forward' | 'backward' | null;
   showSnow?: boolean;
+  screenshotRequest?: number; // Bump to save a PNG of the next rendered frame
+  spinRequest?: number; // Bump to give the tree a spin that slowly winds down
+  treeShape?: TreeShape;
+  theme?: Theme;
+  formation?: Formation; // What the foliage forms into; anything but the tree scatters the decorations
+  onFormationError?: (error: Error) => void;
+  choreography?: Choreography; // How CHAOS <-> FORMED transitions are sequenced
+  onTransitionComplete?: (mode: TreeMode) => void; // Every element has arrived
+  lightPattern?: LightPattern;
+  audio?: AudioReactor | null; // Music the scene reacts to
+  garlands?: GarlandSettings;
+  topper?: TopperConfig;
+  seed?: number; // Fully determines the layout, so the same seed always builds the same tree
 }
 
+// Total horizontal orbit (radians) covered by moving the hand across its range
+const HAND_AZIMUTH_RANGE = Math.PI * 3;
+
+// How quickly pending two-hand zoom/rotation is eased in (per second)
+const MANIPULATION_EASE = 12;
+
+// Spin gesture: initial angular speed (rad/s) and how fast it decays (per second)
+const SPIN_IMPULSE = Math.PI * 2;
+const SPIN_DAMPING = 1.2;
+
 // Snow particle component
 const SnowParticles: React.FC<{ count?: number }> = ({ count = 500 }) => {
   const meshRef = useRef<any>(null);
@@ -83,6 +118,25 @@ const SnowParticles: React.FC<{ count?: number }> = ({ count = 500 }) => {
   );
 };
 
+// Saves the canvas when `request` changes. Runs after the EffectComposer pass (priority 1)
+// so the drawing buffer still holds the final post-processed frame.
+const ScreenshotCapture: React.FC<{ request: number }> = ({ request }) => {
+  const gl = useThree((state) => state.gl);
+  const handledRef = useRef(request);
+
+  useFrame(() => {
+    if (handledRef.current === request) return;
+    handledRef.current = request;
+
+    const link = document.createElement('a');
+    link.href = gl.domElement.toDataURL('image/png');
+    link.download = `christmas-tree-${Date.now()}.png`;
+    link.click();
+  }, 2);
+
+  return null;
+};
+
 export const Experience: React.FC<ExperienceProps> = ({ 
   mode, 
   handPosition, 
@@ -90,15 +144,108 @@ export const Experience: React.FC<ExperienceProps> = ({
   twoHandsDetected, 
   onClosestPhotoChange,
   cameraMove,
-  showSnow 
+  showSnow,
+  screenshotRequest = 0,
+  spinRequest = 0,
+  treeShape = DEFAULT_TREE_SHAPE,
+  theme = THEMES[DEFAULT_THEME_ID],
+  formation = TREE_FORMATION,
+  onFormationError,
+  choreography = CHOREOGRAPHIES[0],
+  onTransitionComplete,
+  lightPattern,
+  audio,
+  garlands = DEFAULT_GARLAND_SETTINGS,
+  topper,
+  seed = 0
 }) => {
   const controlsRef = useRef<any>(null);
+  const bloomRef = useRef<BloomEffect>(null);
+  const clock = useThree((state) => state.clock);
+
+  // Ornaments, photos and the star only belong on the tree; other formations scatter them
+  const decorationMode = formation.kind === 'tree' ? mode : TreeMode.CHAOS;
+
+  // One timeline drives every group, so their transitions can be sequenced against each other.
+  // Everything starts scattered and assembles on load.
+  const timeline = useMemo(() => createTransitionTimeline(false, choreography), []);
+  useEffect(() => timeline.setChoreography(choreography), [timeline, choreography]);
+
+  const onTransitionCompleteRef = useRef(onTransitionComplete);
+  onTransitionCompleteRef.current = onTransitionComplete;
+
+  useEffect(() => {
+    const formed = mode === TreeMode.FORMED;
+    const decorationsFormed = decorationMode === TreeMode.FORMED;
+    timeline.play(
+      { foliage: formed, ornaments: decorationsFormed, garlands: decorationsFormed, photos: decorationsFormed, star: decorationsFormed },
+      clock.elapsedTime,
+      () => onTransitionCompleteRef.current?.(mode)
+    );
+  }, [timeline, clock, mode, decorationMode]);
+  const treeRef = useRef<THREE.Group>(null);
+
+  // The palm cast into the scene, jostling the ornaments and photos it passes near
+  const brush = useMemo(() => createHandBrush(), []);
+
+  // Two-hand grab deltas accumulate here and are eased into the scene each frame
+  const pendingManipulationRef = useRef({ zoom: 1, rotation: 0 });
+  useEffect(() => subscribeManipulation(delta => {
+    pendingManipulationRef.current.zoom *= delta.zoom;
+    pendingManipulationRef.current.rotation += delta.rotation;
+  }), []);
+
+  // Each spin request adds an impulse; several stirs in a row spin faster
+  const spinVelocityRef = useRef(0);
+  const handledSpinRef = useRef(spinRequest);
+  useEffect(() => {
+    if (handledSpinRef.current === spinRequest) return;
+    handledSpinRef.current = spinRequest;
+    spinVelocityRef.current += SPIN_IMPULSE;
+  }, [spinRequest]);
 
   // Update camera based on hand position and camera move
-  useFrame((_, delta) => {
+  useFrame((state, delta) => {
+    timeline.tick(state.clock.elapsedTime);
+    if (treeRef.current) updateHandBrush(brush, handPosition, state.camera, treeRef.current, delta);
+
+    // Loud passages and beats make the whole scene glow harder
+    if (bloomRef.current) {
+      const levels = audio?.levels(state.clock.elapsedTime);
+      bloomRef.current.intensity = theme.bloom.intensity * (levels ? 1 + levels.level * 0.8 + levels.beat * 0.6 : 1);
+    }
+
     if (!controlsRef.current) return;
     const controls = controlsRef.current;
     
+    // Handle two-hand pinch (zoom proportional to hand spread, twist rotates the tree)
+    const pending = pendingManipulationRef.current;
+    if (pending.zoom !== 1 || pending.rotation !== 0) {
+      const t = 1 - Math.exp(-MANIPULATION_EASE * delta);
+      const zoomStep = Math.pow(pending.zoom, t);
+      const rotationStep = pending.rotation * t;
+      pending.zoom /= zoomStep;
+      pending.rotation -= rotationStep;
+      if (Math.abs(pending.zoom - 1) < 1e-4) pending.zoom = 1;
+      if (Math.abs(pending.rotation) < 1e-4) pending.rotation = 0;
+
+      const newDistance = THREE.MathUtils.clamp(controls.getDistance() * zoomStep, controls.minDistance, controls.maxDistance);
+      const direction = controls.object.position.clone().sub(controls.target).normalize();
+      controls.object.position.copy(controls.target).add(direction.multiplyScalar(newDistance));
+      controls.update();
+
+      if (treeRef.current) {
+        treeRef.current.rotation.y += rotationStep;
+      }
+    }
+    
+    // Handle spin (stir gesture)
+    if (spinVelocityRef.current !== 0 && treeRef.current) {
+      treeRef.current.rotation.y += spinVelocityRef.current * delta;
+      spinVelocityRef.current *= Math.exp(-SPIN_DAMPING * delta);
+      if (Math.abs(spinVelocityRef.current) < 0.01) spinVelocityRef.current = 0;
+    }
+    
     // Handle Camera Move (Thumbs Up/Down)
     if (cameraMove) {
       const moveSpeed = 5;
@@ -119,11 +266,11 @@ export const Experience: React.FC<ExperienceProps> = ({
     
     // Handle hand position for rotation (only when not moving)
     if (handPosition.detected && !cameraMove) {
-      // Map hand position to spherical coordinates
-      const targetAzimuth = (handPosition.x - 0.5) * Math.PI * 3;
+      // Map hand position to spherical coordinates. The position arrives smoothed and
+      // normalized to the user's calibrated range, so 0..1 spans the whole orbit.
+      const targetAzimuth = (handPosition.x - 0.5) * HAND_AZIMUTH_RANGE;
       
-      const adjustedY = (handPosition.y - 0.2) * 2.0;
-      const clampedY = Math.max(0, Math.min(1, adjustedY));
+      const clampedY = Math.max(0, Math.min(1, handPosition.y));
       
       const minPolar = Math.PI / 4;
       const maxPolar = Math.PI / 1.8;
@@ -157,6 +304,7 @@ export const Experience: React.FC<ExperienceProps> = ({
       <OrbitControls 
         ref={controlsRef}
         enablePan={false} 
+        enableZoom={false} // Wheel and pinch go through the cameraMove path instead
         minPolarAngle={Math.PI / 4} 
         maxPolarAngle={Math.PI / 1.8}
         minDistance={10}
@@ -169,22 +317,23 @@ export const Experience: React.FC<ExperienceProps> = ({
       {/* Lighting Setup for Maximum Luxury */}
       <Environment preset="lobby" background={false} blur={0.8} />
       
-      <ambientLight intensity={0.2} color="#004422" />
+      <ambientLight intensity={0.2} color={theme.lights.ambient} />
       <spotLight 
         position={[10, 20, 10]} 
         angle={0.2} 
         penumbra={1} 
         intensity={2} 
-        color="#fff5cc" 
+        color={theme.lights.key} 
         castShadow 
       />
-      <pointLight position={[-10, 5, -10]} intensity={1} color="#D4AF37" />
+      <pointLight position={[-10, 5, -10]} intensity={1} color={theme.lights.fill} />
 
-      <group position={[0, -5, 0]}>
-        <Foliage mode={mode} count={12000} />
-        <Ornaments mode={mode} count={600} />
-        <Polaroids mode={mode} uploadedPhotos={uploadedPhotos} twoHandsDetected={twoHandsDetected} onClosestPhotoChange={onClosestPhotoChange} />
-        <TreeStar mode={mode} />
+      <group ref={treeRef} position={[0, -5, 0]}>
+        <Foliage timeline={timeline} count={12000} shape={treeShape} theme={theme} formation={formation} onFormationError={onFormationError} audio={audio} seed={seed} />
+        <Ornaments timeline={timeline} count={600} shape={treeShape} theme={theme} lightPattern={lightPattern} audio={audio} brush={brush} seed={seed} />
+        <Garlands timeline={timeline} shape={treeShape} theme={theme} settings={garlands} lightPattern={lightPattern} audio={audio} seed={seed} />
+        <Polaroids timeline={timeline} uploadedPhotos={uploadedPhotos} twoHandsDetected={twoHandsDetected} onClosestPhotoChange={onClosestPhotoChange} shape={treeShape} theme={theme} brush={brush} seed={seed} />
+        <TreeStar timeline={timeline} shape={treeShape} theme={theme} audio={audio} topper={topper} seed={seed} />
         
         {/* Snow Effect */}
         {showSnow && <SnowParticles count={800} />}
@@ -201,14 +350,17 @@ export const Experience: React.FC<ExperienceProps> = ({
 
       <EffectComposer enableNormalPass={false}>
         <Bloom 
-          luminanceThreshold={0.8} 
+          ref={bloomRef}
+          luminanceThreshold={theme.bloom.threshold} 
           mipmapBlur 
-          intensity={1.5} 
+          intensity={theme.bloom.intensity} 
           radius={0.6}
         />
-        <Vignette eskil={false} offset={0.1} darkness={0.7} />
+        <Vignette eskil={false} offset={0.1} darkness={theme.vignetteDarkness} />
         <Noise opacity={0.02} blendFunction={BlendFunction.OVERLAY} />
       </EffectComposer>
+
+      <ScreenshotCapture request={screenshotRequest} />
     </>
   );
 };
@@ -1,20 +1,42 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeMode } from '../types';
+import { TreeShape } from '../lib/treeShape';
+import { Theme } from '../lib/themes';
+import { buildFormation, Formation, TREE_FORMATION, treeFormation } from '../lib/formations';
+import { applyTransition, createTransitionUniforms, TRANSITION_GLSL, TransitionTimeline } from '../lib/transitionTimeline';
+import { AudioReactor } from '../lib/audioReactive';
+import { createRandom } from '../lib/random';
 
 interface FoliageProps {
-  mode: TreeMode;
+  timeline: TransitionTimeline;
   count: number;
+  shape: TreeShape;
+  theme: Theme;
+  formation?: Formation;
+  onFormationError?: (error: Error) => void;
+  audio?: AudioReactor | null; // Music makes the tips sparkle more, and flash on beats
+  seed: number; // Determines where every particle scatters to
 }
 
+// How fast particles travel from one formation to the next (per second)
+const MORPH_SPEED = 0.8;
+
 const vertexShader = `
   uniform float uTime;
-  uniform float uProgress;
+  uniform float uMorph;
+  uniform float uTreble;
+  uniform float uBeat;
+  uniform vec3 uChaosColor;
+  uniform vec3 uBaseColor;
+  uniform vec3 uHighlightColor;
+  ${TRANSITION_GLSL}
   
   attribute vec3 aChaosPos;
+  attribute vec3 aPrevTargetPos;
   attribute vec3 aTargetPos;
   attribute float aRandom;
+  attribute vec2 aLattice; // The particle's spot on the tree lattice: height 0..1, angle
   
   varying vec3 vColor;
   varying float vAlpha;
@@ -27,12 +49,15 @@ const vertexShader = `
   }
 
   void main() {
-    // Add some individual variation to the progress so they don't all move at once
-    float localProgress = clamp(uProgress * 1.2 - aRandom * 0.2, 0.0, 1.0);
-    float easedProgress = cubicInOut(localProgress);
+    // Eased by the transition timeline, 0 chaos .. 1 formed
+    float easedProgress = transitionProgress(vec3(aLattice, aRandom));
+
+    // Formation changes morph from the previous target to the new one, staggered the same way
+    float morph = cubicInOut(clamp(uMorph * 1.2 - aRandom * 0.2, 0.0, 1.0));
+    vec3 targetPos = mix(aPrevTargetPos, aTargetPos, morph);
 
     // Interpolate position
-    vec3 newPos = mix(aChaosPos, aTargetPos, easedProgress);
+    vec3 newPos = mix(aChaosPos, targetPos, easedProgress);
     
     // Add a slight "breathing" wind effect when formed
     if (easedProgress > 0.9) {
@@ -46,20 +71,16 @@ const vertexShader = `
     gl_PointSize = (4.0 * aRandom + 2.0) * (20.0 / -mvPosition.z);
     gl_Position = projectionMatrix * mvPosition;
 
-    // Color logic: Mix between Chaos Gold and Formed Emerald
-    vec3 goldColor = vec3(1.0, 0.84, 0.0);
-    vec3 emeraldColor = vec3(0.0, 0.4, 0.1);
-    vec3 brightGreen = vec3(0.1, 0.8, 0.2);
-    
+    // Color logic: Mix between the theme's chaos and formed colors
     // Sparkle effect
     float sparkle = sin(uTime * 5.0 + aRandom * 100.0);
-    vec3 finalGreen = mix(emeraldColor, brightGreen, aRandom * 0.3);
+    vec3 finalGreen = mix(uBaseColor, uHighlightColor, aRandom * 0.3);
     
-    vColor = mix(goldColor, finalGreen, easedProgress);
+    vColor = mix(uChaosColor, finalGreen, easedProgress);
     
-    // Add sparkle to the tips
-    if (sparkle > 0.9) {
-      vColor += vec3(0.5);
+    // Add sparkle to the tips; brighter music lights up more of them
+    if (sparkle > 0.9 - uTreble * 0.4) {
+      vColor += vec3(0.5 + uBeat);
     }
 
     vAlpha = 1.0;
@@ -83,69 +104,131 @@ const fragmentShader = `
   }
 `;
 
-export const Foliage: React.FC<FoliageProps> = ({ mode, count }) => {
+export const Foliage: React.FC<FoliageProps> = ({ timeline, count, shape, theme, formation = TREE_FORMATION, onFormationError, audio, seed }) => {
   const meshRef = useRef<THREE.Points>(null);
-  
-  // Target progress reference for smooth JS-side dampening logic for the uniform
-  const progressRef = useRef(0);
+  const morphRef = useRef(1);
+  const onFormationErrorRef = useRef(onFormationError);
+  onFormationErrorRef.current = onFormationError;
 
-  const { chaosPositions, targetPositions, randoms } = useMemo(() => {
+  const { chaosPositions, randoms } = useMemo(() => {
+    const random = createRandom(seed, 'foliage');
     const chaos = new Float32Array(count * 3);
-    const target = new Float32Array(count * 3);
     const rnd = new Float32Array(count);
 
-    const goldenRatio = (1 + Math.sqrt(5)) / 2;
-    const height = 12;
-    const maxRadius = 5;
-
     for (let i = 0; i < count; i++) {
       // 1. Chaos Positions: Random sphere
-      const r = 25 * Math.cbrt(Math.random());
-      const theta = Math.random() * 2 * Math.PI;
-      const phi = Math.acos(2 * Math.random() - 1);
+      const r = 25 * Math.cbrt(random());
+      const theta = random() * 2 * Math.PI;
+      const phi = Math.acos(2 * random() - 1);
       
       chaos[i * 3] = r * Math.sin(phi) * Math.cos(theta);
       chaos[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta) + 5; // Lift up slightly
       chaos[i * 3 + 2] = r * Math.cos(phi);
 
-      // 2. Target Positions: Spiral Cone (Fibonacci Lattice on Cone)
-      // Normalized height 0 to 1
-      const yNorm = i / count; 
-      const y = yNorm * height;
-      const currentRadius = maxRadius * (1 - yNorm);
-      const angle = 2 * Math.PI * goldenRatio * i;
-
-      target[i * 3] = Math.cos(angle) * currentRadius;
-      target[i * 3 + 1] = y;
-      target[i * 3 + 2] = Math.sin(angle) * currentRadius;
-
-      // 3. Randoms
-      rnd[i] = Math.random();
+      // 2. Randoms
+      rnd[i] = random();
     }
 
     return {
       chaosPositions: chaos,
-      targetPositions: target,
       randoms: rnd
     };
+  }, [count, seed]);
+
+  // Place in the transition order, as the timeline's stagger input (the angle is kept within one
+  // turn so it stays precise as a float on the GPU)
+  const lattice = useMemo(() => {
+    const goldenRatio = (1 + Math.sqrt(5)) / 2;
+    const points = new Float32Array(count * 2);
+    for (let i = 0; i < count; i++) {
+      points[i * 2] = i / count;
+      points[i * 2 + 1] = 2 * Math.PI * ((goldenRatio * i) % 1);
+    }
+    return points;
   }, [count]);
+  // A new seed (or count) swaps the arrays under the existing attributes, so have them uploaded again
+  useLayoutEffect(() => {
+    const geometry = meshRef.current?.geometry;
+    if (!geometry) return;
+    ['position', 'aChaosPos', 'aRandom', 'aLattice'].forEach(name => {
+      geometry.getAttribute(name).needsUpdate = true;
+    });
+  }, [chaosPositions, randoms, lattice]);
+
+
+  // Target Positions: start as the tree, rewritten in place when the formation changes
+  const { prevTargetPositions, targetPositions } = useMemo(() => {
+    const tree = treeFormation(shape, count);
+    return { prevTargetPositions: tree.slice(), targetPositions: tree };
+  }, [count]); // Later shape changes arrive through the formation effect below
+
+  useLayoutEffect(() => {
+    let cancelled = false;
+
+    buildFormation(formation, count, shape, createRandom(seed, 'formation'))
+      .then(next => {
+        const geometry = meshRef.current?.geometry;
+        if (cancelled || !geometry) return;
+
+        // Start from wherever each particle is right now, so a morph can be interrupted
+        const progress = morphRef.current;
+        for (let i = 0; i < count; i++) {
+          const local = Math.min(1, Math.max(0, progress * 1.2 - randoms[i] * 0.2));
+          const eased = local < 0.5 ? 4 * local * local * local : 1 - Math.pow(-2 * local + 2, 3) / 2;
+          for (let axis = i * 3; axis < i * 3 + 3; axis++) {
+            prevTargetPositions[axis] += (targetPositions[axis] - prevTargetPositions[axis]) * eased;
+          }
+        }
+        targetPositions.set(next);
+        morphRef.current = 0;
+
+        geometry.getAttribute('aPrevTargetPos').needsUpdate = true;
+        geometry.getAttribute('aTargetPos').needsUpdate = true;
+      })
+      .catch(error => {
+        console.warn('Could not build formation:', error);
+        if (!cancelled) onFormationErrorRef.current?.(error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formation, shape, count, seed, randoms, prevTargetPositions, targetPositions]);
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uProgress: { value: 0 },
+    uMorph: { value: 1 },
+    uTreble: { value: 0 },
+    uBeat: { value: 0 },
+    uChaosColor: { value: new THREE.Color() },
+    uBaseColor: { value: new THREE.Color() },
+    uHighlightColor: { value: new THREE.Color() },
+    ...createTransitionUniforms(),
   }), []);
 
+  // Theme colors are uniforms, so switching themes doesn't rebuild the shader
+  useLayoutEffect(() => {
+    uniforms.uChaosColor.value.set(theme.foliage.chaos);
+    uniforms.uBaseColor.value.set(theme.foliage.base);
+    uniforms.uHighlightColor.value.set(theme.foliage.highlight);
+  }, [uniforms, theme]);
+
   useFrame((state, delta) => {
     if (meshRef.current) {
       const material = meshRef.current.material as THREE.ShaderMaterial;
+      const time = state.clock.elapsedTime;
       // Update time
-      material.uniforms.uTime.value = state.clock.elapsedTime;
-      
-      // Smoothly interpolate the progress uniform
-      const target = mode === TreeMode.FORMED ? 1 : 0;
-      // Using a simple lerp for the uniform value
-      progressRef.current = THREE.MathUtils.lerp(progressRef.current, target, delta * 1.5);
-      material.uniforms.uProgress.value = progressRef.current;
+      material.uniforms.uTime.value = time;
+
+      const levels = audio?.levels(time);
+      material.uniforms.uTreble.value = levels?.treble ?? 0;
+      material.uniforms.uBeat.value = levels?.beat ?? 0;
+
+      // Each particle works out its own staggered progress in the shader
+      applyTransition(uniforms, timeline, 'foliage', time);
+
+      morphRef.current = Math.min(1, morphRef.current + delta * MORPH_SPEED);
+      material.uniforms.uMorph.value = morphRef.current;
     }
   });
 
@@ -164,6 +247,12 @@ export const Foliage: React.FC<FoliageProps> = ({ mode, count }) => {
           array={chaosPositions}
           itemSize={3}
         />
+        <bufferAttribute
+          attach="attributes-aPrevTargetPos"
+          count={count}
+          array={prevTargetPositions}
+          itemSize={3}
+        />
         <bufferAttribute
           attach="attributes-aTargetPos"
           count={count}
@@ -176,6 +265,12 @@ export const Foliage: React.FC<FoliageProps> = ({ mode, count }) => {
           array={randoms}
           itemSize={1}
         />
+        <bufferAttribute
+          attach="attributes-aLattice"
+          count={count}
+          array={lattice}
+          itemSize={2}
+        />
       </bufferGeometry>
       {/* @ts-ignore */}
       <shaderMaterial
@@ -0,0 +1,312 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { TreeShape } from '../lib/treeShape';
+import { Theme } from '../lib/themes';
+import { StaggerInput, TransitionTimeline } from '../lib/transitionTimeline';
+import { applyLightPattern, createLightPatternUniforms, LIGHT_PATTERN_GLSL, LIGHT_PATTERNS, LightPattern } from '../lib/lightPatterns';
+import { AudioReactor } from '../lib/audioReactive';
+import { createGarlandStrands, GarlandSettings, GarlandStrand } from '../lib/garlands';
+import { createRandom, Random } from '../lib/random';
+
+interface GarlandsProps {
+  timeline: TransitionTimeline;
+  shape: TreeShape;
+  theme: Theme;
+  settings: GarlandSettings;
+  lightPattern?: LightPattern; // Light show played on light strings
+  audio?: AudioReactor | null;
+  seed: number; // Determines where the strands unravel to
+}
+
+// One point along a strand: where it sits wrapped and unravelled, and its place in the transition order
+interface StrandPoint {
+  formed: THREE.Vector3;
+  chaos: THREE.Vector3;
+  stagger: StaggerInput;
+}
+
+// Built geometry plus the points its aProgress values follow, `verticesPerPoint` values each
+interface GarlandBuffers {
+  geometry: THREE.BufferGeometry;
+  points: StrandPoint[];
+  verticesPerPoint: number;
+}
+
+const TUBE_SEGMENT_LENGTH = 0.15;
+const BEAD_SPACING = 0.2;
+const BULB_SPACING = 0.5;
+
+// Every garland vertex is stored relative to its strand point, which the shader carries between the two curves
+const GARLAND_VERTEX_GLSL = `
+  attribute vec3 aChaosPos;
+  attribute vec3 aTargetPos;
+  attribute float aProgress;
+
+  vec3 garlandPoint() {
+    return mix(aChaosPos, aTargetPos, aProgress);
+  }
+`;
+
+const animateGarlandMaterial = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  shader.vertexShader = GARLAND_VERTEX_GLSL + shader.vertexShader
+    .replace('#include <begin_vertex>', `#include <begin_vertex>
+      transformed += garlandPoint();`);
+};
+
+// Bulbs are unlit and follow the light pattern, like the ornament lights
+const bulbVertexShader = `
+  uniform float uTime;
+  uniform vec3 uLightColor;
+  uniform float uAudioBoost;
+
+  ${GARLAND_VERTEX_GLSL}
+  ${LIGHT_PATTERN_GLSL}
+
+  attribute vec3 aStagger;
+
+  varying vec3 vColor;
+
+  void main() {
+    vec2 level = lightLevel(aStagger);
+    float intensity = level.x * uAudioBoost;
+    vColor = lightColor(level, uLightColor) * intensity;
+
+    vec3 transformed = position * (0.8 + intensity * 0.1) + garlandPoint();
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(transformed, 1.0);
+  }
+`;
+
+const bulbFragmentShader = `
+  varying vec3 vColor;
+
+  void main() {
+    gl_FragColor = vec4(vColor, 1.0);
+  }
+`;
+
+// `u` is the fraction of the way along the wrapped strand, by length
+const strandPoint = (strand: GarlandStrand, shape: TreeShape, u: number, random: Random): StrandPoint => {
+  const t = strand.formed.getUtoTmapping(u, u * strand.formed.getLength());
+  const formed = strand.formed.getPoint(t);
+  return {
+    formed,
+    chaos: strand.chaos.getPoint(t),
+    stagger: { height: formed.y / shape.height, angle: Math.atan2(formed.z, formed.x), random: random() },
+  };
+};
+
+// Evenly spaced along each wrapped strand
+const spacedPoints = (strands: GarlandStrand[], shape: TreeShape, spacing: number, random: Random) =>
+  strands.flatMap(strand => {
+    const n = Math.max(2, Math.floor(strand.formed.getLength() / spacing));
+    return Array.from({ length: n + 1 }, (_, i) => strandPoint(strand, shape, i / n, random));
+  });
+
+const setPointAttributes = (geometry: THREE.BufferGeometry, chaos: Float32Array, target: Float32Array, count: number, instanced: boolean) => {
+  const Attribute = instanced ? THREE.InstancedBufferAttribute : THREE.BufferAttribute;
+  geometry.setAttribute('aChaosPos', new Attribute(chaos, 3));
+  geometry.setAttribute('aTargetPos', new Attribute(target, 3));
+  // Written from the transition timeline while it runs
+  geometry.setAttribute('aProgress', new Attribute(new Float32Array(count), 1));
+};
+
+// A tube along each strand. `fuzz` roughens the radius per vertex, which reads as tinsel once flat shaded.
+const buildTube = (strands: GarlandStrand[], shape: TreeShape, radius: number, radialSegments: number, fuzz: number, random: Random): GarlandBuffers => {
+  const verticesPerPoint = radialSegments + 1;
+  const points: StrandPoint[] = [];
+  const tubes = strands.map(strand => {
+    const segments = Math.max(2, Math.ceil(strand.formed.getLength() / TUBE_SEGMENT_LENGTH));
+    const tube = new THREE.TubeGeometry(strand.formed, segments, radius, radialSegments, false);
+    const position = tube.getAttribute('position');
+    const chaos = new Float32Array(position.count * 3);
+    const target = new Float32Array(position.count * 3);
+
+    // TubeGeometry lays rings out evenly by arc length, one ring of vertices per segment end
+    for (let ring = 0; ring <= segments; ring++) {
+      const point = strandPoint(strand, shape, ring / segments, random);
+      points.push(point);
+      for (let j = 0; j < verticesPerPoint; j++) {
+        const v = ring * verticesPerPoint + j;
+        const stretch = 1 + (random() - 0.5) * fuzz;
+        position.setXYZ(
+          v,
+          (position.getX(v) - point.formed.x) * stretch,
+          (position.getY(v) - point.formed.y) * stretch,
+          (position.getZ(v) - point.formed.z) * stretch
+        );
+        point.chaos.toArray(chaos, v * 3);
+        point.formed.toArray(target, v * 3);
+      }
+    }
+    setPointAttributes(tube, chaos, target, position.count, false);
+    return tube;
+  });
+
+  const geometry = tubes.length === 1 ? tubes[0] : mergeGeometries(tubes);
+  if (tubes.length > 1) tubes.forEach(tube => tube.dispose());
+  if (!geometry) throw new Error('Could not merge garland geometry');
+  return { geometry, points, verticesPerPoint };
+};
+
+// One instance per point; `geometry` is the shape each instance draws
+const buildInstances = (geometry: THREE.BufferGeometry, points: StrandPoint[]): GarlandBuffers => {
+  const chaos = new Float32Array(points.length * 3);
+  const target = new Float32Array(points.length * 3);
+  const stagger = new Float32Array(points.length * 3);
+  points.forEach((point, i) => {
+    point.chaos.toArray(chaos, i * 3);
+    point.formed.toArray(target, i * 3);
+    stagger.set([point.stagger.height, point.stagger.angle, point.stagger.random], i * 3);
+  });
+  setPointAttributes(geometry, chaos, target, points.length, true);
+  geometry.setAttribute('aStagger', new THREE.InstancedBufferAttribute(stagger, 3));
+  return { geometry, points, verticesPerPoint: 1 };
+};
+
+// Keeps aProgress in step with the timeline: every frame of a transition, plus one to land on the end state
+// (and once more whenever the geometry is rebuilt)
+const useGarlandProgress = ({ geometry, points, verticesPerPoint }: GarlandBuffers, timeline: TransitionTimeline) => {
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  const settledGeometryRef = useRef<THREE.BufferGeometry | null>(null);
+
+  useFrame((state) => {
+    const time = state.clock.elapsedTime;
+    const settled = timeline.isSettled('garlands', time);
+    if (!settled || settledGeometryRef.current !== geometry) {
+      const progress = geometry.getAttribute('aProgress') as THREE.BufferAttribute;
+      const values = progress.array as Float32Array;
+      points.forEach((point, i) => {
+        values.fill(timeline.progress('garlands', point.stagger, time), i * verticesPerPoint, (i + 1) * verticesPerPoint);
+      });
+      progress.needsUpdate = true;
+    }
+    settledGeometryRef.current = settled ? geometry : null;
+  });
+};
+
+interface StrandsProps {
+  strands: GarlandStrand[];
+  seed: number;
+  shape: TreeShape;
+  timeline: TransitionTimeline;
+}
+
+const GarlandTube: React.FC<StrandsProps & {
+  radius: number;
+  radialSegments: number;
+  fuzz: number;
+  color: string;
+  metalness: number;
+  roughness: number;
+}> = ({ strands, seed, shape, timeline, radius, radialSegments, fuzz, color, metalness, roughness }) => {
+  const buffers = useMemo(
+    () => buildTube(strands, shape, radius, radialSegments, fuzz, createRandom(seed, 'garland-tube')),
+    [strands, seed, shape, radius, radialSegments, fuzz]
+  );
+  useGarlandProgress(buffers, timeline);
+
+  return (
+    <mesh geometry={buffers.geometry} frustumCulled={false}>
+      <meshStandardMaterial
+        color={color}
+        metalness={metalness}
+        roughness={roughness}
+        flatShading={fuzz > 0}
+        envMapIntensity={1.5}
+        onBeforeCompile={animateGarlandMaterial}
+      />
+    </mesh>
+  );
+};
+
+const GarlandBeads: React.FC<StrandsProps & { palette: string[] }> = ({ strands, seed, shape, timeline, palette }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const buffers = useMemo(
+    () => buildInstances(new THREE.SphereGeometry(0.08, 10, 8), spacedPoints(strands, shape, BEAD_SPACING, createRandom(seed, 'garland-beads'))),
+    [strands, seed, shape]
+  );
+  useGarlandProgress(buffers, timeline);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    // Beads cycle through the theme palette along the strand
+    const color = new THREE.Color();
+    buffers.points.forEach((_, i) => mesh.setColorAt(i, color.set(palette[i % palette.length])));
+    mesh.instanceColor!.needsUpdate = true;
+  }, [buffers, palette]);
+
+  return (
+    <instancedMesh ref={meshRef} args={[buffers.geometry, undefined, buffers.points.length]} frustumCulled={false}>
+      <meshStandardMaterial metalness={0.6} roughness={0.15} envMapIntensity={1.5} onBeforeCompile={animateGarlandMaterial} />
+    </instancedMesh>
+  );
+};
+
+const GarlandLights: React.FC<StrandsProps & { lightColor: string; lightPattern: LightPattern; audio?: AudioReactor | null }> = ({
+  strands,
+  seed,
+  shape,
+  timeline,
+  lightColor,
+  lightPattern,
+  audio,
+}) => {
+  const buffers = useMemo(
+    () => buildInstances(new THREE.SphereGeometry(0.09, 8, 8), spacedPoints(strands, shape, BULB_SPACING, createRandom(seed, 'garland-lights'))),
+    [strands, seed, shape]
+  );
+  useGarlandProgress(buffers, timeline);
+
+  const uniforms = useMemo(() => ({
+    uTime: { value: 0 },
+    uLightColor: { value: new THREE.Color() },
+    uAudioBoost: { value: 1 },
+    ...createLightPatternUniforms(),
+  }), []);
+
+  useLayoutEffect(() => {
+    uniforms.uLightColor.value.set(lightColor);
+    applyLightPattern(uniforms, lightPattern);
+  }, [uniforms, lightColor, lightPattern]);
+
+  useFrame((state) => {
+    const time = state.clock.elapsedTime;
+    uniforms.uTime.value = time;
+    const levels = audio?.levels(time);
+    uniforms.uAudioBoost.value = levels ? 1 + levels.bass * 0.5 + levels.beat * 1.5 : 1;
+  });
+
+  return (
+    <>
+      {/* The wire the bulbs hang on */}
+      <GarlandTube strands={strands} seed={seed} shape={shape} timeline={timeline} radius={0.02} radialSegments={4} fuzz={0} color="#1A1A1A" metalness={0.2} roughness={0.6} />
+      <instancedMesh args={[buffers.geometry, undefined, buffers.points.length]} frustumCulled={false}>
+        <shaderMaterial vertexShader={bulbVertexShader} fragmentShader={bulbFragmentShader} uniforms={uniforms} toneMapped={false} />
+      </instancedMesh>
+    </>
+  );
+};
+
+export const Garlands: React.FC<GarlandsProps> = ({ timeline, shape, theme, settings, lightPattern = LIGHT_PATTERNS[0], audio, seed }) => {
+  const { strands: strandCount, spacing, style } = settings;
+  const strands = useMemo(
+    () => createGarlandStrands(shape, strandCount, spacing, createRandom(seed, 'garlands')),
+    [shape, strandCount, spacing, seed]
+  );
+
+  if (strands.length === 0) return null;
+
+  switch (style) {
+    case 'tinsel':
+      return (
+        <GarlandTube strands={strands} seed={seed} shape={shape} timeline={timeline} radius={0.1} radialSegments={8} fuzz={0.8} color={theme.metal} metalness={1} roughness={0.3} />
+      );
+    case 'beads':
+      return <GarlandBeads strands={strands} seed={seed} shape={shape} timeline={timeline} palette={theme.ornaments.palette} />;
+    case 'lights':
+      return <GarlandLights strands={strands} seed={seed} shape={shape} timeline={timeline} lightColor={theme.ornaments.light} lightPattern={lightPattern} audio={audio} />;
+  }
+};
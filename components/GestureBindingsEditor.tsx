@@ -0,0 +1,102 @@
+import React from 'react';
+import { AppAction, GestureType } from '../types';
+import { ACTION_INFO, DEFAULT_BINDINGS, GESTURE_ICONS, GestureBinding, GestureBindings, HAND_LABELS, handednessPreset } from '../lib/gestureBindings';
+import { isMotionGesture } from '../lib/motionGestures';
+
+interface GestureBindingsEditorProps {
+  bindings: GestureBindings;
+  onChange: (bindings: GestureBindings) => void;
+}
+
+export const GestureBindingsEditor: React.FC<GestureBindingsEditorProps> = ({ bindings, onChange }) => {
+  const updateBinding = (gesture: GestureType, patch: Partial<GestureBinding>) => {
+    onChange({ ...bindings, [gesture]: { ...bindings[gesture], ...patch } });
+  };
+
+  return (
+    <div className="flex flex-col gap-1 text-[10px]">
+      {/* Column headers */}
+      <div className="grid grid-cols-[2.5rem_1fr_2.75rem_2.5rem_3.5rem] gap-1 text-highlight/50 px-1">
+        <span></span>
+        <span>Hành động</span>
+        <span title="Tay nào được dùng">Tay</span>
+        <span title="Số khung hình phải giữ">Giữ</span>
+        <span title="Thời gian chờ (ms)">Chờ ms</span>
+      </div>
+
+      {(Object.keys(bindings) as GestureType[]).map(gesture => {
+        // A swipe or stir is over in an instant: nothing to hold, and nothing continuous to drive
+        const motion = isMotionGesture(gesture);
+        return (
+          <div key={gesture} className="grid grid-cols-[2.5rem_1fr_2.75rem_2.5rem_3.5rem] gap-1 items-center p-1 bg-white/5 rounded">
+            <span>{GESTURE_ICONS[gesture]}</span>
+            <select
+              value={bindings[gesture].action}
+              onChange={(e) => updateBinding(gesture, { action: e.target.value as AppAction })}
+              className="bg-black/70 border border-primary/30 rounded text-highlight px-1 py-0.5"
+            >
+              {(Object.keys(ACTION_INFO) as AppAction[])
+                .filter(action => !(motion && ACTION_INFO[action].continuous))
+                .map(action => (
+                  <option key={action} value={action}>{ACTION_INFO[action].label}</option>
+                ))}
+            </select>
+            <select
+              value={bindings[gesture].hand}
+              onChange={(e) => updateBinding(gesture, { hand: e.target.value as GestureBinding['hand'] })}
+              className="bg-black/70 border border-primary/30 rounded text-highlight px-0.5 py-0.5"
+            >
+              {(Object.keys(HAND_LABELS) as GestureBinding['hand'][]).map(hand => (
+                <option key={hand} value={hand}>{HAND_LABELS[hand]}</option>
+              ))}
+            </select>
+            {motion ? (
+              <span className="text-center text-highlight/40">—</span>
+            ) : (
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={bindings[gesture].holdFrames}
+                onChange={(e) => updateBinding(gesture, { holdFrames: Math.max(1, Number(e.target.value) || 1) })}
+                className="bg-black/70 border border-primary/30 rounded text-highlight px-1 py-0.5 w-full"
+              />
+            )}
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={bindings[gesture].cooldownMs}
+              onChange={(e) => updateBinding(gesture, { cooldownMs: Math.max(0, Number(e.target.value) || 0) })}
+              className="bg-black/70 border border-primary/30 rounded text-highlight px-1 py-0.5 w-full"
+            />
+          </div>
+        );
+      })}
+
+      {/* Presets: default (either hand) or camera on one hand and photos on the dominant one */}
+      <div className="flex gap-1 mt-1">
+        <button
+          onClick={() => onChange({ ...DEFAULT_BINDINGS })}
+          className="flex-1 px-2 py-1 border border-primary/50 rounded text-primary hover:bg-primary/20 transition-colors"
+        >
+          ↺ Mặc định
+        </button>
+        <button
+          onClick={() => onChange(handednessPreset('right'))}
+          title="Tay phải: ảnh & cử chỉ chuyển động · Tay trái: camera"
+          className="flex-1 px-2 py-1 border border-primary/50 rounded text-primary hover:bg-primary/20 transition-colors"
+        >
+          🫱 Thuận phải
+        </button>
+        <button
+          onClick={() => onChange(handednessPreset('left'))}
+          title="Tay trái: ảnh & cử chỉ chuyển động · Tay phải: camera"
+          className="flex-1 px-2 py-1 border border-primary/50 rounded text-primary hover:bg-primary/20 transition-colors"
+        >
+          🫲 Thuận trái
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,25 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
-import { TreeMode } from '../types';
+import { TreeMode, AppAction } from '../types';
+import { createGestureRecognizer, GestureFrameResult, GestureRecognizer, GestureRecognizerOptions, HandFrame, Landmark, PoseThresholds } from '../lib/gestureRecognizer';
+import { drawAllHands } from '../lib/handSkeleton';
+import { publishHandFrame } from '../lib/handFrameEvents';
+import { MotionThresholds } from '../lib/motionGestures';
+import { createHandOwnership, DEFAULT_MULTI_PERSON_SETTINGS, GUEST_ACTIONS, MULTI_PERSON_MAX_HANDS, MultiPersonSettings, OwnershipResult, selectHands } from '../lib/handOwnership';
+import { createTwoHandManipulator, publishManipulation } from '../lib/twoHandManipulation';
+import { ACTION_INFO, bindingMatchesHand, bindingsToTiming, DEFAULT_BINDINGS, GestureBindings } from '../lib/gestureBindings';
+import { DEFAULT_LANDMARKER_OPTIONS } from '../lib/handLandmarker';
+import { createHandTracker, HandTracker } from '../lib/handTracker';
+import { createAdaptiveScheduler } from '../lib/adaptiveScheduler';
+import { computeHandRange, createHandPositionFilter, DEFAULT_HAND_POSITION_SETTINGS, HandPositionSettings, HandRange } from '../lib/handPosition';
+import { createLandmarkRecorder, downloadRecording, LandmarkRecorder, LandmarkRecording, parseRecording } from '../lib/landmarkRecording';
+import { createDiagnosticsLog, downloadDiagnostics } from '../lib/diagnostics';
+import { DIAGNOSTICS_STRINGS, DiagnosticsLocale, loadDiagnosticsLocale, saveDiagnosticsLocale } from '../lib/diagnosticsStrings';
+import { documentPrimaryColor } from '../lib/themes';
+import { GestureDebugInfo, GestureDiagnosticsPanel, INITIAL_DEBUG_INFO } from './GestureDiagnosticsPanel';
+
+// Guest skeletons in multi-person mode; the controller's is drawn in the theme accent
+const GUEST_COLOR = '#888888';
 
 interface GestureControllerProps {
   onModeChange: (mode: TreeMode) => void;
@@ -11,16 +29,26 @@ interface GestureControllerProps {
   onPhotoChange?: (direction: 'next' | 'prev') => void;
   onCameraMove?: (direction: 'forward' | 'backward' | null) => void;
   onSnowToggle?: () => void;
+  onAction?: (action: AppAction) => void; // Actions without a dedicated callback (viewer, slideshow, screenshot)
+  bindings?: GestureBindings;
+  poseThresholds?: Partial<PoseThresholds>; // Per-user overrides from the tutorial
+  motionThresholds?: Partial<MotionThresholds>;
+  handPositionSettings?: HandPositionSettings;
+  calibrating?: boolean; // Collect raw palm positions; the range is reported when this turns off
+  onCalibrated?: (range: HandRange | null) => void;
+  suspendActions?: boolean; // Keep tracking but trigger nothing (e.g. while the tutorial runs)
+  multiPerson?: MultiPersonSettings;
   debugMode?: boolean;
 }
 
-export const GestureController: React.FC<GestureControllerProps> = ({ onModeChange, currentMode, onHandPosition, onTwoHandsDetected, onPhotoChange, onCameraMove, onSnowToggle, debugMode = false }) => {
+export const GestureController: React.FC<GestureControllerProps> = ({ onModeChange, currentMode, onHandPosition, onTwoHandsDetected, onPhotoChange, onCameraMove, onSnowToggle, onAction, bindings = DEFAULT_BINDINGS, poseThresholds, motionThresholds, handPositionSettings = DEFAULT_HAND_POSITION_SETTINGS, calibrating = false, onCalibrated, suspendActions = false, multiPerson = DEFAULT_MULTI_PERSON_SETTINGS, debugMode = false }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isLoaded, setIsLoaded] = useState(false);
   const [gestureStatus, setGestureStatus] = useState<string>("Initializing...");
   const [handPos, setHandPos] = useState<{ x: number; y: number } | null>(null);
   const lastModeRef = useRef<TreeMode>(currentMode);
+  const multiPersonEnabled = multiPerson.enabled;
   
   // Refs to store latest callbacks (to avoid stale closure)
   const onPhotoChangeRef = useRef(onPhotoChange);
@@ -28,6 +56,10 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
   const onSnowToggleRef = useRef(onSnowToggle);
   const onHandPositionRef = useRef(onHandPosition);
   const onTwoHandsDetectedRef = useRef(onTwoHandsDetected);
+  const onActionRef = useRef(onAction);
+  const bindingsRef = useRef(bindings);
+  const suspendActionsRef = useRef(suspendActions);
+  const multiPersonRef = useRef(multiPerson);
   
   // Keep refs up to date
   useEffect(() => {
@@ -36,40 +68,52 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
     onSnowToggleRef.current = onSnowToggle;
     onHandPositionRef.current = onHandPosition;
     onTwoHandsDetectedRef.current = onTwoHandsDetected;
-  }, [onPhotoChange, onCameraMove, onSnowToggle, onHandPosition, onTwoHandsDetected]);
+    onActionRef.current = onAction;
+    suspendActionsRef.current = suspendActions;
+    multiPersonRef.current = multiPerson;
+  }, [suspendActions, multiPerson, onPhotoChange, onCameraMove, onSnowToggle, onHandPosition, onTwoHandsDetected, onAction]);
   
   // Debug panel toggle
   const [showDebug, setShowDebug] = useState(true);
   
   // Debug states for UI log
-  const [debugInfo, setDebugInfo] = useState({
-    handsCount: 0,
-    extendedFingers: 0,
-    gesture: 'Không có',
-    mode: 'FORMED',
-    confidence: { open: 0, closed: 0 },
-    status: 'Đang khởi tạo...',
-    error: ''
-  });
+  const [debugInfo, setDebugInfo] = useState<GestureDebugInfo>(INITIAL_DEBUG_INFO);
+  const [locale, setLocale] = useState<DiagnosticsLocale>(loadDiagnosticsLocale);
+  const diagnosticsRef = useRef(createDiagnosticsLog());
+  const t = DIAGNOSTICS_STRINGS[locale];
+  
+  // Frame counting, cooldowns and debounce live in the recognizer
+  const recognizerOptionsRef = useRef<GestureRecognizerOptions>({ timing: bindingsToTiming(bindings), thresholds: poseThresholds, motion: motionThresholds });
+  const recognizerRef = useRef<GestureRecognizer>(createGestureRecognizer(recognizerOptionsRef.current));
+  const lastCameraMoveRef = useRef<'forward' | 'backward' | null>(null);
+  const handFilterRef = useRef(createHandPositionFilter(handPositionSettings));
+  const manipulatorRef = useRef(createTwoHandManipulator());
+  
+  // Multi-person mode: stable hand ids, one controller, a recognizer per guest hand
+  const ownershipRef = useRef(createHandOwnership({ thresholds: poseThresholds }));
+  const guestRecognizersRef = useRef(new Map<number, GestureRecognizer>());
+  const controllerIdRef = useRef<number | null>(null);
+  const calibratingRef = useRef(false);
+  const calibrationSamplesRef = useRef<{ x: number; y: number }[]>([]);
   
-  // Debounce logic refs
-  const openFrames = useRef(0);
-  const closedFrames = useRef(0);
-  const thumbsUpFrames = useRef(0);
-  const thumbsDownFrames = useRef(0);
-  const pinchFrames = useRef(0);
-  const victoryFrames = useRef(0);
-  const lastSnowToggleTime = useRef(0);
-  const lastPhotoChangeTime = useRef(0);
-  const CONFIDENCE_THRESHOLD = 5; // Number of consecutive frames to confirm gesture
-  const PHOTO_CHANGE_COOLDOWN = 500; // ms cooldown between photo changes
+  // Session recording and replay
+  const recorderRef = useRef<LandmarkRecorder>(createLandmarkRecorder());
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replay, setReplay] = useState<LandmarkRecording | null>(null);
   
   // Refs to store stream and landmarker for cleanup
   const streamRef = useRef<MediaStream | null>(null);
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
+  const trackerRef = useRef<HandTracker | null>(null);
 
   useEffect(() => {
     let animationFrameId: number;
+    let cancelled = false;
+    ownershipRef.current.reset();
+    guestRecognizersRef.current.clear();
+    controllerIdRef.current = null;
+    diagnosticsRef.current.clear();
+    setDebugInfo(prev => ({ ...prev, controller: null, lastTrigger: null }));
     
     // Only setup camera and MediaPipe when debugMode is ON
     if (!debugMode) {
@@ -81,38 +125,32 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
       if (videoRef.current) {
         videoRef.current.srcObject = null;
       }
-      if (handLandmarkerRef.current) {
-        handLandmarkerRef.current.close();
-        handLandmarkerRef.current = null;
+      if (trackerRef.current) {
+        trackerRef.current.close();
+        trackerRef.current = null;
       }
       setIsLoaded(false);
-      setDebugInfo(prev => ({ ...prev, status: '⏸️ Debug tắt - Camera tắt' }));
+      setDebugInfo(prev => ({ ...prev, status: 'off' }));
       return;
     }
 
     const setupMediaPipe = async () => {
       try {
-        setDebugInfo(prev => ({ ...prev, status: '🔄 Đang tải WASM...' }));
-        
-        // Use jsDelivr CDN (accessible in China)
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm"
-        );
-
-        setDebugInfo(prev => ({ ...prev, status: '🔄 Đang tải Model...' }));
-
-        // Use local model file to avoid loading from Google Storage (blocked in China)
-        // Model file should be downloaded using: npm run download-model or download-model.bat/.sh
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `/models/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 2
+        setDebugInfo(prev => ({ ...prev, status: 'loadingModel' }));
+
+        // Inference runs in a Web Worker when supported, on the main thread otherwise
+        const tracker = await createHandTracker({
+          ...DEFAULT_LANDMARKER_OPTIONS,
+          numHands: multiPersonEnabled ? MULTI_PERSON_MAX_HANDS : DEFAULT_LANDMARKER_OPTIONS.numHands
         });
+        if (cancelled) {
+          tracker.close();
+          return;
+        }
+        trackerRef.current = tracker;
+        setDebugInfo(prev => ({ ...prev, worker: tracker.runsInWorker, assetSource: tracker.assetSource }));
 
-        setDebugInfo(prev => ({ ...prev, status: '✅ Model sẵn sàng' }));
+        setDebugInfo(prev => ({ ...prev, status: 'modelReady' }));
         startWebcam();
       } catch (error: any) {
         console.error("Error initializing MediaPipe:", error);
@@ -120,8 +158,8 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
         setGestureStatus("Gesture control unavailable");
         setDebugInfo(prev => ({ 
           ...prev, 
-          status: '❌ Lỗi', 
-          error: error?.message || 'Không thể tải MediaPipe'
+          status: 'error', 
+          error: { kind: 'loadFailed', detail: error?.message }
         }));
         // Don't block the app if gesture control fails
       }
@@ -130,7 +168,7 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
     const startWebcam = async () => {
       if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
         try {
-          setDebugInfo(prev => ({ ...prev, status: '🔄 Đang bật Camera...' }));
+          setDebugInfo(prev => ({ ...prev, status: 'startingCamera' }));
           
           const stream = await navigator.mediaDevices.getUserMedia({
             video: { width: 320, height: 240, facingMode: "user" }
@@ -143,394 +181,316 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
             videoRef.current.addEventListener("loadeddata", predictWebcam);
             setIsLoaded(true);
             setGestureStatus("Waiting for hand...");
-            setDebugInfo(prev => ({ ...prev, status: '✅ Sẵn sàng - Đang nhận diện...' }));
+            setDebugInfo(prev => ({ ...prev, status: 'detecting' }));
           }
         } catch (err: any) {
           console.error("Error accessing webcam:", err);
           setGestureStatus("Permission Denied");
           setDebugInfo(prev => ({ 
             ...prev, 
-            status: '❌ Lỗi Camera', 
-            error: err?.message || 'Không có quyền truy cập camera'
+            status: 'cameraError', 
+            error: { kind: 'cameraDenied', detail: err?.message }
           }));
         }
       }
     };
 
-    // Draw a single hand without clearing canvas
-    const drawSingleHandSkeleton = (landmarks: any[], ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
-      // Hand connections (MediaPipe hand model)
-      const connections = [
-        // Thumb
-        [0, 1], [1, 2], [2, 3], [3, 4],
-        // Index finger
-        [0, 5], [5, 6], [6, 7], [7, 8],
-        // Middle finger
-        [0, 9], [9, 10], [10, 11], [11, 12],
-        // Ring finger
-        [0, 13], [13, 14], [14, 15], [15, 16],
-        // Pinky
-        [0, 17], [17, 18], [18, 19], [19, 20],
-        // Palm
-        [5, 9], [9, 13], [13, 17]
-      ];
-
-      // Draw connections (lines)
-      ctx.lineWidth = 3;
-      ctx.strokeStyle = '#D4AF37'; // Gold color
-      connections.forEach(([start, end]) => {
-        const startPoint = landmarks[start];
-        const endPoint = landmarks[end];
-        
-        ctx.beginPath();
-        ctx.moveTo(startPoint.x * canvas.width, startPoint.y * canvas.height);
-        ctx.lineTo(endPoint.x * canvas.width, endPoint.y * canvas.height);
-        ctx.stroke();
-      });
+    const setMode = (mode: TreeMode) => {
+      if (lastModeRef.current === mode) return;
+      lastModeRef.current = mode;
+      onModeChange(mode);
+    };
 
-      // Draw landmarks (points)
-      landmarks.forEach((landmark, index) => {
-        const x = landmark.x * canvas.width;
-        const y = landmark.y * canvas.height;
-        
-        ctx.beginPath();
-        ctx.arc(x, y, 3, 0, 2 * Math.PI);
-        
-        // Use green for all points
-        ctx.fillStyle = '#228B22'; // Forest green color
-        ctx.fill();
-        
-        // Add outline
-        ctx.strokeStyle = '#FFFFFF';
-        ctx.lineWidth = 0.5;
-        ctx.stroke();
-      });
+    const runAction = (action: AppAction) => {
+      switch (action) {
+        case AppAction.MODE_CHAOS:
+          setMode(TreeMode.CHAOS);
+          break;
+        case AppAction.MODE_FORMED:
+          setMode(TreeMode.FORMED);
+          break;
+        case AppAction.TOGGLE_MODE:
+          setMode(lastModeRef.current === TreeMode.FORMED ? TreeMode.CHAOS : TreeMode.FORMED);
+          break;
+        case AppAction.PHOTO_PREV:
+          onPhotoChangeRef.current?.('prev');
+          break;
+        case AppAction.PHOTO_NEXT:
+          onPhotoChangeRef.current?.('next');
+          break;
+        case AppAction.SNOW_TOGGLE:
+          onSnowToggleRef.current?.();
+          break;
+        default:
+          onActionRef.current?.(action);
+      }
+    };
+
+    // Only notify on change so App doesn't re-render every frame
+    const updateCameraMove = (direction: 'forward' | 'backward' | null) => {
+      if (lastCameraMoveRef.current === direction) return;
+      lastCameraMoveRef.current = direction;
+      onCameraMoveRef.current?.(direction);
     };
 
     // Draw all detected hands
-    const drawAllHands = (allLandmarks: any[][]) => {
+    const drawHands = (allLandmarks: Landmark[][], colors?: string[]) => {
       if (!canvasRef.current || !videoRef.current) return;
-      
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
+      // Match video size (no video stream while replaying)
+      drawAllHands(canvasRef.current, allLandmarks, videoRef.current.videoWidth || 320, videoRef.current.videoHeight || 240, colors);
+    };
 
-      // Set canvas size to match video
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
+    // Guest hands get their own recognizer; in the 'photos' role they may only browse photos
+    const handleGuests = (frame: HandFrame, ownership: OwnershipResult) => {
+      const recognizers = guestRecognizersRef.current;
+      const guests = ownership.hands.filter(hand => !hand.isController);
+      recognizers.forEach((_, id) => {
+        if (!guests.some(guest => guest.id === id)) recognizers.delete(id);
+      });
+      if (multiPersonRef.current.guestRole !== 'photos' || suspendActionsRef.current) return;
 
-      // Clear canvas once
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      guests.forEach(({ id, index }) => {
+        if (!recognizers.has(id)) recognizers.set(id, createGestureRecognizer(recognizerOptionsRef.current));
+        const result = recognizers.get(id)!.process(selectHands(frame, [index]));
+        result.events.forEach(event => {
+          const binding = bindingsRef.current[event.type];
+          if (bindingMatchesHand(binding, event.hand) && GUEST_ACTIONS.includes(binding.action)) {
+            runAction(binding.action);
+          }
+        });
+      });
+    };
+
+    // Every processed frame goes into the diagnostics log
+    const recordDiagnostics = (frame: HandFrame, result: GestureFrameResult, inferenceMs?: number) => {
+      const counters: GestureDebugInfo['counters'] = {};
+      Object.entries(result.counters).forEach(([type, count]) => {
+        if (count > 0) counters[type as keyof typeof counters] = count;
+      });
 
-      // Draw each hand
-      allLandmarks.forEach(landmarks => {
-        drawSingleHandSkeleton(landmarks, ctx, canvas);
+      diagnosticsRef.current.record({
+        timestamp: frame.timestamp,
+        handsCount: result.handsCount,
+        hands: result.hands.map(hand => hand.side),
+        pose: result.pose,
+        twoHandGrab: !!result.twoHandPinch,
+        events: result.events.map(event => {
+          const binding = bindingsRef.current[event.type];
+          return { type: event.type, hand: event.hand, action: bindingMatchesHand(binding, event.hand) ? binding.action : AppAction.NONE };
+        }),
+        counters,
+        inferenceMs,
       });
+
+      setDebugInfo(prev => ({
+        ...prev,
+        hands: result.hands.map(hand => hand.side),
+        extendedFingers: result.extendedFingers,
+        pose: result.pose,
+        twoHandGrab: !!result.twoHandPinch,
+        counters,
+      }));
     };
 
-    const predictWebcam = () => {
-      if (!handLandmarkerRef.current || !videoRef.current) return;
+    // Shared by live detection and replay so both drive the callbacks identically
+    const handleFrame = (frame: HandFrame, inferenceMs?: number) => {
+      recorderRef.current.capture(frame);
 
-      const startTimeMs = performance.now();
-      if (videoRef.current.videoWidth > 0) { // Ensure video is ready
-        const result = handLandmarkerRef.current.detectForVideo(videoRef.current, startTimeMs);
+      // In multi-person mode only the controller's hand drives the app
+      let controlFrame = frame;
+      let handColors: string[] | undefined;
+      if (multiPersonRef.current.enabled) {
+        const ownership = ownershipRef.current.process(frame);
+        controlFrame = selectHands(frame, ownership.controllerIndex >= 0 ? [ownership.controllerIndex] : []);
+        const controllerColor = documentPrimaryColor();
+        handColors = ownership.hands.map(hand => (hand.isController ? controllerColor : GUEST_COLOR));
+        handleGuests(frame, ownership);
 
-        if (result.landmarks && result.landmarks.length > 0) {
-          // Check if two hands are detected
-          const twoHandsDetected = result.landmarks.length >= 2;
-          
-          // Update debug info - hands count
-          setDebugInfo(prev => ({ ...prev, handsCount: result.landmarks.length }));
-          
-          if (onTwoHandsDetectedRef.current) {
-            onTwoHandsDetectedRef.current(twoHandsDetected);
+        // A new controller starts from a clean slate
+        if (ownership.controllerId !== controllerIdRef.current) {
+          controllerIdRef.current = ownership.controllerId;
+          recognizerRef.current.reset();
+          handFilterRef.current.reset();
+          manipulatorRef.current.reset();
+        }
+        setDebugInfo(prev => ({
+          ...prev,
+          controller: {
+            id: ownership.controllerId,
+            absent: ownership.controllerId !== null && ownership.controllerIndex < 0,
+            claimProgress: Math.max(0, ...ownership.hands.map(hand => hand.claimProgress))
           }
+        }));
+      }
 
-          // Draw all detected hands at once
-          drawAllHands(result.landmarks);
-          
-          // Detect gestures from all hands
-          detectGesture(result.landmarks, result.handednesses);
-        } else {
-            setDebugInfo(prev => ({ 
-              ...prev, 
-              handsCount: 0, 
-              extendedFingers: 0, 
-              gesture: 'Không có',
-              confidence: { open: 0, closed: 0 }
-            }));
-            setGestureStatus("No hand detected");
-            setHandPos(null); // Clear hand position when no hand detected
-            if (onHandPositionRef.current) {
-              onHandPositionRef.current(0.5, 0.5, false); // No hand detected
-            }
-            if (onTwoHandsDetectedRef.current) {
-              onTwoHandsDetectedRef.current(false);
-            }
-            // Clear canvas when no hand detected
-            if (canvasRef.current) {
-              const ctx = canvasRef.current.getContext('2d');
-              if (ctx) {
-                ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-              }
-            }
-            // Reset counters if hand is lost? 
-            // Better to keep them to prevent flickering if hand blips out for 1 frame
-            openFrames.current = Math.max(0, openFrames.current - 1);
-            closedFrames.current = Math.max(0, closedFrames.current - 1);
+      // Draw all detected hands at once
+      if (frame.landmarks.length > 0) {
+        drawHands(frame.landmarks, handColors);
+      } else if (canvasRef.current) {
+        // Clear canvas when no hand detected
+        const ctx = canvasRef.current.getContext('2d');
+        if (ctx) {
+          ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
         }
       }
 
-      animationFrameId = requestAnimationFrame(predictWebcam);
-    };
+      if (controlFrame.landmarks.length > 0) {
+        // Update debug info - hands count
+        setDebugInfo(prev => ({ ...prev, handsCount: frame.landmarks.length }));
+        
+        // Detect gestures from all hands
+        const result = detectGesture(controlFrame);
+        publishHandFrame(controlFrame, result);
+        recordDiagnostics(controlFrame, result, inferenceMs);
 
-    const detectGesture = (allLandmarks: any[][], handednesses?: any[][]) => {
-      // Use first hand for main gesture detection
-      const landmarks = allLandmarks[0];
-      
-      // 0 is Wrist
-      // Tips: 4 (Thumb), 8 (Index), 12 (Middle), 16 (Ring), 20 (Pinky)
-      // Bases (MCP): 1 (Thumb), 5, 9, 13, 17
-      
-      const wrist = landmarks[0];
-      const thumbTip = landmarks[4];
-      const thumbBase = landmarks[2];
-      const indexTip = landmarks[8];
-      const indexBase = landmarks[5];
-      const middleTip = landmarks[12];
-      const middleBase = landmarks[9];
-      const ringTip = landmarks[16];
-      const ringBase = landmarks[13];
-      const pinkyTip = landmarks[20];
-      const pinkyBase = landmarks[17];
-      
-      // Calculate palm center
-      const palmCenterX = (landmarks[0].x + landmarks[5].x + landmarks[9].x + landmarks[13].x + landmarks[17].x) / 5;
-      const palmCenterY = (landmarks[0].y + landmarks[5].y + landmarks[9].y + landmarks[13].y + landmarks[17].y) / 5;
-      
-      // Send hand position for camera control
-      setHandPos({ x: palmCenterX, y: palmCenterY });
-      if (onHandPositionRef.current) {
-        onHandPositionRef.current(palmCenterX, palmCenterY, true);
-      }
-      
-      // === Check each finger extension ===
-      const fingerTips = [indexTip, middleTip, ringTip, pinkyTip];
-      const fingerBases = [indexBase, middleBase, ringBase, pinkyBase];
-      
-      let extendedFingers = 0;
-      const fingerStates = [false, false, false, false]; // index, middle, ring, pinky
-
-      for (let i = 0; i < 4; i++) {
-        const tip = fingerTips[i];
-        const base = fingerBases[i];
-        const distTip = Math.hypot(tip.x - wrist.x, tip.y - wrist.y);
-        const distBase = Math.hypot(base.x - wrist.x, base.y - wrist.y);
-        
-        if (distTip > distBase * 1.5) {
-          extendedFingers++;
-          fingerStates[i] = true;
-        }
-      }
-      
-      // Thumb check
-      const distThumbTip = Math.hypot(thumbTip.x - wrist.x, thumbTip.y - wrist.y);
-      const distThumbBase = Math.hypot(thumbBase.x - wrist.x, thumbBase.y - wrist.y);
-      const thumbExtended = distThumbTip > distThumbBase * 1.2;
-      if (thumbExtended) extendedFingers++;
-      
-      // === Detect PINCH from ALL hands ===
-      // Check each hand for pinch and determine which hand is pinching
-      let leftHandPinch = false;
-      let rightHandPinch = false;
-      
-      for (let i = 0; i < allLandmarks.length; i++) {
-        const hand = allLandmarks[i];
-        const handThumbTip = hand[4];
-        const handIndexTip = hand[8];
-        const handPalmX = (hand[0].x + hand[5].x + hand[9].x + hand[13].x + hand[17].x) / 5;
-        
-        const pinchDist = Math.hypot(handThumbTip.x - handIndexTip.x, handThumbTip.y - handIndexTip.y);
-        const isHandPinching = pinchDist < 0.05;
-        
-        if (isHandPinching) {
-          // Camera is mirrored:
-          // Hand on LEFT side of screen (X < 0.5) = User's RIGHT hand
-          // Hand on RIGHT side of screen (X > 0.5) = User's LEFT hand
-          if (handPalmX > 0.5) {
-            leftHandPinch = true; // User's left hand (right side of mirrored image)
-          } else {
-            rightHandPinch = true; // User's right hand (left side of mirrored image)
-          }
+        // Two open hands show the closest photo; two pinching hands are the zoom/rotate grab instead
+        if (onTwoHandsDetectedRef.current) {
+          onTwoHandsDetectedRef.current(controlFrame.landmarks.length >= 2 && !result.twoHandPinch);
         }
-      }
-      
-      const isPinching = leftHandPinch || rightHandPinch;
-      
-      // === Detect THUMBS UP/DOWN ===
-      const thumbPointingUp = thumbTip.y < thumbBase.y - 0.05;
-      const thumbPointingDown = thumbTip.y > thumbBase.y + 0.05;
-      const otherFingersClosed = !fingerStates[0] && !fingerStates[1] && !fingerStates[2] && !fingerStates[3];
-      
-      const isThumbsUp = thumbExtended && thumbPointingUp && otherFingersClosed;
-      const isThumbsDown = thumbExtended && thumbPointingDown && otherFingersClosed;
-      
-      // === Detect VICTORY ✌️ (index + middle extended, others closed) ===
-      const isVictory = fingerStates[0] && fingerStates[1] && !fingerStates[2] && !fingerStates[3] && !thumbExtended;
-      
-      // === DECISION LOGIC ===
-      let detectedGesture = 'Không có';
-      
-      // Priority: Pinch > Thumbs > Wave > Open/Closed
-      if (isPinching) {
-        pinchFrames.current++;
-        thumbsUpFrames.current = 0;
-        thumbsDownFrames.current = 0;
-        victoryFrames.current = 0;
-        openFrames.current = 0;
-        closedFrames.current = 0;
-        
-        const now = Date.now();
-        
-        if (pinchFrames.current > CONFIDENCE_THRESHOLD && onPhotoChangeRef.current) {
-          if (now - lastPhotoChangeTime.current > PHOTO_CHANGE_COOLDOWN) {
-            if (leftHandPinch) {
-              // Left hand pinch -> Previous photo (swipe left)
-              detectedGesture = '🤏 TAY TRÁI ◀️ Ảnh trước';
-              console.log('[GESTURE] Calling onPhotoChange: prev');
-              onPhotoChangeRef.current('prev');
-              lastPhotoChangeTime.current = now;
-            } else if (rightHandPinch) {
-              // Right hand pinch -> Next photo (swipe right)
-              detectedGesture = '🤏 TAY PHẢI ▶️ Ảnh sau';
-              console.log('[GESTURE] Calling onPhotoChange: next');
-              onPhotoChangeRef.current('next');
-              lastPhotoChangeTime.current = now;
-            }
-          } else {
-            detectedGesture = leftHandPinch ? '🤏 TAY TRÁI (Đợi...)' : '🤏 TAY PHẢI (Đợi...)';
+      } else {
+          setDebugInfo(prev => ({ ...prev, handsCount: frame.landmarks.length }));
+          setGestureStatus("No hand detected");
+          setHandPos(null); // Clear hand position when no hand detected
+          if (onHandPositionRef.current) {
+            onHandPositionRef.current(0.5, 0.5, false); // No hand detected
           }
-        } else {
-          detectedGesture = leftHandPinch ? '🤏 TAY TRÁI' : '🤏 TAY PHẢI';
-        }
-        
-      } else if (isThumbsUp) {
-        thumbsUpFrames.current++;
-        thumbsDownFrames.current = 0;
-        pinchFrames.current = 0;
-        victoryFrames.current = 0;
-        openFrames.current = 0;
-        closedFrames.current = 0;
-        
-        detectedGesture = '👍 THUMBS UP (Tới)';
-        
-        if (thumbsUpFrames.current > CONFIDENCE_THRESHOLD && onCameraMoveRef.current) {
-          onCameraMoveRef.current('forward');
-        }
-        
-      } else if (isThumbsDown) {
-        thumbsDownFrames.current++;
-        thumbsUpFrames.current = 0;
-        pinchFrames.current = 0;
-        victoryFrames.current = 0;
-        openFrames.current = 0;
-        closedFrames.current = 0;
-        
-        detectedGesture = '👎 THUMBS DOWN (Lùi)';
-        
-        if (thumbsDownFrames.current > CONFIDENCE_THRESHOLD && onCameraMoveRef.current) {
-          onCameraMoveRef.current('backward');
-        }
-        
-      } else if (isVictory) {
-        victoryFrames.current++;
-        thumbsUpFrames.current = 0;
-        thumbsDownFrames.current = 0;
-        pinchFrames.current = 0;
-        openFrames.current = 0;
-        closedFrames.current = 0;
-        
-        detectedGesture = '✌️ VICTORY (Tuyết)';
-        
-        // Toggle snow effect (with cooldown)
-        const now = Date.now();
-        if (victoryFrames.current > CONFIDENCE_THRESHOLD && now - lastSnowToggleTime.current > 2000 && onSnowToggleRef.current) {
-          onSnowToggleRef.current();
-          lastSnowToggleTime.current = now;
-          victoryFrames.current = 0;
-        }
-        
-      } else if (extendedFingers >= 4) {
-        openFrames.current++;
-        closedFrames.current = 0;
-        thumbsUpFrames.current = 0;
-        thumbsDownFrames.current = 0;
-        pinchFrames.current = 0;
-        victoryFrames.current = 0;
-        
-        detectedGesture = '✋ XÒE TAY';
-        
-        if (openFrames.current > CONFIDENCE_THRESHOLD) {
-          if (lastModeRef.current !== TreeMode.CHAOS) {
-            lastModeRef.current = TreeMode.CHAOS;
-            onModeChange(TreeMode.CHAOS);
+          if (onTwoHandsDetectedRef.current) {
+            onTwoHandsDetectedRef.current(false);
           }
+          // Counters decay rather than reset, so a one-frame dropout doesn't break a held gesture
+          const result = recognizerRef.current.process(controlFrame);
+          publishHandFrame(controlFrame, result);
+          recordDiagnostics(controlFrame, result, inferenceMs);
+          handFilterRef.current.reset();
+          manipulatorRef.current.reset();
+          updateCameraMove(null);
+      }
+    };
+
+    // Detection rate adapts to render load; only one frame is in flight at a time
+    const scheduler = createAdaptiveScheduler();
+    let detecting = false;
+
+    const predictWebcam = () => {
+      const tracker = trackerRef.current;
+      const video = videoRef.current;
+      if (!tracker || !video || cancelled) return;
+
+      const now = performance.now();
+      scheduler.recordFrame(now);
+
+      if (!detecting && video.videoWidth > 0 && scheduler.shouldDetect(now)) { // Ensure video is ready
+        detecting = true;
+        scheduler.markDetect(now);
+        tracker.detect(video, now)
+          .then(frame => {
+            if (cancelled) return;
+            handleFrame(frame, frame.inferenceMs);
+          })
+          .catch(error => console.warn('Hand detection failed:', error))
+          .finally(() => {
+            detecting = false;
+          });
+      }
+
+      animationFrameId = requestAnimationFrame(predictWebcam);
+    };
+
+    // Everything that keeps per-frame state keyed on timestamps, which start over with each replay loop
+    const resetSession = () => {
+      recognizerRef.current.reset();
+      handFilterRef.current.reset();
+      manipulatorRef.current.reset();
+      ownershipRef.current.reset();
+      guestRecognizersRef.current.clear();
+      controllerIdRef.current = null;
+    };
+
+    // Feed recorded frames at their original pace; the recognizer sees the recorded
+    // timestamps, so cooldowns and events match the live session regardless of FPS
+    const startReplay = (recording: LandmarkRecording) => {
+      let startedAt = performance.now();
+      let cursor = 0;
+      resetSession();
+      setIsLoaded(false);
+      setDebugInfo(prev => ({ ...prev, status: 'replaying', replayFrames: recording.frames.length, error: null }));
+
+      const step = () => {
+        const elapsed = performance.now() - startedAt;
+        while (cursor < recording.frames.length && recording.frames[cursor].timestamp <= elapsed) {
+          handleFrame(recording.frames[cursor]);
+          cursor++;
         }
-        
-        // Clear camera actions
-        if (onCameraMoveRef.current) onCameraMoveRef.current(null);
-        
-      } else if (extendedFingers <= 1 && !thumbExtended) {
-        closedFrames.current++;
-        openFrames.current = 0;
-        thumbsUpFrames.current = 0;
-        thumbsDownFrames.current = 0;
-        pinchFrames.current = 0;
-        victoryFrames.current = 0;
-        
-        detectedGesture = '✊ NẮM TAY';
-        
-        if (closedFrames.current > CONFIDENCE_THRESHOLD) {
-          if (lastModeRef.current !== TreeMode.FORMED) {
-            lastModeRef.current = TreeMode.FORMED;
-            onModeChange(TreeMode.FORMED);
-          }
+
+        // Loop so a recording can run unattended as a demo
+        if (cursor >= recording.frames.length) {
+          cursor = 0;
+          startedAt = performance.now();
+          resetSession();
         }
-        
-        // Clear camera actions
-        if (onCameraMoveRef.current) onCameraMoveRef.current(null);
-        
-      } else {
-        detectedGesture = '🤔 Không rõ';
-        openFrames.current = 0;
-        closedFrames.current = 0;
-        thumbsUpFrames.current = 0;
-        thumbsDownFrames.current = 0;
-        pinchFrames.current = 0;
-        victoryFrames.current = 0;
-        
-        // Clear camera actions
-        if (onCameraMoveRef.current) onCameraMoveRef.current(null);
+
+        animationFrameId = requestAnimationFrame(step);
+      };
+
+      animationFrameId = requestAnimationFrame(step);
+    };
+
+    const detectGesture = (frame: HandFrame): GestureFrameResult => {
+      const result = recognizerRef.current.process(frame);
+      const palm = result.palm!;
+
+      if (calibratingRef.current) {
+        calibrationSamplesRef.current.push(palm);
       }
-      
-      // Update debug info
-      setGestureStatus(`Detected: ${detectedGesture}`);
-      setDebugInfo(prev => ({
-        ...prev,
-        extendedFingers,
-        gesture: detectedGesture,
-        confidence: { 
-          open: openFrames.current, 
-          closed: closedFrames.current 
-        },
-        mode: openFrames.current > CONFIDENCE_THRESHOLD ? 'HỖN LOẠN' : 
-              closedFrames.current > CONFIDENCE_THRESHOLD ? 'HOÀN CHỈNH' : prev.mode
-      }));
+
+      // Two-hand grab: zoom and rotate instead of steering the orbit with the palm
+      const manipulation = manipulatorRef.current.update(suspendActionsRef.current ? null : result.twoHandPinch);
+      if (manipulation) {
+        publishManipulation(manipulation);
+      }
+
+      // Send smoothed, calibrated hand position for camera control
+      setHandPos(palm);
+      if (onHandPositionRef.current) {
+        const filtered = handFilterRef.current.apply(palm.x, palm.y, frame.timestamp);
+        onHandPositionRef.current(filtered.x, filtered.y, !manipulation);
+      }
+
+      // Both hands can fire the same gesture in one frame; run each action once
+      const firedActions = new Set<AppAction>();
+      result.events.forEach(event => {
+        if (suspendActionsRef.current) return;
+        const binding = bindingsRef.current[event.type];
+        const { action } = binding;
+        if (!bindingMatchesHand(binding, event.hand)) return;
+        if (action === AppAction.NONE || ACTION_INFO[action].continuous || firedActions.has(action)) return;
+        firedActions.add(action);
+        setDebugInfo(prev => ({ ...prev, lastTrigger: { gesture: event.type, action } }));
+        setGestureStatus(`Triggered: ${event.type} -> ${action}`);
+        runAction(action);
+      });
+
+      // Continuous actions (camera moves) stay on for as long as their gesture is held by a bound hand
+      const activeBinding = result.active
+        .map(({ type, hand }) => ({ binding: bindingsRef.current[type], hand }))
+        .find(({ binding, hand }) => bindingMatchesHand(binding, hand) && ACTION_INFO[binding.action].continuous);
+      const activeAction = activeBinding && !suspendActionsRef.current ? activeBinding.binding.action : AppAction.NONE;
+      const cameraMove = activeAction === AppAction.CAMERA_FORWARD ? 'forward'
+        : activeAction === AppAction.CAMERA_BACKWARD ? 'backward'
+        : null;
+      updateCameraMove(cameraMove);
+
+      return result;
     };
 
-    setupMediaPipe();
+    if (replay) {
+      startReplay(replay);
+    } else {
+      setupMediaPipe();
+    }
 
     return () => {
+      cancelled = true;
       cancelAnimationFrame(animationFrameId);
       // Cleanup camera stream
       if (streamRef.current) {
@@ -538,12 +498,87 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
         streamRef.current = null;
       }
       // Cleanup hand landmarker
-      if (handLandmarkerRef.current) {
-        handLandmarkerRef.current.close();
-        handLandmarkerRef.current = null;
+      if (trackerRef.current) {
+        trackerRef.current.close();
+        trackerRef.current = null;
       }
     };
-  }, [onModeChange, debugMode]);
+  }, [onModeChange, debugMode, replay, multiPersonEnabled]);
+
+  const toggleRecording = () => {
+    if (recorderRef.current.isRecording()) {
+      const recording = recorderRef.current.stop();
+      setIsRecording(false);
+      if (recording.frames.length > 0) {
+        downloadRecording(recording);
+      }
+    } else {
+      recorderRef.current.start();
+      setIsRecording(true);
+    }
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setReplay(parseRecording(await file.text()));
+    } catch (error: any) {
+      console.error('Error loading recording:', error);
+      setDebugInfo(prev => ({ ...prev, status: 'error', error: { kind: 'replayFailed', detail: error?.message } }));
+    }
+  };
+
+  const changeLocale = (next: DiagnosticsLocale) => {
+    setLocale(next);
+    saveDiagnosticsLocale(next);
+  };
+
+  // Last N seconds of frames plus enough context to reproduce, for bug reports
+  const exportDiagnostics = () => {
+    downloadDiagnostics(diagnosticsRef.current.exportJson({
+      status: debugInfo.status,
+      worker: debugInfo.worker,
+      assetSource: debugInfo.assetSource,
+      replaying: !!replay,
+      mode: currentMode,
+      multiPerson,
+      bindings,
+      poseThresholds: poseThresholds ?? null,
+      motionThresholds: motionThresholds ?? null,
+      handPositionSettings
+    }));
+  };
+
+  // Rebuild the hand filter when smoothing, dead zone or range change
+  useEffect(() => {
+    handFilterRef.current = createHandPositionFilter(handPositionSettings);
+  }, [handPositionSettings]);
+
+  // Collect samples while calibrating, report the range when calibration ends
+  useEffect(() => {
+    if (calibrating) {
+      calibrationSamplesRef.current = [];
+    } else if (calibratingRef.current) {
+      onCalibrated?.(computeHandRange(calibrationSamplesRef.current));
+    }
+    calibratingRef.current = calibrating;
+  }, [calibrating]);
+
+  // Rebuild the recognizer when hold times, cooldowns or pose/motion thresholds change
+  useEffect(() => {
+    bindingsRef.current = bindings;
+    recognizerOptionsRef.current = { timing: bindingsToTiming(bindings), thresholds: poseThresholds, motion: motionThresholds };
+    recognizerRef.current = createGestureRecognizer(recognizerOptionsRef.current);
+    guestRecognizersRef.current.clear();
+  }, [bindings, poseThresholds, motionThresholds]);
+
+  // The claim gesture is an open palm, so it follows the per-user pose thresholds
+  useEffect(() => {
+    ownershipRef.current = createHandOwnership({ thresholds: poseThresholds });
+  }, [poseThresholds]);
 
   // Sync ref with prop updates to prevent overriding in closure
   useEffect(() => {
@@ -553,11 +588,11 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
   return (
     <div className={`absolute top-6 right-[8%] z-50 flex flex-col items-end pointer-events-none ${!debugMode ? 'opacity-0 pointer-events-none w-0 h-0 overflow-hidden' : ''}`}>
       {/* Camera Preview Frame - Always rendered for gesture detection, hidden when debugMode is OFF */}
-      <div className={`relative border-2 border-[#D4AF37] rounded-lg overflow-hidden shadow-[0_0_20px_rgba(212,175,55,0.3)] bg-black ${
+      <div className={`relative border-2 border-primary rounded-lg overflow-hidden shadow-[0_0_20px_rgb(var(--color-primary,212_175_55)/0.3)] bg-black ${
         debugMode ? 'w-[18.75vw] h-[14.0625vw]' : 'w-1 h-1 absolute -top-[9999px]'
       }`}>
         {debugMode && (
-          <div className="absolute inset-0 border border-[#F5E6BF]/20 m-1 rounded-sm z-10"></div>
+          <div className="absolute inset-0 border border-highlight/20 m-1 rounded-sm z-10"></div>
         )}
         
         <video
@@ -577,7 +612,7 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
         {/* Hand Position Indicator */}
         {debugMode && handPos && (
           <div 
-            className="absolute w-2 h-2 bg-[#D4AF37] rounded-full border border-white"
+            className="absolute w-2 h-2 bg-primary rounded-full border border-white"
             style={{
               left: `${(1 - handPos.x) * 100}%`,
               top: `${handPos.y * 100}%`,
@@ -591,98 +626,56 @@ export const GestureController: React.FC<GestureControllerProps> = ({ onModeChan
       {debugMode && (
         <button
           onClick={() => setShowDebug(!showDebug)}
-          className="mt-2 px-3 py-1.5 bg-black/70 border border-[#D4AF37]/50 rounded-lg text-[10px] font-mono text-[#D4AF37] hover:bg-[#D4AF37]/20 transition-colors pointer-events-auto"
+          className="mt-2 px-3 py-1.5 bg-black/70 border border-primary/50 rounded-lg text-[10px] font-mono text-primary hover:bg-primary/20 transition-colors pointer-events-auto"
         >
-          {showDebug ? '🔽 Ẩn Debug' : '🔼 Hiện Debug'}
+          {showDebug ? `🔽 ${t.hideDebug}` : `🔼 ${t.showDebug}`}
         </button>
       )}
 
-      {/* Debug Info Panel */}
-      {debugMode && showDebug && (
-        <div className="mt-2 bg-black/80 backdrop-blur-md border border-[#D4AF37]/50 rounded-lg p-3 text-xs font-mono min-w-[200px]">
-          <div className="text-[#D4AF37] font-bold mb-2 text-center border-b border-[#D4AF37]/30 pb-1">
-            🎄 Theo Dõi Cử Chỉ
-          </div>
-          
-          {/* Status */}
-          <div className="flex justify-between items-center mb-1">
-            <span className="text-[#F5E6BF]/70">Trạng thái:</span>
-            <span className={`font-bold text-[10px] ${
-              debugInfo.status.includes('✅') ? 'text-green-400' : 
-              debugInfo.status.includes('❌') ? 'text-red-400' : 
-              'text-yellow-400'
-            }`}>
-              {debugInfo.status}
-            </span>
-          </div>
-          
-          {/* Error (if any) */}
-          {debugInfo.error && (
-            <div className="mb-2 p-1 bg-red-500/20 rounded text-[9px] text-red-300 break-words">
-              {debugInfo.error}
-            </div>
-          )}
-          
-          {/* Hands Count */}
-          <div className="flex justify-between items-center mb-1">
-            <span className="text-[#F5E6BF]/70">Số tay:</span>
-            <span className={`font-bold ${debugInfo.handsCount >= 2 ? 'text-green-400' : debugInfo.handsCount === 1 ? 'text-yellow-400' : 'text-red-400'}`}>
-              {debugInfo.handsCount === 0 ? '❌ 0' : debugInfo.handsCount === 1 ? '☝️ 1' : '🙌 2'}
-            </span>
-          </div>
-          
-          {/* Extended Fingers */}
-          <div className="flex justify-between items-center mb-1">
-            <span className="text-[#F5E6BF]/70">Ngón duỗi:</span>
-            <span className="text-[#D4AF37] font-bold">
-              {debugInfo.extendedFingers}/5
-            </span>
-          </div>
-          
-          {/* Detected Gesture */}
-          <div className="flex justify-between items-center mb-1">
-            <span className="text-[#F5E6BF]/70">Cử chỉ:</span>
-            <span className={`font-bold ${
-              debugInfo.gesture.includes('XÒE') ? 'text-orange-400' : 
-              debugInfo.gesture.includes('NẮM') ? 'text-cyan-400' : 
-              'text-gray-400'
-            }`}>
-              {debugInfo.gesture}
-            </span>
-          </div>
-          
-          {/* Confidence */}
-          <div className="flex justify-between items-center mb-1">
-            <span className="text-[#F5E6BF]/70">Độ tin cậy:</span>
-            <div className="flex gap-2 text-[10px]">
-              <span className="text-orange-400">Xòe:{debugInfo.confidence.open}</span>
-              <span className="text-cyan-400">Nắm:{debugInfo.confidence.closed}</span>
-            </div>
-          </div>
-          
-          {/* Current Mode */}
-          <div className="flex justify-between items-center mt-2 pt-2 border-t border-[#D4AF37]/30">
-            <span className="text-[#F5E6BF]/70">Chế độ:</span>
-            <span className={`font-bold px-2 py-0.5 rounded ${
-              debugInfo.mode === 'HỖN LOẠN' 
-                ? 'bg-orange-500/20 text-orange-400' 
-                : 'bg-green-500/20 text-green-400'
-            }`}>
-              {debugInfo.mode === 'HỖN LOẠN' ? '💥 HỖN LOẠN' : '🎄 HOÀN CHỈNH'}
-            </span>
-          </div>
-          
-          {/* Hand Position */}
-          {handPos && (
-            <div className="flex justify-between items-center mt-1 text-[10px]">
-              <span className="text-[#F5E6BF]/50">Vị trí:</span>
-              <span className="text-[#D4AF37]/70">
-                X:{handPos.x.toFixed(2)} Y:{handPos.y.toFixed(2)}
-              </span>
-            </div>
+      {/* Record / Replay Controls */}
+      {debugMode && (
+        <div className="mt-2 flex gap-2 pointer-events-auto">
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept="application/json"
+            onChange={handleReplayFile}
+            className="hidden"
+          />
+          {!replay && (
+            <button
+              onClick={toggleRecording}
+              className={`px-3 py-1.5 bg-black/70 border rounded-lg text-[10px] font-mono transition-colors ${
+                isRecording ? 'border-red-500 text-red-400 animate-pulse' : 'border-primary/50 text-primary hover:bg-primary/20'
+              }`}
+            >
+              {isRecording ? `⏹ ${t.stopRecording}` : `⏺ ${t.record}`}
+            </button>
           )}
+          <button
+            onClick={() => replay ? setReplay(null) : replayInputRef.current?.click()}
+            disabled={isRecording}
+            className="px-3 py-1.5 bg-black/70 border border-primary/50 rounded-lg text-[10px] font-mono text-primary hover:bg-primary/20 transition-colors disabled:opacity-40"
+          >
+            {replay ? `⏹ ${t.stopReplay}` : `📂 ${t.replay}`}
+          </button>
         </div>
       )}
+
+      {/* Debug Info Panel */}
+      {debugMode && showDebug && (
+        <GestureDiagnosticsPanel
+          info={debugInfo}
+          log={diagnosticsRef.current}
+          bindings={bindings}
+          currentMode={currentMode}
+          handPos={handPos}
+          replaying={!!replay}
+          locale={locale}
+          onLocaleChange={changeLocale}
+          onDownload={exportDiagnostics}
+        />
+      )}
     </div>
   );
 };
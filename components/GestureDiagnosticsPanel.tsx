@@ -0,0 +1,282 @@
+import React from 'react';
+import { AppAction, GestureType, TreeMode } from '../types';
+import { HandSide } from '../lib/gestureRecognizer';
+import { GESTURE_ICONS, GestureBindings } from '../lib/gestureBindings';
+import { isMotionGesture } from '../lib/motionGestures';
+import { DiagnosticsLog, TrackingStatus } from '../lib/diagnostics';
+import { DIAGNOSTICS_STRINGS, DiagnosticsLocale, TrackingError } from '../lib/diagnosticsStrings';
+
+export interface GestureDebugInfo {
+  status: TrackingStatus;
+  replayFrames: number;
+  error: { kind: TrackingError; detail?: string } | null;
+  worker: boolean;
+  assetSource: string; // Which MediaPipe asset source loaded, '' until then
+  handsCount: number;
+  hands: HandSide[];
+  extendedFingers: number;
+  pose: GestureType | null;
+  twoHandGrab: boolean;
+  lastTrigger: { gesture: GestureType; action: AppAction } | null;
+  counters: Partial<Record<GestureType, number>>;
+  controller: { id: number | null; absent: boolean; claimProgress: number } | null; // Multi-person mode only
+}
+
+export const INITIAL_DEBUG_INFO: GestureDebugInfo = {
+  status: 'initializing',
+  replayFrames: 0,
+  error: null,
+  worker: false,
+  assetSource: '',
+  handsCount: 0,
+  hands: [],
+  extendedFingers: 0,
+  pose: null,
+  twoHandGrab: false,
+  lastTrigger: null,
+  counters: {},
+  controller: null,
+};
+
+interface GestureDiagnosticsPanelProps {
+  info: GestureDebugInfo;
+  log: DiagnosticsLog;
+  bindings: GestureBindings;
+  currentMode: TreeMode;
+  handPos: { x: number; y: number } | null;
+  replaying: boolean;
+  locale: DiagnosticsLocale;
+  onLocaleChange: (locale: DiagnosticsLocale) => void;
+  onDownload: () => void;
+}
+
+const TIMELINE_FRAMES = 60;
+const STATIC_GESTURES = (Object.values(GestureType) as GestureType[]).filter(type => !isMotionGesture(type));
+
+// One color per gesture on the timeline
+const GESTURE_COLORS: Record<GestureType, string> = {
+  [GestureType.OPEN_PALM]: '#fb923c',
+  [GestureType.FIST]: '#22d3ee',
+  [GestureType.PINCH_LEFT]: '#a78bfa',
+  [GestureType.PINCH_RIGHT]: '#c084fc',
+  [GestureType.THUMBS_UP]: '#4ade80',
+  [GestureType.THUMBS_DOWN]: '#f87171',
+  [GestureType.VICTORY]: '#f5f5f5',
+  [GestureType.SWIPE_LEFT]: '#facc15',
+  [GestureType.SWIPE_RIGHT]: '#facc15',
+  [GestureType.STIR]: '#facc15',
+  [GestureType.FLICK_UP]: '#facc15',
+};
+
+const STATUS_COLORS: Record<TrackingStatus, string> = {
+  initializing: 'text-yellow-400',
+  off: 'text-yellow-400',
+  loadingModel: 'text-yellow-400',
+  modelReady: 'text-green-400',
+  startingCamera: 'text-yellow-400',
+  detecting: 'text-green-400',
+  replaying: 'text-yellow-400',
+  error: 'text-red-400',
+  cameraError: 'text-red-400',
+};
+
+const STATUS_ICONS: Record<TrackingStatus, string> = {
+  initializing: '🔄',
+  off: '⏸️',
+  loadingModel: '🔄',
+  modelReady: '✅',
+  startingCamera: '🔄',
+  detecting: '✅',
+  replaying: '▶️',
+  error: '❌',
+  cameraError: '❌',
+};
+
+const Row: React.FC<{ label: string; children: React.ReactNode; className?: string }> = ({ label, children, className = 'mb-1' }) => (
+  <div className={`flex justify-between items-center ${className}`}>
+    <span className="text-highlight/70">{label}:</span>
+    {children}
+  </div>
+);
+
+export const GestureDiagnosticsPanel: React.FC<GestureDiagnosticsPanelProps> = ({
+  info,
+  log,
+  bindings,
+  currentMode,
+  handPos,
+  replaying,
+  locale,
+  onLocaleChange,
+  onDownload
+}) => {
+  const t = DIAGNOSTICS_STRINGS[locale];
+  const summary = log.summarize(2000);
+  const timeline = log.recent(TIMELINE_FRAMES);
+
+  const gestureText = info.twoHandGrab ? `🤏🤏 ${t.twoHandGrab}`
+    : info.pose ? `${GESTURE_ICONS[info.pose]} ${t.gestures[info.pose]}`
+    : info.handsCount > 0 ? `🤔 ${t.unknownGesture}`
+    : t.noGesture;
+
+  const controllerText = !info.controller ? ''
+    : info.controller.id !== null ? `✋ #${info.controller.id}${info.controller.absent ? ` (${t.controllerAbsent})` : ''}`
+    : info.controller.claimProgress > 0 ? `⏳ ${Math.round(info.controller.claimProgress * 100)}%`
+    : `— ${t.controllerNone}`;
+
+  return (
+    <div className="mt-2 bg-black/80 backdrop-blur-md border border-primary/50 rounded-lg p-3 text-xs font-mono min-w-[220px] pointer-events-auto">
+      <div className="flex items-center justify-between text-primary font-bold mb-2 border-b border-primary/30 pb-1">
+        <span>🎄 {t.title}</span>
+        <button
+          onClick={() => onLocaleChange(locale === 'vi' ? 'en' : 'vi')}
+          className="text-[9px] px-1 border border-primary/40 rounded hover:bg-primary/20"
+        >
+          {locale === 'vi' ? 'EN' : 'VI'}
+        </button>
+      </div>
+
+      {/* Status */}
+      <Row label={t.status}>
+        <span className={`font-bold text-[10px] ${STATUS_COLORS[info.status]}`}>
+          {STATUS_ICONS[info.status]} {t.statuses[info.status]}
+          {info.status === 'replaying' && ` (${t.replayFrames(info.replayFrames)})`}
+        </span>
+      </Row>
+
+      {/* Error (if any) */}
+      {info.error && (
+        <div className="mb-2 p-1 bg-red-500/20 rounded text-[9px] text-red-300 break-words">
+          {info.error.detail || t.errors[info.error.kind]}
+        </div>
+      )}
+
+      {/* Inference backend, measured detection rate and latency */}
+      {summary.frames > 1 && (
+        <Row label={t.detection}>
+          <span className="text-primary font-bold text-[10px]">
+            {!replaying && `${info.worker ? 'Worker' : 'Main'} · `}{summary.detectionFps.toFixed(0)} FPS
+          </span>
+        </Row>
+      )}
+      {!replaying && info.assetSource && (
+        <Row label={t.assets}>
+          <span className="text-primary font-bold text-[10px]">{info.assetSource}</span>
+        </Row>
+      )}
+      {!replaying && summary.avgInferenceMs > 0 && (
+        <Row label={t.latency}>
+          <span className="text-primary font-bold text-[10px]">
+            {summary.avgInferenceMs.toFixed(0)}ms · p95 {summary.p95InferenceMs.toFixed(0)}ms
+          </span>
+        </Row>
+      )}
+
+      {/* Hands Count */}
+      <Row label={t.hands}>
+        <span className={`font-bold ${info.handsCount >= 2 ? 'text-green-400' : info.handsCount === 1 ? 'text-yellow-400' : 'text-red-400'}`}>
+          {info.handsCount === 0 ? '❌ 0' : info.handsCount === 1 ? '☝️ 1' : `🙌 ${info.handsCount}`}
+          {info.hands.length > 0 && (
+            <span className="font-normal text-[10px] text-highlight/60"> ({info.hands.map(side => t.handSides[side]).join(' + ')})</span>
+          )}
+        </span>
+      </Row>
+
+      {/* Controller (multi-person mode) */}
+      {info.controller && (
+        <Row label={t.controller}>
+          <span className="text-primary font-bold">{controllerText}</span>
+        </Row>
+      )}
+
+      {/* Extended Fingers */}
+      <Row label={t.extendedFingers}>
+        <span className="text-primary font-bold">{info.extendedFingers}/5</span>
+      </Row>
+
+      {/* Detected Gesture */}
+      <Row label={t.gesture}>
+        <span className={`font-bold ${
+          info.pose === GestureType.OPEN_PALM ? 'text-orange-400' :
+          info.pose === GestureType.FIST ? 'text-cyan-400' :
+          'text-gray-400'
+        }`}>
+          {gestureText}
+        </span>
+      </Row>
+
+      {/* Last triggered action */}
+      {info.lastTrigger && (
+        <Row label={t.lastTrigger}>
+          <span className="text-primary text-[10px]">
+            {GESTURE_ICONS[info.lastTrigger.gesture]} → {t.actions[info.lastTrigger.action]}
+          </span>
+        </Row>
+      )}
+
+      {/* Timeline: one bar per frame, colored by pose, dot where a gesture fired */}
+      <div className="mt-2 mb-1 text-highlight/70">{t.timeline}:</div>
+      <div className="flex items-end gap-px h-4 mb-2 bg-white/5 rounded overflow-hidden">
+        {timeline.map(frame => (
+          <div
+            key={frame.timestamp}
+            className="flex-1 h-full relative"
+            style={{ backgroundColor: frame.twoHandGrab ? 'rgb(var(--color-primary))' : frame.pose ? GESTURE_COLORS[frame.pose] : frame.handsCount > 0 ? '#444' : 'transparent' }}
+            title={frame.pose ? t.gestures[frame.pose] : undefined}
+          >
+            {frame.events.length > 0 && (
+              <div className="absolute top-0 inset-x-0 h-1 bg-white" />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Per-gesture frame counters against their hold time */}
+      <div className="mb-1 text-highlight/70">{t.counters}:</div>
+      <div className="grid grid-cols-[1.75rem_1fr_1.5rem] gap-x-1 gap-y-0.5 items-center text-[10px] mb-1">
+        {STATIC_GESTURES.map(type => {
+          const count = info.counters[type] ?? 0;
+          const fill = Math.min(1, count / (bindings[type].holdFrames + 1));
+          return (
+            <React.Fragment key={type}>
+              <span>{GESTURE_ICONS[type]}</span>
+              <div className="h-1.5 bg-white/10 rounded overflow-hidden">
+                <div className="h-full" style={{ width: `${fill * 100}%`, backgroundColor: GESTURE_COLORS[type] }} />
+              </div>
+              <span className="text-right text-highlight/60">{count}</span>
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      {/* Current Mode */}
+      <Row label={t.mode} className="mt-2 pt-2 border-t border-primary/30">
+        <span className={`font-bold px-2 py-0.5 rounded ${
+          currentMode === TreeMode.CHAOS
+            ? 'bg-orange-500/20 text-orange-400'
+            : 'bg-green-500/20 text-green-400'
+        }`}>
+          {currentMode === TreeMode.CHAOS ? '💥' : '🎄'} {t.modes[currentMode]}
+        </span>
+      </Row>
+
+      {/* Hand Position */}
+      {handPos && (
+        <div className="flex justify-between items-center mt-1 text-[10px]">
+          <span className="text-highlight/50">{t.position}:</span>
+          <span className="text-primary/70">
+            X:{handPos.x.toFixed(2)} Y:{handPos.y.toFixed(2)}
+          </span>
+        </div>
+      )}
+
+      <button
+        onClick={onDownload}
+        disabled={summary.frames === 0}
+        className="w-full mt-2 px-2 py-1 border border-primary/50 rounded text-[10px] text-primary hover:bg-primary/20 transition-colors disabled:opacity-40"
+      >
+        ⬇️ {t.downloadDiagnostics}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GestureType } from '../types';
+import { handMetrics, PoseThresholds } from '../lib/gestureRecognizer';
+import { ACTION_INFO, GESTURE_ICONS, GestureBindings } from '../lib/gestureBindings';
+import { CalibrationSamples, computePoseThresholds, describeThresholds } from '../lib/gestureCalibration';
+import { subscribeHandFrames } from '../lib/handFrameEvents';
+import { drawAllHands } from '../lib/handSkeleton';
+import { isMotionGesture } from '../lib/motionGestures';
+
+interface GestureTutorialProps {
+  bindings: GestureBindings;
+  onComplete: (thresholds: Partial<PoseThresholds>) => void;
+  onSkip: () => void;
+}
+
+interface TutorialStep {
+  gesture: GestureType;
+  title: string;
+  hint: string;
+  sample?: keyof CalibrationSamples; // Measurements from this step feed threshold calibration
+}
+
+const STEPS: TutorialStep[] = [
+  { gesture: GestureType.OPEN_PALM, title: 'Xòe tay', hint: 'Mở rộng cả 5 ngón tay, lòng bàn tay hướng về camera', sample: 'open' },
+  { gesture: GestureType.FIST, title: 'Nắm tay', hint: 'Nắm chặt bàn tay lại', sample: 'fist' },
+  { gesture: GestureType.PINCH_RIGHT, title: 'Chụm tay phải', hint: 'Chạm đầu ngón cái và ngón trỏ của tay phải', sample: 'pinch' },
+  { gesture: GestureType.PINCH_LEFT, title: 'Chụm tay trái', hint: 'Chạm đầu ngón cái và ngón trỏ của tay trái', sample: 'pinch' },
+  { gesture: GestureType.THUMBS_UP, title: 'Ngón cái lên', hint: 'Nắm tay, giơ ngón cái hướng lên trên' },
+  { gesture: GestureType.THUMBS_DOWN, title: 'Ngón cái xuống', hint: 'Nắm tay, chỉ ngón cái xuống dưới' },
+  { gesture: GestureType.VICTORY, title: 'Chữ V', hint: 'Giơ ngón trỏ và ngón giữa, gập các ngón còn lại' },
+  // Motion gestures are practiced, not sampled: their speeds are tuned with the sliders in settings
+  { gesture: GestureType.SWIPE_LEFT, title: 'Vuốt sang trái', hint: 'Xòe tay và vuốt nhanh sang trái' },
+  { gesture: GestureType.SWIPE_RIGHT, title: 'Vuốt sang phải', hint: 'Xòe tay và vuốt nhanh sang phải' },
+  { gesture: GestureType.FLICK_UP, title: 'Hất lên', hint: 'Hất bàn tay nhanh lên trên' },
+  { gesture: GestureType.STIR, title: 'Khuấy tròn', hint: 'Vẽ vòng tròn nhanh bằng bàn tay, như đang khuấy' },
+];
+
+const FRAMES_TO_PASS = 15; // Frames the pose must be recognized to tick a step off
+const MOTIONS_TO_PASS = 2; // Times a motion gesture must fire, so one lucky stroke doesn't count
+const SAMPLE_DELAY_MS = 600; // Give the user time to form the pose before sampling
+
+export const GestureTutorial: React.FC<GestureTutorialProps> = ({ bindings, onComplete, onSkip }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [handVisible, setHandVisible] = useState(false);
+  const samplesRef = useRef<CalibrationSamples>({ open: [], fist: [], pinch: [] });
+
+  const isSummary = stepIndex >= STEPS.length;
+  const step = STEPS[stepIndex];
+  const passed = progress >= 1;
+
+  // Live skeleton, pose matching and sampling for the current step
+  useEffect(() => {
+    if (isSummary) return;
+    const stepStart = performance.now();
+    let matchFrames = 0;
+    let motions = 0;
+    setProgress(0);
+
+    return subscribeHandFrames((frame, result) => {
+      if (canvasRef.current) {
+        drawAllHands(canvasRef.current, frame.landmarks, 320, 240);
+      }
+      setHandVisible(frame.landmarks.length > 0);
+      if (frame.landmarks.length === 0) return;
+
+      if (step.sample && performance.now() - stepStart > SAMPLE_DELAY_MS) {
+        // For pinch, measure whichever hand is pinching hardest
+        const metrics = frame.landmarks.map(handMetrics);
+        const sample = step.sample === 'pinch'
+          ? metrics.reduce((best, m) => (m.pinchDistance < best.pinchDistance ? m : best))
+          : metrics[0];
+        samplesRef.current[step.sample].push(sample);
+      }
+
+      if (isMotionGesture(step.gesture)) {
+        // A motion is over in a frame, so count the times it fired instead of frames held
+        motions += result.events.filter(event => event.type === step.gesture).length;
+        setProgress(Math.min(1, motions / MOTIONS_TO_PASS));
+        return;
+      }
+
+      matchFrames = result.pose === step.gesture ? matchFrames + 1 : Math.max(0, matchFrames - 1);
+      setProgress(Math.min(1, matchFrames / FRAMES_TO_PASS));
+    });
+  }, [stepIndex, isSummary, step]);
+
+  // Move on shortly after a step is recognized
+  useEffect(() => {
+    if (!passed) return;
+    const timer = setTimeout(() => setStepIndex(i => i + 1), 800);
+    return () => clearTimeout(timer);
+  }, [passed]);
+
+  const thresholds = isSummary ? computePoseThresholds(samplesRef.current) : {};
+  const summary = describeThresholds(thresholds);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-black/90 border border-primary/60 rounded-lg p-5 w-[360px] shadow-[0_0_30px_rgb(var(--color-primary,212_175_55)/0.3)] text-highlight">
+        <div className="flex items-center justify-between mb-3 border-b border-primary/30 pb-2">
+          <span className="text-primary font-bold font-serif">🎓 Hướng dẫn cử chỉ</span>
+          <span className="text-[10px] text-highlight/50">
+            {Math.min(stepIndex + 1, STEPS.length)} / {STEPS.length}
+          </span>
+        </div>
+
+        {!isSummary ? (
+          <>
+            <div className="flex items-center gap-3 mb-2">
+              <span className="text-4xl">{GESTURE_ICONS[step.gesture]}</span>
+              <div>
+                <div className="font-bold">{step.title}</div>
+                <div className="text-[11px] text-highlight/70">{step.hint}</div>
+                <div className="text-[10px] text-primary/80 mt-0.5">→ {ACTION_INFO[bindings[step.gesture].action].label}</div>
+              </div>
+            </div>
+
+            {/* Live hand skeleton */}
+            <div className="relative bg-black border border-primary/40 rounded overflow-hidden mb-2 aspect-[4/3]">
+              <canvas ref={canvasRef} className="w-full h-full transform -scale-x-100" />
+              {!handVisible && (
+                <div className="absolute inset-0 flex items-center justify-center text-[11px] text-highlight/50">
+                  Đưa tay vào trước camera...
+                </div>
+              )}
+            </div>
+
+            {/* Recognition progress */}
+            <div className="h-1.5 bg-white/10 rounded overflow-hidden mb-3">
+              <div
+                className={`h-full transition-all duration-150 ${passed ? 'bg-green-400' : 'bg-primary'}`}
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="text-[11px] mb-3">
+            <div className="mb-2">✅ Đã xong! Ngưỡng nhận diện cho bạn:</div>
+            <div className="flex justify-between p-1 bg-white/5 rounded mb-1">
+              <span className="text-highlight/70">Độ duỗi ngón</span>
+              <span className="text-primary font-mono">{summary.extensionRatio.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between p-1 bg-white/5 rounded">
+              <span className="text-highlight/70">Khoảng chụm</span>
+              <span className="text-primary font-mono">{summary.pinchDistance.toFixed(3)}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between gap-2 text-xs">
+          <button
+            onClick={onSkip}
+            className="px-3 py-1.5 text-highlight/60 hover:text-highlight transition-colors"
+          >
+            Bỏ qua
+          </button>
+          <div className="flex gap-2">
+            {stepIndex > 0 && (
+              <button
+                onClick={() => setStepIndex(i => i - 1)}
+                className="px-3 py-1.5 border border-primary/50 rounded text-primary hover:bg-primary/20 transition-colors"
+              >
+                ◀ Quay lại
+              </button>
+            )}
+            <button
+              onClick={() => (isSummary ? onComplete(thresholds) : setStepIndex(i => i + 1))}
+              className="px-3 py-1.5 border border-primary rounded text-primary hover:bg-primary hover:text-black transition-colors"
+            >
+              {isSummary ? 'Hoàn tất' : 'Tiếp ▶'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef } from 'react';
+import { AppAction } from '../types';
+import { ACTION_INFO } from '../lib/gestureBindings';
+
+/**
+ * Keyboard, mouse wheel and touch equivalents of every gesture-driven action,
+ * for viewers who can't (or won't) turn the webcam on.
+ */
+
+interface InputControllerProps {
+  onAction: (action: AppAction) => void;
+  onCameraMove: (direction: 'forward' | 'backward' | null) => void;
+}
+
+export const KEY_BINDINGS: { key: string; label: string; action: AppAction }[] = [
+  { key: ' ', label: 'Space', action: AppAction.TOGGLE_MODE },
+  { key: 'ArrowLeft', label: '←', action: AppAction.PHOTO_PREV },
+  { key: 'ArrowRight', label: '→', action: AppAction.PHOTO_NEXT },
+  { key: 'ArrowUp', label: '↑', action: AppAction.CAMERA_FORWARD },
+  { key: 'ArrowDown', label: '↓', action: AppAction.CAMERA_BACKWARD },
+  { key: 's', label: 'S', action: AppAction.SNOW_TOGGLE },
+  { key: 'v', label: 'V', action: AppAction.OPEN_PHOTO_VIEWER },
+  { key: 'p', label: 'P', action: AppAction.START_SLIDESHOW },
+  { key: 'c', label: 'C', action: AppAction.TAKE_SCREENSHOT },
+  { key: 'r', label: 'R', action: AppAction.SPIN_TREE },
+  { key: 'l', label: 'L', action: AppAction.LIGHT_PATTERN_NEXT },
+];
+
+const SWIPE_MIN_DISTANCE = 80; // px
+const SWIPE_MAX_DURATION = 300; // ms
+const DOUBLE_TAP_WINDOW = 300; // ms
+const PINCH_STEP = 0.02; // Relative finger-distance change that counts as a zoom step
+const ZOOM_RELEASE_DELAY = 150; // ms without wheel/pinch input before the camera stops
+
+// Keys typed into settings inputs must not trigger shortcuts
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+// Space and Enter press a focused button or link; other shortcuts still work while one has focus
+const ACTIVATION_KEYS = [' ', 'Enter'];
+const isActivatableTarget = (target: EventTarget | null) =>
+  target instanceof Element && target.closest('button, a[href], summary, [role="button"]') !== null;
+
+// Wheel and touch only count on the 3D canvas so overlays keep scrolling normally
+const isCanvasTarget = (target: EventTarget | null) => target instanceof HTMLCanvasElement;
+
+export const InputController: React.FC<InputControllerProps> = ({ onAction, onCameraMove }) => {
+  // Refs to store latest callbacks (to avoid re-binding listeners every render)
+  const onActionRef = useRef(onAction);
+  const onCameraMoveRef = useRef(onCameraMove);
+
+  useEffect(() => {
+    onActionRef.current = onAction;
+    onCameraMoveRef.current = onCameraMove;
+  }, [onAction, onCameraMove]);
+
+  useEffect(() => {
+    let zoomReleaseTimer: ReturnType<typeof setTimeout> | undefined;
+    let touchStart: { x: number; y: number; time: number } | null = null;
+    let lastTapTime = 0;
+    let pinchDistance: number | null = null;
+
+    // Wheel and pinch arrive as bursts; hold the camera move until the burst ends
+    const zoomPulse = (direction: 'forward' | 'backward') => {
+      onCameraMoveRef.current(direction);
+      clearTimeout(zoomReleaseTimer);
+      zoomReleaseTimer = setTimeout(() => onCameraMoveRef.current(null), ZOOM_RELEASE_DELAY);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (ACTIVATION_KEYS.includes(e.key) && isActivatableTarget(e.target)) return;
+      const binding = KEY_BINDINGS.find(b => b.key === e.key || b.key === e.key.toLowerCase());
+      if (!binding) return;
+
+      e.preventDefault();
+      if (binding.action === AppAction.CAMERA_FORWARD) {
+        onCameraMoveRef.current('forward');
+      } else if (binding.action === AppAction.CAMERA_BACKWARD) {
+        onCameraMoveRef.current('backward');
+      } else if (!e.repeat || ACTION_INFO[binding.action].repeat) {
+        onActionRef.current(binding.action);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        onCameraMoveRef.current(null);
+      }
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!isCanvasTarget(e.target) || e.deltaY === 0) return;
+      zoomPulse(e.deltaY < 0 ? 'forward' : 'backward');
+    };
+
+    const touchDistance = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (!isCanvasTarget(e.target)) return;
+
+      if (e.touches.length === 2) {
+        touchStart = null;
+        pinchDistance = touchDistance(e.touches);
+      } else if (e.touches.length === 1) {
+        touchStart = { x: e.touches[0].clientX, y: e.touches[0].clientY, time: performance.now() };
+      }
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (e.touches.length !== 2 || pinchDistance === null) return;
+
+      const distance = touchDistance(e.touches);
+      const change = (distance - pinchDistance) / pinchDistance;
+      if (Math.abs(change) < PINCH_STEP) return;
+
+      // Fingers spreading apart zoom in, like on any map or photo
+      zoomPulse(change > 0 ? 'forward' : 'backward');
+      pinchDistance = distance;
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2 && pinchDistance !== null) {
+        pinchDistance = null;
+        return;
+      }
+      if (!touchStart || e.changedTouches.length === 0) return;
+
+      const touch = e.changedTouches[0];
+      const dx = touch.clientX - touchStart.x;
+      const dy = touch.clientY - touchStart.y;
+      const now = performance.now();
+      const duration = now - touchStart.time;
+      touchStart = null;
+
+      // Quick horizontal flick -> change photo
+      if (duration < SWIPE_MAX_DURATION && Math.abs(dx) > SWIPE_MIN_DISTANCE && Math.abs(dx) > Math.abs(dy) * 2) {
+        onActionRef.current(dx < 0 ? AppAction.PHOTO_NEXT : AppAction.PHOTO_PREV);
+        return;
+      }
+
+      // Double tap -> toggle tree mode
+      if (Math.hypot(dx, dy) < 10) {
+        if (now - lastTapTime < DOUBLE_TAP_WINDOW) {
+          onActionRef.current(AppAction.TOGGLE_MODE);
+          lastTapTime = 0;
+        } else {
+          lastTapTime = now;
+        }
+      }
+    };
+
+    // A key released while another window has focus never sends keyup, so stop moving on blur
+    const handleBlur = () => {
+      clearTimeout(zoomReleaseTimer);
+      touchStart = null;
+      pinchDistance = null;
+      onCameraMoveRef.current(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('wheel', handleWheel, { passive: true });
+    window.addEventListener('touchstart', handleTouchStart, { passive: true });
+    window.addEventListener('touchmove', handleTouchMove, { passive: true });
+    window.addEventListener('touchend', handleTouchEnd);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      clearTimeout(zoomReleaseTimer);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('wheel', handleWheel);
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
+      window.removeEventListener('touchend', handleTouchEnd);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  return null;
+};
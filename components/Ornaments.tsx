@@ -1,239 +1,328 @@
-import React, { useMemo, useRef, useState, useLayoutEffect } from 'react';
+import React, { useEffect, useMemo, useRef, useLayoutEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeMode } from '../types';
+import { TreeShape, treeRadiusAt, treeSurfacePoint } from '../lib/treeShape';
+import { Theme } from '../lib/themes';
+import { applyTransition, createTransitionUniforms, StaggerInput, TRANSITION_GLSL, TransitionTimeline, TransitionUniforms } from '../lib/transitionTimeline';
+import { applyLightPattern, createLightPatternUniforms, LIGHT_PATTERN_GLSL, LIGHT_PATTERNS, LightPattern } from '../lib/lightPatterns';
+import { AudioReactor } from '../lib/audioReactive';
+import { ORNAMENT_TYPES, OrnamentColor, OrnamentType, pickOrnamentType } from '../lib/ornamentTypes';
+import { createSpringField, HandBrush, ORNAMENT_SPRING } from '../lib/springPhysics';
+import { createRandom, Random } from '../lib/random';
 
 interface OrnamentsProps {
-  mode: TreeMode;
+  timeline: TransitionTimeline;
   count: number;
+  shape: TreeShape;
+  theme: Theme;
+  lightPattern?: LightPattern; // Light show played on the 'light' ornaments
+  audio?: AudioReactor | null; // Lights pulse with the bass and flash on beats
+  brush?: HandBrush; // The tracked palm, jostling ornaments it passes near
+  seed: number; // Determines each ornament's type, spot and look
 }
 
-type OrnamentType = 'ball' | 'gift' | 'light';
-
 interface InstanceData {
   chaosPos: THREE.Vector3;
   targetPos: THREE.Vector3;
-  type: OrnamentType;
-  color: THREE.Color;
+  paletteSlot: number; // 0..1, picks a color from the theme palette
   scale: number;
-  speed: number;
+  stagger: StaggerInput; // Place in the transition order
   rotationOffset: THREE.Euler;
 }
 
-export const Ornaments: React.FC<OrnamentsProps> = ({ mode, count }) => {
-  // We use 3 separate InstancedMeshes for different geometries/materials to reduce draw calls
-  // but allow unique shapes.
-  const ballsRef = useRef<THREE.InstancedMesh>(null);
-  const giftsRef = useRef<THREE.InstancedMesh>(null);
-  const lightsRef = useRef<THREE.InstancedMesh>(null);
-  
-  const dummy = useMemo(() => new THREE.Object3D(), []);
-
-  // Generate data once
-  const { ballsData, giftsData, lightsData } = useMemo(() => {
-    const _balls: InstanceData[] = [];
-    const _gifts: InstanceData[] = [];
-    const _lights: InstanceData[] = [];
-
-    const height = 11; // Slightly smaller than foliage
-    const maxRadius = 4.5;
-    
-    // Luxury Colors
-    const gold = new THREE.Color("#D4AF37");
-    const red = new THREE.Color("#8B0000"); // Dark Velvet Red
-    const emerald = new THREE.Color("#004422");
-    const whiteGold = new THREE.Color("#F5E6BF");
-    
-    const palette = [gold, red, gold, whiteGold];
+// Ornaments stop short of the tip, where the star sits
+const ORNAMENT_MAX_HEIGHT = 0.92;
 
-    for (let i = 0; i < count; i++) {
-      const rnd = Math.random();
-      let type: OrnamentType = 'ball';
-      if (rnd > 0.8) type = 'gift';
-      if (rnd > 0.9) type = 'light'; // Less lights as geometry, more via bloom
-
-      // 1. Target Position (Spiral with heavy density at bottom)
-      // Use power function to bias distribution toward bottom (lower yNorm values)
-      const yNorm = Math.pow(Math.random(), 2.5); // Heavy concentration at bottom
-      const y = yNorm * height + 0.5;
-      const rScale = (1 - yNorm);
-      const theta = y * 10 + Math.random() * Math.PI * 2; // Wind around
-      
-      // Push ornaments slightly outside the foliage radius
-      const r = maxRadius * rScale + (Math.random() * 0.5);
-      
-      const targetPos = new THREE.Vector3(
-        r * Math.cos(theta),
-        y,
-        r * Math.sin(theta)
-      );
-
-      // 2. Chaos Position
-      const cR = 15 + Math.random() * 15;
-      const cTheta = Math.random() * Math.PI * 2;
-      const cPhi = Math.acos(2 * Math.random() - 1);
-      const chaosPos = new THREE.Vector3(
-        cR * Math.sin(cPhi) * Math.cos(cTheta),
-        cR * Math.sin(cPhi) * Math.sin(cTheta) + 5,
-        cR * Math.cos(cPhi)
-      );
-
-      const scale = type === 'light' ? 0.15 : (0.2 + Math.random() * 0.25);
-      const color = type === 'light' ? new THREE.Color("#FFFFAA") : palette[Math.floor(Math.random() * palette.length)];
-
-      const data: InstanceData = {
-        chaosPos,
-        targetPos,
-        type,
-        color,
-        scale,
-        speed: 0.5 + Math.random() * 1.5, // Random speed for physics feel
-        rotationOffset: new THREE.Euler(Math.random() * Math.PI, Math.random() * Math.PI, 0)
-      };
-
-      if (type === 'ball') _balls.push(data);
-      else if (type === 'gift') _gifts.push(data);
-      else _lights.push(data);
-    }
+// Shared by every ornament shader: where an instance is and how it's turned
+const ORNAMENT_VERTEX_GLSL = `
+  ${TRANSITION_GLSL}
+
+  uniform float uTime;
+  uniform float uTumble; // 1 for ornaments that keep turning (gifts)
+
+  attribute vec3 aChaosPos;
+  attribute vec3 aTargetPos;
+  attribute vec2 aRotation;
+  attribute float aScale;
+  attribute vec3 aStagger; // (height, angle, random): place in the transition order and the light show
+  attribute vec3 aOffset; // Spring displacement from the hand, stepped on the CPU
+
+  // How far the wind pushes an ornament hanging on its spring
+  const float ORNAMENT_SWAY = 0.025;
+
+  // Gusts roll across the tree: a couple of slow sines, offset by position
+  vec3 ornamentSway(vec3 anchor) {
+    float phase = aStagger.z * 100.0;
+    float gust = sin(uTime * 0.6 + anchor.x * 0.15) * sin(uTime * 0.23 + anchor.z * 0.2);
+    return ORNAMENT_SWAY * vec3(
+      0.6 + gust + 0.4 * sin(uTime * 1.7 + anchor.y * 0.8 + phase),
+      0.0,
+      0.5 * sin(uTime * 1.3 + anchor.x * 0.5 + phase * 0.7)
+    );
+  }
+
+  vec3 ornamentCenter() {
+    vec3 anchor = mix(aChaosPos, aTargetPos, transitionProgress(aStagger));
+    return anchor + ornamentSway(anchor) + aOffset;
+  }
+
+  mat3 ornamentRotation() {
+    float rx = aRotation.x + uTime * 0.5 * uTumble;
+    float ry = aRotation.y + uTime * 0.2 * uTumble;
+    mat3 turnX = mat3(1.0, 0.0, 0.0, 0.0, cos(rx), sin(rx), 0.0, -sin(rx), cos(rx));
+    mat3 turnY = mat3(cos(ry), 0.0, -sin(ry), 0.0, 1.0, 0.0, sin(ry), 0.0, cos(ry));
+    return turnY * turnX;
+  }
+`;
+
+type OrnamentUniforms = { uTime: { value: number } } & TransitionUniforms;
+
+// Lit ornaments keep three's standard material; the vertex transform and accent color are swapped in
+const animateStandardMaterial = (uniforms: OrnamentUniforms, tumble: number, accent: { value: THREE.Color }) =>
+  (shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.uniforms.uTumble = { value: tumble };
+    shader.uniforms.uAccentColor = accent;
+    shader.vertexShader = `
+      ${ORNAMENT_VERTEX_GLSL}
+      attribute float aAccent;
+      uniform vec3 uAccentColor;
+    ` + shader.vertexShader
+      .replace('#include <beginnormal_vertex>', `#include <beginnormal_vertex>
+        mat3 ornamentTurn = ornamentRotation();
+        objectNormal = ornamentTurn * objectNormal;`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>
+        transformed = ornamentTurn * (transformed * aScale) + ornamentCenter();`)
+      .replace('#include <color_vertex>', `#include <color_vertex>
+        #ifdef USE_INSTANCING_COLOR
+          vColor = mix(vColor, uAccentColor, aAccent);
+        #endif`);
+  };
+
+// Lights are unlit: color and brightness come from the light pattern (values above 1 bloom)
+const lightVertexShader = `
+  ${ORNAMENT_VERTEX_GLSL}
+  ${LIGHT_PATTERN_GLSL}
+
+  uniform vec3 uLightColor;
+  uniform float uAudioBoost;
+
+  varying vec3 vColor;
 
-    return { ballsData: _balls, giftsData: _gifts, lightsData: _lights };
-  }, [count]);
+  void main() {
+    vec2 level = lightLevel(aStagger);
+    float intensity = level.x * uAudioBoost;
+    vColor = lightColor(level, uLightColor) * intensity;
+
+    vec3 transformed = position * aScale * (0.8 + intensity * 0.1) + ornamentCenter();
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(transformed, 1.0);
+  }
+`;
+
+const lightFragmentShader = `
+  varying vec3 vColor;
+
+  void main() {
+    gl_FragColor = vec4(vColor, 1.0);
+  }
+`;
+
+const resolveColor = (color: OrnamentColor, theme: Theme, paletteSlot: number) => {
+  if (color === 'palette') return theme.ornaments.palette[Math.floor(paletteSlot * theme.ornaments.palette.length)];
+  if (color === 'metal') return theme.metal;
+  return color;
+};
+
+const createInstance = (type: OrnamentType, shape: TreeShape, random: Random): InstanceData => {
+  // 1. Target Position (Spiral, height bias per type)
+  const t = Math.pow(random(), type.heightBias) * ORNAMENT_MAX_HEIGHT;
+  const theta = t * shape.height * 10 + random() * Math.PI * 2; // Wind around
+
+  // Sit just inside the foliage surface, some poking out
+  const [minOffset, maxOffset] = type.surfaceOffset;
+  const offset = minOffset + random() * (maxOffset - minOffset) - treeRadiusAt(shape, t) * 0.1;
+  const point = treeSurfacePoint(shape, t, theta, offset);
+
+  // 2. Chaos Position
+  const cR = 15 + random() * 15;
+  const cTheta = random() * Math.PI * 2;
+  const cPhi = Math.acos(2 * random() - 1);
+
+  const [minSize, maxSize] = type.size;
+  return {
+    chaosPos: new THREE.Vector3(
+      cR * Math.sin(cPhi) * Math.cos(cTheta),
+      cR * Math.sin(cPhi) * Math.sin(cTheta) + 5,
+      cR * Math.cos(cPhi)
+    ),
+    targetPos: new THREE.Vector3(point.x, point.y + 0.5, point.z),
+    paletteSlot: random(),
+    scale: minSize + random() * (maxSize - minSize),
+    stagger: { height: t, angle: theta, random: random() },
+    rotationOffset: new THREE.Euler(random() * Math.PI, random() * Math.PI, 0)
+  };
+};
+
+// Shaders read the instance attributes straight off the type's geometry
+const buildGeometry = (type: OrnamentType, data: InstanceData[], offsets: Float32Array) => {
+  const geometry = type.geometry();
+  const chaos = new Float32Array(data.length * 3);
+  const target = new Float32Array(data.length * 3);
+  const rotation = new Float32Array(data.length * 2);
+  const scale = new Float32Array(data.length);
+  const stagger = new Float32Array(data.length * 3);
+
+  data.forEach((d, i) => {
+    d.chaosPos.toArray(chaos, i * 3);
+    d.targetPos.toArray(target, i * 3);
+    rotation[i * 2] = d.rotationOffset.x;
+    rotation[i * 2 + 1] = d.rotationOffset.y;
+    scale[i] = d.scale;
+    stagger.set([d.stagger.height, d.stagger.angle, d.stagger.random], i * 3);
+  });
+
+  geometry.setAttribute('aChaosPos', new THREE.InstancedBufferAttribute(chaos, 3));
+  geometry.setAttribute('aTargetPos', new THREE.InstancedBufferAttribute(target, 3));
+  geometry.setAttribute('aRotation', new THREE.InstancedBufferAttribute(rotation, 2));
+  geometry.setAttribute('aScale', new THREE.InstancedBufferAttribute(scale, 1));
+  geometry.setAttribute('aStagger', new THREE.InstancedBufferAttribute(stagger, 3));
+  geometry.setAttribute('aOffset', new THREE.InstancedBufferAttribute(offsets, 3));
+  return geometry;
+};
+
+interface OrnamentMeshProps {
+  type: OrnamentType;
+  data: InstanceData[];
+  timeline: TransitionTimeline;
+  theme: Theme;
+  uniforms: OrnamentUniforms;
+  lightUniforms: Record<string, THREE.IUniform>;
+  brush?: HandBrush;
+}
+
+// One instanced mesh per ornament type; the instance matrices stay identity and the shaders place everything
+const OrnamentMesh: React.FC<OrnamentMeshProps> = ({ type, data, timeline, theme, uniforms, lightUniforms, brush }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  // Each ornament hangs on a spring to wherever the timeline has it this frame
+  const springs = useMemo(() => createSpringField(data.length, ORNAMENT_SPRING), [data]);
+  const anchors = useMemo(() => new Float32Array(data.length * 3), [data]);
+  const geometry = useMemo(() => buildGeometry(type, data, springs.offsets), [type, data, springs]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const accent = useMemo(() => ({ value: new THREE.Color() }), []);
+  const animate = useMemo(() => animateStandardMaterial(uniforms, type.tumble ? 1 : 0, accent), [uniforms, type, accent]);
 
   useLayoutEffect(() => {
-    // Set initial colors
-    [
-      { ref: ballsRef, data: ballsData },
-      { ref: giftsRef, data: giftsData },
-      { ref: lightsRef, data: lightsData }
-    ].forEach(({ ref, data }) => {
-      if (ref.current) {
-        data.forEach((d, i) => {
-          ref.current!.setColorAt(i, d.color);
-        });
-        ref.current.instanceColor!.needsUpdate = true;
-      }
-    });
-  }, [ballsData, giftsData, lightsData]);
+    // Colors come from the theme; positions stay put when it changes
+    accent.value.set(resolveColor(type.accent, theme, 0));
+    const mesh = meshRef.current;
+    if (!mesh || type.material === 'light') return;
+    const color = new THREE.Color();
+    data.forEach((d, i) => mesh.setColorAt(i, color.set(resolveColor(type.color, theme, d.paletteSlot))));
+    mesh.instanceColor!.needsUpdate = true;
+  }, [type, data, theme, accent]);
+
+  // The shader places each ornament itself; the anchors are only for the springs to find the hand.
+  // They're recomputed while a transition runs, plus one frame to land on the end state (and once
+  // more whenever the geometry is rebuilt or the springs wake up)
+  const settledGeometryRef = useRef<THREE.BufferGeometry | null>(null);
 
   useFrame((state, delta) => {
-    const isFormed = mode === TreeMode.FORMED;
+    // Nothing to step or upload while the springs hang still and the hand is elsewhere
+    if (springs.atRest() && !brush?.active) {
+      settledGeometryRef.current = null;
+      return;
+    }
+
     const time = state.clock.elapsedTime;
+    const settled = timeline.isSettled('ornaments', time);
+    if (!settled || settledGeometryRef.current !== geometry) {
+      data.forEach((d, i) => {
+        const p = timeline.progress('ornaments', d.stagger, time);
+        anchors[i * 3] = d.chaosPos.x + (d.targetPos.x - d.chaosPos.x) * p;
+        anchors[i * 3 + 1] = d.chaosPos.y + (d.targetPos.y - d.chaosPos.y) * p;
+        anchors[i * 3 + 2] = d.chaosPos.z + (d.targetPos.z - d.chaosPos.z) * p;
+      });
+    }
+    settledGeometryRef.current = settled ? geometry : null;
 
-    // Helper to update a mesh ref
-    const updateMesh = (ref: React.RefObject<THREE.InstancedMesh>, data: InstanceData[]) => {
-      if (!ref.current) return;
+    springs.step(anchors, time, delta, brush);
+    geometry.getAttribute('aOffset').needsUpdate = true;
+  });
 
-      let needsUpdate = false;
+  return (
+    <instancedMesh ref={meshRef} args={[geometry, undefined, data.length]} frustumCulled={false}>
+      {type.material === 'light' ? (
+        <shaderMaterial
+          vertexShader={lightVertexShader}
+          fragmentShader={lightFragmentShader}
+          uniforms={lightUniforms}
+          toneMapped={false}
+        />
+      ) : (
+        <meshStandardMaterial
+          roughness={type.roughness}
+          metalness={type.metalness}
+          envMapIntensity={1.5}
+          onBeforeCompile={animate}
+        />
+      )}
+    </instancedMesh>
+  );
+};
 
-      data.forEach((d, i) => {
-        // Interpolation Factor based on individual speed and global delta
-        // We use a simple approach: if formed, target is targetPos, else chaosPos
-        const dest = isFormed ? d.targetPos : d.chaosPos;
-        
-        // We actually want to lerp the CURRENT position to the DESTINATION
-        // But extracting current position from matrix is expensive every frame for all.
-        // Instead, we calculate "current" based on a virtual progress 0-1 driven by state.
-        
-        // To simulate "physics" (heavy/light), we don't store state per particle here (too complex for this snippet).
-        // Instead, we calculate position based on a time-dependent lerp factor.
-        
-        // However, a simple way to make it feel organic is:
-        // Position = Mix(Chaos, Target, SmoothStep(GlobalProgress * speed))
-        
-        // Let's use a sin wave derived from time for hover, but the main transition is driven by a hidden 'progress' value
-        // Since we don't have a global store for animation progress per particle, we approximate using the mode switch time.
-        // For a robust system, we'd use a spring library, but here we do manual lerping.
-
-        // Get current matrix position to lerp from? Too expensive.
-        // Let's assume a global transition variable `t` that goes 0->1 or 1->0.
-        // We will misuse the object's userdata or just calculate purely functional.
-        
-        // Functional approach:
-        // We need an accumulated value. Let's create a visual wobble.
-        
-        // NOTE: For true interactive physics, we'd use useSprings from react-spring/three, 
-        // but for 1000 instances, manual matrix manipulation is better.
-        // Here we will simply interpolate between the two static positions based on a "progress" variable
-        // that we track manually or approximate.
-        
-        // Let's read a custom progress from the dataset. 
-        // We'll augment the data object with a mutable `currentProgress` property in a closure if possible,
-        // but `data` is static.
-        
-        // Let's just use the `MathUtils.lerp` on the vectors directly inside the loop 
-        // by reading the matrix, lerping, writing back.
-        ref.current!.getMatrixAt(i, dummy.matrix);
-        dummy.matrix.decompose(dummy.position, dummy.quaternion, dummy.scale);
-        
-        const step = delta * d.speed;
-        dummy.position.lerp(dest, step);
-
-        // Add wobble when formed
-        if (isFormed && dummy.position.distanceTo(d.targetPos) < 0.5) {
-          dummy.position.y += Math.sin(time * 2 + d.chaosPos.x) * 0.002;
-        }
-
-        // Rotation
-        if (d.type === 'gift') {
-           dummy.rotation.x += delta * 0.5;
-           dummy.rotation.y += delta * 0.2;
-        } else {
-           // Balls face out
-           dummy.lookAt(0, dummy.position.y, 0);
-        }
-
-        dummy.scale.setScalar(d.scale);
-        if (d.type === 'light') {
-           // Pulsate lights
-           const pulse = 1 + Math.sin(time * 5 + d.chaosPos.y) * 0.3;
-           dummy.scale.multiplyScalar(pulse);
-        }
-
-        dummy.updateMatrix();
-        ref.current!.setMatrixAt(i, dummy.matrix);
-        needsUpdate = true;
-      });
+export const Ornaments: React.FC<OrnamentsProps> = ({ timeline, count, shape, theme, lightPattern = LIGHT_PATTERNS[0], audio, brush, seed }) => {
+  const mix = theme.ornaments.mix;
+
+  // Each type draws from the registry's weights as adjusted by the theme
+  const groups = useMemo(() => {
+    const random = createRandom(seed, 'ornaments');
+    const byType = new Map<OrnamentType, InstanceData[]>(ORNAMENT_TYPES.map(type => [type, []]));
+    for (let i = 0; i < count; i++) {
+      const type = pickOrnamentType(random, mix);
+      byType.get(type)!.push(createInstance(type, shape, random));
+    }
+    return [...byType].filter(([, data]) => data.length > 0).map(([type, data]) => ({ type, data }));
+  }, [count, shape, mix, seed]);
+
+  const uniforms = useMemo(() => ({ uTime: { value: 0 }, ...createTransitionUniforms() }), []);
+  const lightUniforms = useMemo(() => ({
+    ...uniforms,
+    uTumble: { value: 0 },
+    uLightColor: { value: new THREE.Color() },
+    uAudioBoost: { value: 1 },
+    ...createLightPatternUniforms(),
+  }), [uniforms]);
 
-      if (needsUpdate) ref.current.instanceMatrix.needsUpdate = true;
-    };
+  useLayoutEffect(() => {
+    lightUniforms.uLightColor.value.set(theme.ornaments.light);
+    applyLightPattern(lightUniforms, lightPattern);
+  }, [lightUniforms, theme, lightPattern]);
+
+  useFrame((state) => {
+    const time = state.clock.elapsedTime;
+    uniforms.uTime.value = time;
+    applyTransition(uniforms, timeline, 'ornaments', time);
 
-    updateMesh(ballsRef, ballsData);
-    updateMesh(giftsRef, giftsData);
-    updateMesh(lightsRef, lightsData);
+    const levels = audio?.levels(time);
+    lightUniforms.uAudioBoost.value = levels ? 1 + levels.bass * 0.5 + levels.beat * 1.5 : 1;
   });
 
   return (
     <>
-      {/* Balls: High Gloss Gold/Red */}
-      <instancedMesh ref={ballsRef} args={[undefined, undefined, ballsData.length]}>
-        <sphereGeometry args={[1, 32, 32]} />
-        <meshStandardMaterial 
-          roughness={0.1} 
-          metalness={0.9} 
-          envMapIntensity={1.5}
-        />
-      </instancedMesh>
-
-      {/* Gifts: Cubes with ribbons (simplified as cubes) */}
-      <instancedMesh ref={giftsRef} args={[undefined, undefined, giftsData.length]}>
-        <boxGeometry args={[1, 1, 1]} />
-        <meshStandardMaterial 
-          roughness={0.3} 
-          metalness={0.5} 
-          color="#white" // Tinted by instance color
-        />
-      </instancedMesh>
-
-      {/* Lights: Emissive small spheres */}
-      <instancedMesh ref={lightsRef} args={[undefined, undefined, lightsData.length]}>
-        <sphereGeometry args={[1, 8, 8]} />
-        <meshStandardMaterial 
-          emissive="white"
-          emissiveIntensity={2}
-          toneMapped={false}
-          color="white" // Tinted by instance color (yellowish)
+      {groups.map(({ type, data }) => (
+        <OrnamentMesh
+          key={type.id}
+          type={type}
+          data={data}
+          timeline={timeline}
+          theme={theme}
+          uniforms={uniforms}
+          lightUniforms={lightUniforms}
+          brush={brush}
         />
-      </instancedMesh>
+      ))}
     </>
   );
-};
\ No newline at end of file
+};
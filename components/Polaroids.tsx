@@ -3,7 +3,11 @@ import React, { useMemo, useRef, useState, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { TreeMode } from '../types';
+import { TreeShape, treeSurfacePoint } from '../lib/treeShape';
+import { Theme } from '../lib/themes';
+import { StaggerInput, TransitionTimeline } from '../lib/transitionTimeline';
+import { createSpringField, HandBrush, PHOTO_SPRING, SpringField } from '../lib/springPhysics';
+import { createRandom } from '../lib/random';
 
 /**
  * ==================================================================================
@@ -24,11 +28,18 @@ import { TreeMode } from '../types';
 
 const PHOTO_COUNT = 22; // How many polaroid frames to generate
 
+// Radians of tilt per unit the spring has pushed a frame
+const PHOTO_SWING = 0.5;
+
 interface PolaroidsProps {
-  mode: TreeMode;
+  timeline: TransitionTimeline;
   uploadedPhotos: string[];
   twoHandsDetected: boolean;
   onClosestPhotoChange?: (photoUrl: string | null) => void;
+  shape: TreeShape;
+  theme: Theme;
+  brush?: HandBrush; // The tracked palm, swinging frames it passes near
+  seed: number; // Determines where the frames float when scattered
 }
 
 interface PhotoData {
@@ -36,10 +47,11 @@ interface PhotoData {
   url: string;
   chaosPos: THREE.Vector3;
   targetPos: THREE.Vector3;
-  speed: number;
+  speed: number; // How quickly the frame turns to face its new direction
+  stagger: StaggerInput; // Place in the transition order
 }
 
-const PolaroidItem: React.FC<{ data: PhotoData; mode: TreeMode; index: number }> = ({ data, mode, index }) => {
+const PolaroidItem: React.FC<{ data: PhotoData; timeline: TransitionTimeline; springs: SpringField; index: number; metalColor: string }> = ({ data, timeline, springs, index, metalColor }) => {
   const groupRef = useRef<THREE.Group>(null);
   const [texture, setTexture] = useState<THREE.Texture | null>(null);
   const [error, setError] = useState(false);
@@ -62,70 +74,45 @@ const PolaroidItem: React.FC<{ data: PhotoData; mode: TreeMode; index: number }>
     );
   }, [data.url]);
   
-  // Random sway offset
-  const swayOffset = useMemo(() => Math.random() * 100, []);
+  // Facing before the spring's swing is added on top
+  const baseRef = useRef(new THREE.Quaternion());
 
   useFrame((state, delta) => {
     if (!groupRef.current) return;
 
-    const isFormed = mode === TreeMode.FORMED;
     const time = state.clock.elapsedTime;
     
-    // 1. Position Interpolation
-    const targetPos = isFormed ? data.targetPos : data.chaosPos;
+    // 1. Position from the shared transition timeline, plus the spring's displacement
+    const progress = timeline.progress('photos', data.stagger, time);
+    const isFormed = progress > 0.5;
     const step = delta * data.speed;
+    const offsets = springs.offsets;
     
-    // Smooth lerp to target position
-    groupRef.current.position.lerp(targetPos, step);
+    groupRef.current.position.lerpVectors(data.chaosPos, data.targetPos, progress);
+    groupRef.current.position.x += offsets[index * 3];
+    groupRef.current.position.y += offsets[index * 3 + 1];
+    groupRef.current.position.z += offsets[index * 3 + 2];
 
-    // 2. Rotation & Sway Logic
+    // 2. Rotation
+    const dummy = new THREE.Object3D();
+    dummy.position.copy(groupRef.current.position);
     if (isFormed) {
         // Look at center but face outward
-        const dummy = new THREE.Object3D();
-        dummy.position.copy(groupRef.current.position);
         dummy.lookAt(0, groupRef.current.position.y, 0); 
         dummy.rotateY(Math.PI); // Flip to face out
-        
-        // Base rotation alignment
-        groupRef.current.quaternion.slerp(dummy.quaternion, step);
-        
-        // Physical Swaying (Wind)
-        // Z-axis rotation for side-to-side swing
-        const swayAngle = Math.sin(time * 2.0 + swayOffset) * 0.08;
-        // X-axis rotation for slight front-back tilt
-        const tiltAngle = Math.cos(time * 1.5 + swayOffset) * 0.05;
-        
-        groupRef.current.rotateZ(swayAngle * delta * 5); // Apply over time or directly? 
-        // For stable sway, we add to the base rotation calculated above.
-        // But since we slerp quaternion, let's just add manual rotation after slerp?
-        // Easier: Set rotation directly based on dummy + sway.
-        
-        // Calculate the "perfect" rotation
-        const currentRot = new THREE.Euler().setFromQuaternion(groupRef.current.quaternion);
-        groupRef.current.rotation.z = currentRot.z + swayAngle * 0.05; 
-        groupRef.current.rotation.x = currentRot.x + tiltAngle * 0.05;
-        
+        baseRef.current.slerp(dummy.quaternion, step);
     } else {
-        // Chaos mode - face toward camera with gentle floating
+        // Chaos mode - face toward camera
         // Camera position relative to scene group: [0, 9, 20]
-        const cameraPos = new THREE.Vector3(0, 9, 20);
-        const dummy = new THREE.Object3D();
-        dummy.position.copy(groupRef.current.position);
-        
-        // Make photos face the camera
-        dummy.lookAt(cameraPos);
-        
-        // Smoothly rotate to face camera
-        groupRef.current.quaternion.slerp(dummy.quaternion, delta * 3);
-        
-        // Add gentle floating wobble
-        const wobbleX = Math.sin(time * 1.5 + swayOffset) * 0.03;
-        const wobbleZ = Math.cos(time * 1.2 + swayOffset) * 0.03;
-        
-        const currentRot = new THREE.Euler().setFromQuaternion(groupRef.current.quaternion);
-        groupRef.current.rotation.x = currentRot.x + wobbleX;
-        groupRef.current.rotation.z = currentRot.z + wobbleZ;
+        dummy.lookAt(0, 9, 20);
+        baseRef.current.slerp(dummy.quaternion, delta * 3);
     }
+
+    // 3. Swing like a pendulum: the bottom trails the way wind or the hand pushed the frame
+    const swing = new THREE.Vector3(offsets[index * 3], offsets[index * 3 + 1], offsets[index * 3 + 2])
+      .applyQuaternion(baseRef.current.clone().invert());
+    const tilt = new THREE.Quaternion().setFromEuler(new THREE.Euler(-swing.z * PHOTO_SWING, 0, swing.x * PHOTO_SWING));
+    groupRef.current.quaternion.copy(baseRef.current).multiply(tilt);
   });
 
   return (
@@ -134,7 +121,7 @@ const PolaroidItem: React.FC<{ data: PhotoData; mode: TreeMode; index: number }>
       {/* The Hanging String (Visual only) - fades out at top */}
       <mesh position={[0, 1.2, -0.1]}>
         <cylinderGeometry args={[0.005, 0.005, 1.5]} />
-        <meshStandardMaterial color="#D4AF37" metalness={1} roughness={0.2} transparent opacity={0.6} />
+        <meshStandardMaterial color={metalColor} metalness={1} roughness={0.2} transparent opacity={0.6} />
       </mesh>
 
       {/* Frame Group (Offset slightly so string connects to top center) */}
@@ -160,7 +147,7 @@ const PolaroidItem: React.FC<{ data: PhotoData; mode: TreeMode; index: number }>
         {/* "Tape" or Gold Clip */}
         <mesh position={[0, 0.7, 0.025]} rotation={[0,0,0]}>
            <boxGeometry args={[0.1, 0.05, 0.05]} />
-           <meshStandardMaterial color="#D4AF37" metalness={1} roughness={0.2} />
+           <meshStandardMaterial color={metalColor} metalness={1} roughness={0.2} />
         </mesh>
 
         {/* Text Label */}
@@ -178,7 +165,7 @@ const PolaroidItem: React.FC<{ data: PhotoData; mode: TreeMode; index: number }>
   );
 };
 
-export const Polaroids: React.FC<PolaroidsProps> = ({ mode, uploadedPhotos, twoHandsDetected, onClosestPhotoChange }) => {
+export const Polaroids: React.FC<PolaroidsProps> = ({ timeline, uploadedPhotos, twoHandsDetected, onClosestPhotoChange, shape, theme, brush, seed }) => {
   const groupRef = useRef<THREE.Group>(null);
   const [closestPhotoIndex, setClosestPhotoIndex] = React.useState<number>(0);
 
@@ -188,29 +175,21 @@ export const Polaroids: React.FC<PolaroidsProps> = ({ mode, uploadedPhotos, twoH
       return [];
     }
 
+    const random = createRandom(seed, 'photos');
     const data: PhotoData[] = [];
-    const height = 9; // Range of height on tree
-    const maxRadius = 5.0; // Slightly outside the foliage radius (which is approx 5 at bottom)
-    
     const count = uploadedPhotos.length;
 
     for (let i = 0; i < count; i++) {
       // 1. Target Position
-      // Distributed nicely on the cone surface
-      const yNorm = 0.2 + (i / count) * 0.6; // Keep between 20% and 80% height
-      const y = yNorm * height;
-      
-      // Radius decreases as we go up
-      const r = maxRadius * (1 - yNorm) + 0.8; // +0.8 to ensure it floats OUTSIDE leaves
+      // Distributed nicely on the tree surface
+      const t = 0.15 + (i / count) * 0.45; // Keep to the lower-middle of the tree
       
       // Golden Angle Spiral for even distribution
       const theta = i * 2.39996; // Golden angle in radians
       
-      const targetPos = new THREE.Vector3(
-        r * Math.cos(theta),
-        y,
-        r * Math.sin(theta)
-      );
+      // +0.8 to ensure it floats OUTSIDE leaves
+      const point = treeSurfacePoint(shape, t, theta, 0.8);
+      const targetPos = new THREE.Vector3(point.x, point.y, point.z);
 
       // 2. Chaos Position - Spread out and closer to camera
       // Camera is at [0, 4, 20], Scene group offset is [0, -5, 0]
@@ -220,8 +199,8 @@ export const Polaroids: React.FC<PolaroidsProps> = ({ mode, uploadedPhotos, twoH
       
       // Create positions spread widely around camera, very close
       const angle = (i / count) * Math.PI * 2; // Distribute evenly
-      const distance = 3 + Math.random() * 4; // Distance 3-7 units (very close)
-      const heightSpread = (Math.random() - 0.5) * 8; // Height variation -4 to +4 (more spread)
+      const distance = 3 + random() * 4; // Distance 3-7 units (very close)
+      const heightSpread = (random() - 0.5) * 8; // Height variation -4 to +4 (more spread)
       
       const chaosPos = new THREE.Vector3(
         distance * Math.cos(angle) * 1.2, // X spread wider
@@ -234,11 +213,27 @@ export const Polaroids: React.FC<PolaroidsProps> = ({ mode, uploadedPhotos, twoH
         url: uploadedPhotos[i],
         chaosPos,
         targetPos,
-        speed: 0.8 + Math.random() * 1.5 // Variable speed
+        speed: 0.8 + random() * 1.5, // Variable speed
+        stagger: { height: t, angle: theta, random: random() }
       });
     }
     return data;
-  }, [uploadedPhotos]);
+  }, [uploadedPhotos, shape, seed]);
+
+  // Each frame hangs on a spring to wherever the timeline has it; the items read the offsets back
+  const springs = useMemo(() => createSpringField(photoData.length, PHOTO_SPRING), [photoData]);
+  const anchors = useMemo(() => new Float32Array(photoData.length * 3), [photoData]);
+
+  useFrame((state, delta) => {
+    const time = state.clock.elapsedTime;
+    photoData.forEach((d, i) => {
+      const p = timeline.progress('photos', d.stagger, time);
+      anchors[i * 3] = d.chaosPos.x + (d.targetPos.x - d.chaosPos.x) * p;
+      anchors[i * 3 + 1] = d.chaosPos.y + (d.targetPos.y - d.chaosPos.y) * p;
+      anchors[i * 3 + 2] = d.chaosPos.z + (d.targetPos.z - d.chaosPos.z) * p;
+    });
+    springs.step(anchors, time, delta, brush);
+  });
 
   // Update closest photo every frame when two hands are detected
   useFrame((state) => {
@@ -283,7 +278,9 @@ export const Polaroids: React.FC<PolaroidsProps> = ({ mode, uploadedPhotos, twoH
           key={i} 
           index={i} 
           data={data} 
-          mode={mode}
+          timeline={timeline}
+          springs={springs}
+          metalColor={theme.metal}
         />
       ))}
     </group>
@@ -1,71 +1,59 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeMode } from '../types';
+import { TreeShape, treeStarHeight } from '../lib/treeShape';
+import { Theme } from '../lib/themes';
+import { StaggerInput, TransitionTimeline } from '../lib/transitionTimeline';
+import { AudioReactor } from '../lib/audioReactive';
+import { DEFAULT_TOPPER, findTopper, TopperConfig } from '../lib/toppers';
+import { createRandom } from '../lib/random';
 
 interface TreeStarProps {
-  mode: TreeMode;
+  timeline: TransitionTimeline;
+  shape: TreeShape;
+  theme: Theme;
+  audio?: AudioReactor | null; // The glow swells with the bass and flares on beats
+  topper?: TopperConfig; // What sits on the tip
+  seed: number; // Determines where the topper flies off to in chaos
 }
 
-export const TreeStar: React.FC<TreeStarProps> = ({ mode }) => {
+// The star sits on the tip, so it comes last in bottom-up orders
+const STAR_STAGGER: StaggerInput = { height: 1, angle: 0, random: 0.5 };
+
+export const TreeStar: React.FC<TreeStarProps> = ({ timeline, shape, theme, audio, topper = DEFAULT_TOPPER, seed }) => {
   const starRef = useRef<THREE.Group>(null);
   const lightRef = useRef<THREE.PointLight>(null);
 
-  // Create a 5-pointed star shape
-  const starShape = React.useMemo(() => {
-    const shape = new THREE.Shape();
-    const outerRadius = 0.8; // Larger star
-    const innerRadius = 0.32;
-    const points = 5;
-
-    for (let i = 0; i < points * 2; i++) {
-      const angle = (i * Math.PI) / points - Math.PI / 2;
-      const radius = i % 2 === 0 ? outerRadius : innerRadius;
-      const x = Math.cos(angle) * radius;
-      const y = Math.sin(angle) * radius;
-
-      if (i === 0) {
-        shape.moveTo(x, y);
-      } else {
-        shape.lineTo(x, y);
-      }
-    }
-    shape.closePath();
-
-    return shape;
-  }, []);
-
-  const extrudeSettings = {
-    depth: 0.15,
-    bevelEnabled: true,
-    bevelThickness: 0.08,
-    bevelSize: 0.08,
-    bevelSegments: 3,
-  };
+  const definition = findTopper(topper.id);
+  const geometry = useMemo(() => definition.geometry(topper), [definition, topper.path]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
 
   // Target positions
-  const formedPos = new THREE.Vector3(0, 13, 0); // Higher above tree (height ~11)
-  const chaosPos = new THREE.Vector3(
-    Math.random() * 20 - 10,
-    15 + Math.random() * 10,
-    Math.random() * 20 - 10
-  );
+  const starY = treeStarHeight(shape); // Just above the tip
+  const formedPos = useMemo(() => new THREE.Vector3(0, starY, 0), [starY]);
+  const chaosPos = useMemo(() => {
+    const random = createRandom(seed, 'star');
+    return new THREE.Vector3(
+      random() * 20 - 10,
+      15 + random() * 10,
+      random() * 20 - 10
+    );
+  }, [seed]);
 
   useFrame((state, delta) => {
     if (!starRef.current) return;
 
-    const isFormed = mode === TreeMode.FORMED;
     const time = state.clock.elapsedTime;
+    const progress = timeline.progress('star', STAR_STAGGER, time);
 
     // Position animation
-    const targetPos = isFormed ? formedPos : chaosPos;
-    starRef.current.position.lerp(targetPos, delta * 1.5);
+    starRef.current.position.lerpVectors(chaosPos, formedPos, progress);
+    starRef.current.scale.setScalar(1);
 
     // Rotation animation
-    if (isFormed) {
-      // Gentle rotation and floating when formed
-      starRef.current.rotation.z = time * 0.5;
-      starRef.current.position.y = 13 + Math.sin(time * 2) * 0.1;
+    if (progress > 0.5) {
+      // Each topper has its own idle motion on the tip
+      definition.idle(starRef.current, time);
     } else {
       // Spinning in chaos mode
       starRef.current.rotation.x += delta * 2;
@@ -74,22 +62,22 @@ export const TreeStar: React.FC<TreeStarProps> = ({ mode }) => {
 
     // Pulsating light
     if (lightRef.current) {
-      const pulse = 2 + Math.sin(time * 3) * 0.5;
-      lightRef.current.intensity = pulse;
+      const pulse = definition.glow.intensity * (1 + Math.sin(time * 3) * 0.25);
+      const levels = audio?.levels(time);
+      lightRef.current.intensity = levels ? pulse + levels.bass + levels.beat * 3 : pulse;
     }
   });
 
   return (
-    <group ref={starRef} position={[0, 13, 0]}>
-      {/* Star Mesh */}
-      <mesh rotation={[0, 0, 0]}>
-        <extrudeGeometry args={[starShape, extrudeSettings]} />
+    <group ref={starRef} position={[0, starY, 0]}>
+      {/* Topper Mesh */}
+      <mesh geometry={geometry}>
         <meshStandardMaterial
-          color="#D4AF37"
-          emissive="#FFD700"
-          emissiveIntensity={2}
-          metalness={0.9}
-          roughness={0.1}
+          color={theme.star.color}
+          emissive={theme.star.emissive}
+          emissiveIntensity={definition.emissiveIntensity}
+          metalness={definition.metalness}
+          roughness={definition.roughness}
           toneMapped={false}
         />
       </mesh>
@@ -97,12 +85,11 @@ export const TreeStar: React.FC<TreeStarProps> = ({ mode }) => {
       {/* Point Light for glow effect */}
       <pointLight
         ref={lightRef}
-        color="#FFD700"
-        intensity={2}
-        distance={5}
+        color={theme.star.light}
+        intensity={definition.glow.intensity}
+        distance={definition.glow.distance}
         decay={2}
       />
     </group>
   );
 };
-
@@ -1,5 +1,6 @@
 import React, { useRef, useState } from 'react';
 import { TreeMode } from '../types';
+import { ShareConfig } from '../lib/shareConfig';
 
 interface UIOverlayProps {
   mode: TreeMode;
@@ -8,9 +9,10 @@ interface UIOverlayProps {
   hasPhotos: boolean;
   uploadedPhotos: string[];
   isSharedView: boolean;
+  shareConfig: ShareConfig; // Scene settings saved with the share link
 }
 
-export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUpload, hasPhotos, uploadedPhotos, isSharedView }) => {
+export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUpload, hasPhotos, uploadedPhotos, isSharedView, shareConfig }) => {
   const isFormed = mode === TreeMode.FORMED;
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isSharing, setIsSharing] = useState(false);
@@ -102,6 +104,7 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUp
             const shareId = Math.random().toString(36).substring(2, 10);
             const shareData = {
               images: uploadedPhotos,
+              config: shareConfig,
               createdAt: Date.now(),
             };
             localStorage.setItem(`share_${shareId}`, JSON.stringify(shareData));
@@ -162,6 +165,7 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUp
         body: JSON.stringify({
           shareId,
           imageUrls,
+          config: shareConfig,
         }),
       });
 
@@ -184,6 +188,7 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUp
           const shareId = Math.random().toString(36).substring(2, 10);
           const shareData = {
             images: uploadedPhotos,
+            config: shareConfig,
             createdAt: Date.now(),
           };
           localStorage.setItem(`share_${shareId}`, JSON.stringify(shareData));
@@ -225,7 +230,7 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUp
       
       {/* Header */}
       <header className="absolute top-8 left-1/2 transform -translate-x-1/2 flex flex-col items-center">
-        <h1 className="text-4xl md:text-6xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-[#D4AF37] via-[#F5E6BF] to-[#D4AF37] font-serif drop-shadow-lg tracking-wider text-center">
+        <h1 className="text-4xl md:text-6xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-primary via-highlight to-primary font-serif drop-shadow-lg tracking-wider text-center">
           Merry Christmas
         </h1>
       </header>
@@ -247,9 +252,9 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUp
         {isSharedView && (
           <button
             onClick={handleCreateMine}
-            className="group px-6 py-3 border-2 border-[#D4AF37] bg-black/70 backdrop-blur-md overflow-hidden transition-all duration-500 hover:shadow-[0_0_30px_#D4AF37] hover:border-[#fff] hover:bg-[#D4AF37]/20"
+            className="group px-6 py-3 border-2 border-primary bg-black/70 backdrop-blur-md overflow-hidden transition-all duration-500 hover:shadow-[0_0_30px_rgb(var(--color-primary))] hover:border-[#fff] hover:bg-primary/20"
           >
-            <span className="relative z-10 font-serif text-base md:text-lg text-[#D4AF37] tracking-[0.1em] group-hover:text-white transition-colors whitespace-nowrap">
+            <span className="relative z-10 font-serif text-base md:text-lg text-primary tracking-[0.1em] group-hover:text-white transition-colors whitespace-nowrap">
               Tạo cây thông của tôi
             </span>
           </button>
@@ -262,9 +267,9 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUp
             {!hasPhotos && (
               <button
                 onClick={handleUploadClick}
-                className="group px-6 py-3 border-2 border-[#D4AF37] bg-black/70 backdrop-blur-md overflow-hidden transition-all duration-500 hover:shadow-[0_0_30px_#D4AF37] hover:border-[#fff] hover:bg-[#D4AF37]/20"
+                className="group px-6 py-3 border-2 border-primary bg-black/70 backdrop-blur-md overflow-hidden transition-all duration-500 hover:shadow-[0_0_30px_rgb(var(--color-primary))] hover:border-[#fff] hover:bg-primary/20"
               >
-                <span className="relative z-10 font-serif text-base md:text-lg text-[#D4AF37] tracking-[0.1em] group-hover:text-white transition-colors whitespace-nowrap">
+                <span className="relative z-10 font-serif text-base md:text-lg text-primary tracking-[0.1em] group-hover:text-white transition-colors whitespace-nowrap">
                   Tải ảnh lên
                 </span>
               </button>
@@ -275,13 +280,13 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUp
               <div className="flex flex-col items-end gap-2">
                 <button
                   onClick={handleUploadClick}
-                  className="group px-6 py-3 border-2 border-[#D4AF37] bg-black/70 backdrop-blur-md overflow-hidden transition-all duration-500 hover:shadow-[0_0_30px_#D4AF37] hover:border-[#fff] hover:bg-[#D4AF37]/20"
+                  className="group px-6 py-3 border-2 border-primary bg-black/70 backdrop-blur-md overflow-hidden transition-all duration-500 hover:shadow-[0_0_30px_rgb(var(--color-primary))] hover:border-[#fff] hover:bg-primary/20"
                 >
-                  <span className="relative z-10 font-serif text-base md:text-lg text-[#D4AF37] tracking-[0.1em] group-hover:text-white transition-colors whitespace-nowrap">
+                  <span className="relative z-10 font-serif text-base md:text-lg text-primary tracking-[0.1em] group-hover:text-white transition-colors whitespace-nowrap">
                     🔄 Tải ảnh lại
                   </span>
                 </button>
-                <p className="text-[#F5E6BF]/50 text-xs font-serif text-right">
+                <p className="text-highlight/50 text-xs font-serif text-right">
                   Đã tải {uploadedPhotos.length} ảnh
                 </p>
               </div>
@@ -291,10 +296,10 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ mode, onToggle, onPhotosUp
       </div>
 
       {/* Decorative Corners */}
-      <div className="absolute top-8 left-8 w-16 h-16 border-t-2 border-l-2 border-[#D4AF37] opacity-50"></div>
-      <div className="absolute top-8 right-8 w-16 h-16 border-t-2 border-r-2 border-[#D4AF37] opacity-50"></div>
-      <div className="absolute bottom-8 left-8 w-16 h-16 border-b-2 border-l-2 border-[#D4AF37] opacity-50"></div>
-      <div className="absolute bottom-8 right-8 w-16 h-16 border-b-2 border-r-2 border-[#D4AF37] opacity-50"></div>
+      <div className="absolute top-8 left-8 w-16 h-16 border-t-2 border-l-2 border-primary opacity-50"></div>
+      <div className="absolute top-8 right-8 w-16 h-16 border-t-2 border-r-2 border-primary opacity-50"></div>
+      <div className="absolute bottom-8 left-8 w-16 h-16 border-b-2 border-l-2 border-primary opacity-50"></div>
+      <div className="absolute bottom-8 right-8 w-16 h-16 border-b-2 border-r-2 border-primary opacity-50"></div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createAdaptiveScheduler, DEFAULT_SCHEDULER_OPTIONS } from '../adaptiveScheduler';
+
+const { minIntervalMs, maxIntervalMs } = DEFAULT_SCHEDULER_OPTIONS;
+
+// Reports `count` frames `frameMs` apart and returns the time of the last one
+const run = (scheduler: ReturnType<typeof createAdaptiveScheduler>, start: number, frameMs: number, count: number) => {
+  let now = start;
+  for (let i = 0; i < count; i++) {
+    now += frameMs;
+    scheduler.recordFrame(now);
+  }
+  return now;
+};
+
+describe('createAdaptiveScheduler', () => {
+  it('holds detection back until it has timed the undisturbed frame rate', () => {
+    const scheduler = createAdaptiveScheduler();
+    const now = run(scheduler, 0, 1000 / 60, 10);
+    expect(scheduler.shouldDetect(now)).toBe(false);
+    expect(scheduler.shouldDetect(run(scheduler, now, 1000 / 60, 30))).toBe(true);
+  });
+
+  it('holds each display to its own measured pace', () => {
+    // 30 fps is all this machine manages, so it shouldn't count as falling behind
+    const slow = createAdaptiveScheduler();
+    run(slow, 0, 1000 / 30, 300);
+    expect(slow.getIntervalMs()).toBe(minIntervalMs);
+
+    // On a 120 Hz display, dropping to 60 fps is a real slowdown
+    const fast = createAdaptiveScheduler();
+    const now = run(fast, 0, 1000 / 120, 40);
+    run(fast, now, 1000 / 60, 300);
+    expect(fast.getIntervalMs()).toBe(maxIntervalMs);
+  });
+
+  it('backs off under load and recovers once rendering has headroom again', () => {
+    const scheduler = createAdaptiveScheduler({ targetFrameMs: 1000 / 55 });
+    expect(scheduler.shouldDetect(0)).toBe(true);
+
+    let now = run(scheduler, 0, 1000 / 20, 100);
+    expect(scheduler.getIntervalMs()).toBe(maxIntervalMs);
+    now = run(scheduler, now, 1000 / 60, 300);
+    expect(scheduler.getIntervalMs()).toBe(minIntervalMs);
+  });
+
+  it('ignores the gap left by a hidden tab', () => {
+    const scheduler = createAdaptiveScheduler({ targetFrameMs: 1000 / 55 });
+    const now = run(scheduler, 0, 1000 / 60, 10);
+    scheduler.recordFrame(now + 60_000);
+    expect(scheduler.getIntervalMs()).toBe(minIntervalMs);
+  });
+});
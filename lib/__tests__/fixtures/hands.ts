@@ -0,0 +1,92 @@
+import { HandFrame, Handedness, Landmark } from '../../gestureRecognizer';
+
+/**
+ * Landmark fixtures: the 21 MediaPipe hand points for each static pose, laid
+ * out the way a webcam frame shows them (normalized coordinates, y growing
+ * downward, fingers pointing up), and helpers to turn them into timed frame
+ * sequences like a recording.
+ */
+
+export type FixturePose = 'open' | 'fist' | 'pinch' | 'victory' | 'thumbsUp' | 'thumbsDown';
+
+export interface FixtureHand {
+  pose: FixturePose;
+  x?: number; // Palm position in the image, 0..1
+  y?: number;
+  handedness?: 'Left' | 'Right'; // MediaPipe's (mirrored) label; omitted = no label
+}
+
+// Frame spacing of a 30 fps camera
+export const FRAME_MS = 1000 / 30;
+
+// Finger bases (MCP) relative to the palm: index, middle, ring, pinky
+const FINGER_BASES = [[-0.03, 0], [-0.01, -0.005], [0.01, 0], [0.03, 0.01]];
+const WRIST = [0, 0.1];
+const THUMB_CMC = [-0.04, 0.07];
+const THUMB_MCP = [-0.06, 0.04];
+
+const EXTENDED_FINGERS: Record<FixturePose, boolean[]> = {
+  open: [true, true, true, true],
+  fist: [false, false, false, false],
+  pinch: [true, false, false, false],
+  victory: [true, true, false, false],
+  thumbsUp: [false, false, false, false],
+  thumbsDown: [false, false, false, false],
+};
+
+const thumbTip = (pose: FixturePose) => {
+  switch (pose) {
+    case 'open':
+      return [-0.13, 0.02]; // Out to the side
+    case 'pinch':
+      return [-0.03, -0.09]; // On the index tip
+    case 'thumbsUp':
+    case 'thumbsDown':
+      return [-0.07, -0.04]; // Straight up (thumbs down is the same hand upside down)
+    default:
+      return [0, 0.07]; // Folded across the palm
+  }
+};
+
+export const handLandmarks = ({ pose, x = 0.4, y = 0.5 }: FixtureHand): Landmark[] => {
+  const points: number[][] = new Array(21);
+  points[0] = WRIST;
+  points[1] = THUMB_CMC;
+  points[2] = THUMB_MCP;
+  const tip = thumbTip(pose);
+  points[3] = [(THUMB_MCP[0] + tip[0]) / 2, (THUMB_MCP[1] + tip[1]) / 2];
+  points[4] = tip;
+
+  FINGER_BASES.forEach((base, finger) => {
+    const reach = EXTENDED_FINGERS[pose][finger] ? -0.09 : 0.02;
+    const first = 5 + finger * 4;
+    for (let joint = 0; joint < 4; joint++) {
+      points[first + joint] = [base[0], base[1] + (reach * joint) / 3];
+    }
+  });
+
+  const flip = pose === 'thumbsDown' ? -1 : 1;
+  return points.map(([px, py]) => ({ x: x + px, y: y + py * flip, z: 0 }));
+};
+
+const handedness = (label: 'Left' | 'Right'): Handedness[] => [{ categoryName: label, score: 0.95 }];
+
+export const handFrame = (hands: FixtureHand[], timestamp: number): HandFrame => ({
+  landmarks: hands.map(handLandmarks),
+  handednesses: hands.every(hand => hand.handedness) ? hands.map(hand => handedness(hand.handedness!)) : undefined,
+  timestamp,
+});
+
+export interface FixtureSegment {
+  hands: FixtureHand[]; // Empty for frames with no hand in view
+  frames: number;
+}
+
+// A recording: each segment's hands held for its number of frames, back to back
+export const recordFrames = (segments: FixtureSegment[], startMs = 0): HandFrame[] => {
+  const frames: HandFrame[] = [];
+  segments.forEach(({ hands, frames: count }) => {
+    for (let i = 0; i < count; i++) frames.push(handFrame(hands, startMs + frames.length * FRAME_MS));
+  });
+  return frames;
+};
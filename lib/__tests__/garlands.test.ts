@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createGarlandStrands,
+  DEFAULT_GARLAND_SETTINGS,
+  MAX_GARLAND_SPACING,
+  MAX_GARLAND_STRANDS,
+  MIN_GARLAND_SPACING,
+  parseGarlandSettings,
+} from '../garlands';
+import { createRandom } from '../random';
+import { DEFAULT_TREE_SHAPE, treeRadiusAt } from '../treeShape';
+
+describe('parseGarlandSettings', () => {
+  it('keeps settings the sliders can produce', () => {
+    const settings = { strands: MAX_GARLAND_STRANDS, spacing: MIN_GARLAND_SPACING, style: 'lights' };
+    expect(parseGarlandSettings(settings)).toEqual(settings);
+    expect(parseGarlandSettings({ strands: 0, spacing: MAX_GARLAND_SPACING, style: 'beads' })).not.toBeNull();
+  });
+
+  it('fills in missing fields from the defaults', () => {
+    expect(parseGarlandSettings({ style: 'beads' })).toEqual({ ...DEFAULT_GARLAND_SETTINGS, style: 'beads' });
+    expect(parseGarlandSettings({})).toEqual(DEFAULT_GARLAND_SETTINGS);
+  });
+
+  it('drops fields it does not know', () => {
+    expect(parseGarlandSettings({ ...DEFAULT_GARLAND_SETTINGS, color: 'red' })).toEqual(DEFAULT_GARLAND_SETTINGS);
+  });
+
+  it.each([
+    ['a fractional strand count', { strands: 1.5 }],
+    ['a negative strand count', { strands: -1 }],
+    ['too many strands', { strands: MAX_GARLAND_STRANDS + 1 }],
+    ['a strand count as text', { strands: '2' }],
+    ['spacing below the range', { spacing: MIN_GARLAND_SPACING - 0.1 }],
+    ['spacing above the range', { spacing: MAX_GARLAND_SPACING + 0.1 }],
+    ['spacing that is not a number', { spacing: NaN }],
+    ['an unknown style', { style: 'ribbon' }],
+  ])('rejects %s', (_, change) => {
+    expect(parseGarlandSettings({ ...DEFAULT_GARLAND_SETTINGS, ...change })).toBeNull();
+  });
+
+  it('rejects data that is not an object', () => {
+    expect(parseGarlandSettings(null)).toBeNull();
+    expect(parseGarlandSettings('tinsel')).toBeNull();
+  });
+});
+
+describe('createGarlandStrands', () => {
+  it('builds one strand per count, the same ones for the same seed', () => {
+    const build = (seed: number) => createGarlandStrands(DEFAULT_TREE_SHAPE, 3, 3, createRandom(seed, 'garlands'));
+    const strands = build(7);
+    expect(strands).toHaveLength(3);
+    expect(strands.map(strand => strand.chaos.getPoint(0.5))).toEqual(build(7).map(strand => strand.chaos.getPoint(0.5)));
+    expect(strands[0].chaos.getPoint(0.5)).not.toEqual(build(8)[0].chaos.getPoint(0.5));
+  });
+
+  it('wraps the formed curve just outside the tree from bottom to top', () => {
+    const [strand] = createGarlandStrands(DEFAULT_TREE_SHAPE, 1, 3, createRandom(1));
+    const start = strand.formed.getPoint(0);
+    const end = strand.formed.getPoint(1);
+    expect(start.y).toBeLessThan(end.y);
+    expect(end.y).toBeLessThan(DEFAULT_TREE_SHAPE.height);
+
+    const t = start.y / DEFAULT_TREE_SHAPE.height;
+    expect(Math.hypot(start.x, start.z)).toBeGreaterThan(treeRadiusAt(DEFAULT_TREE_SHAPE, t));
+  });
+});
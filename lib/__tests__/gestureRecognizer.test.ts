@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType } from '../../types';
+import { classifyHand, createGestureRecognizer, GestureEvent, HandFrame, poseOfHand } from '../gestureRecognizer';
+import { FixturePose, FRAME_MS, handLandmarks, recordFrames } from './fixtures/hands';
+
+const replay = (frames: HandFrame[]) => {
+  const recognizer = createGestureRecognizer();
+  const events: GestureEvent[] = [];
+  frames.forEach(frame => events.push(...recognizer.process(frame).events));
+  return events;
+};
+
+// Frames, counted from 0, that each event fired on
+const firedOn = (events: GestureEvent[]) => events.map(event => Math.round(event.timestamp / FRAME_MS));
+
+describe('classifyHand', () => {
+  const poses: [FixturePose, GestureType][] = [
+    ['open', GestureType.OPEN_PALM],
+    ['fist', GestureType.FIST],
+    ['victory', GestureType.VICTORY],
+    ['thumbsUp', GestureType.THUMBS_UP],
+    ['thumbsDown', GestureType.THUMBS_DOWN],
+  ];
+
+  it.each(poses)('recognizes the %s fixture', (pose, expected) => {
+    expect(poseOfHand(classifyHand(handLandmarks({ pose })), 'right')).toBe(expected);
+  });
+
+  it('names a pinch after the hand making it', () => {
+    const pinch = classifyHand(handLandmarks({ pose: 'pinch' }));
+    expect(poseOfHand(pinch, 'left')).toBe(GestureType.PINCH_LEFT);
+    expect(poseOfHand(pinch, 'right')).toBe(GestureType.PINCH_RIGHT);
+  });
+});
+
+describe('createGestureRecognizer', () => {
+  it('fires a held pose once it has lasted its hold frames', () => {
+    const events = replay(recordFrames([{ hands: [{ pose: 'fist' }], frames: 30 }]));
+    expect(events.map(event => event.type)).toEqual([GestureType.FIST]);
+    expect(firedOn(events)).toEqual([5]); // The sixth frame: more than 5 held
+  });
+
+  it('does not fire a one-shot pose again until it is released', () => {
+    const events = replay(recordFrames([
+      { hands: [{ pose: 'open' }], frames: 20 },
+      { hands: [{ pose: 'fist' }], frames: 10 },
+      { hands: [{ pose: 'open' }], frames: 20 },
+    ]));
+    expect(events.filter(event => event.type === GestureType.OPEN_PALM)).toHaveLength(2);
+  });
+
+  it('repeats a held pinch no faster than its cooldown', () => {
+    const events = replay(recordFrames([{ hands: [{ pose: 'pinch' }], frames: 60 }]));
+    expect(events.every(event => event.type === GestureType.PINCH_RIGHT)).toBe(true);
+    expect(firedOn(events)[0]).toBe(5);
+    expect(events).toHaveLength(4);
+    // Each repeat comes on the first frame past the 500 ms cooldown
+    for (let i = 1; i < events.length; i++) {
+      const gap = events[i].timestamp - events[i - 1].timestamp;
+      expect(gap).toBeGreaterThan(500);
+      expect(gap).toBeLessThanOrEqual(500 + FRAME_MS);
+    }
+  });
+
+  it('keeps the victory cooldown across separate holds', () => {
+    const events = replay(recordFrames([
+      { hands: [{ pose: 'victory' }], frames: 10 },
+      { hands: [{ pose: 'fist' }], frames: 10 },
+      { hands: [{ pose: 'victory' }], frames: 10 }, // Within 2 s of the first: ignored
+      { hands: [{ pose: 'fist' }], frames: 40 },
+      { hands: [{ pose: 'victory' }], frames: 10 },
+    ]));
+    expect(firedOn(events.filter(event => event.type === GestureType.VICTORY))).toEqual([5, 75]);
+  });
+
+  it('rides out a frame without a hand in the middle of a hold', () => {
+    const events = replay(recordFrames([
+      { hands: [{ pose: 'fist' }], frames: 4 },
+      { hands: [], frames: 1 },
+      { hands: [{ pose: 'fist' }], frames: 3 },
+    ]));
+    // 4 held, decayed to 3, then 3 more: fires on the third frame back
+    expect(firedOn(events)).toEqual([7]);
+  });
+
+  it('reports confidence growing with the hold', () => {
+    const recognizer = createGestureRecognizer();
+    const confidences = recordFrames([{ hands: [{ pose: 'fist' }], frames: 8 }])
+      .map(frame => recognizer.process(frame).confidence);
+    expect(confidences[0]).toBeCloseTo(1 / 6);
+    expect(confidences[7]).toBe(1);
+  });
+
+  it('treats both hands pinching as the two-hand grab, not a pinch', () => {
+    const recognizer = createGestureRecognizer();
+    const frames = recordFrames([{
+      hands: [
+        { pose: 'pinch', x: 0.3, handedness: 'Left' },
+        { pose: 'pinch', x: 0.7, handedness: 'Right' },
+      ],
+      frames: 20,
+    }]);
+    const results = frames.map(frame => recognizer.process(frame));
+    expect(results.flatMap(result => result.events)).toEqual([]);
+    expect(results[results.length - 1].twoHandPinch).not.toBeNull();
+  });
+
+  it('tells the hands apart by their handedness labels', () => {
+    const recognizer = createGestureRecognizer();
+    const frames = recordFrames([{
+      hands: [
+        { pose: 'fist', x: 0.3, handedness: 'Right' }, // Mirrored: the user's left hand
+        { pose: 'open', x: 0.7, handedness: 'Left' },
+      ],
+      frames: 10,
+    }]);
+    const events = frames.flatMap(frame => recognizer.process(frame).events);
+    expect(events.map(({ type, hand }) => ({ type, hand }))).toEqual([
+      { type: GestureType.FIST, hand: 'left' },
+      { type: GestureType.OPEN_PALM, hand: 'right' },
+    ]);
+  });
+
+  it('forgets holds and cooldowns on reset', () => {
+    const recognizer = createGestureRecognizer();
+    const frames = recordFrames([{ hands: [{ pose: 'victory' }], frames: 10 }]);
+    frames.forEach(frame => recognizer.process(frame));
+    recognizer.reset();
+
+    // Replaying from the start of the recording, as a looping replay does
+    const events = frames.flatMap(frame => recognizer.process(frame).events);
+    expect(firedOn(events)).toEqual([5]);
+  });
+});
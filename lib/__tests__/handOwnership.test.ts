@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { createHandOwnership, OwnershipResult } from '../handOwnership';
+import { FixtureHand, FRAME_MS, handFrame } from './fixtures/hands';
+
+// An open palm raised above the claim line, and a hand resting lower down
+const raised = (x: number): FixtureHand => ({ pose: 'open', x, y: 0.2 });
+const resting = (x: number): FixtureHand => ({ pose: 'fist', x, y: 0.7 });
+
+// Feeds the same hands for `ms` milliseconds of 30 fps frames, returning the last result
+const hold = (ownership: ReturnType<typeof createHandOwnership>, hands: FixtureHand[], from: number, ms: number) => {
+  let result: OwnershipResult | null = null;
+  for (let t = from; t <= from + ms; t += FRAME_MS) result = ownership.process(handFrame(hands, t));
+  return result!;
+};
+
+describe('createHandOwnership', () => {
+  it('keeps a hand\'s id while it moves a little between frames', () => {
+    const ownership = createHandOwnership();
+    const first = ownership.process(handFrame([resting(0.3), resting(0.7)], 0));
+    const second = ownership.process(handFrame([resting(0.72), resting(0.32)], FRAME_MS));
+    expect(second.hands.map(hand => hand.id)).toEqual([first.hands[1].id, first.hands[0].id]);
+  });
+
+  it('hands control to a raised open palm held for the claim time', () => {
+    const ownership = createHandOwnership();
+    const halfway = hold(ownership, [raised(0.3)], 0, 500);
+    expect(halfway.controllerId).toBeNull();
+    expect(halfway.hands[0].claimProgress).toBeCloseTo(0.5, 1);
+
+    const claimed = hold(ownership, [raised(0.3)], 500 + FRAME_MS, 600);
+    expect(claimed.controllerId).toBe(claimed.hands[0].id);
+    expect(claimed.controllerIndex).toBe(0);
+  });
+
+  it('does not let anyone take over while the controller is in frame', () => {
+    const ownership = createHandOwnership();
+    const claimed = hold(ownership, [raised(0.3)], 0, 1100);
+    const controllerId = claimed.controllerId;
+
+    const contested = hold(ownership, [raised(0.3), raised(0.7)], 1100 + FRAME_MS, 2000);
+    expect(contested.controllerId).toBe(controllerId);
+    expect(contested.hands[1].isController).toBe(false);
+  });
+
+  it('does not give an absent controller\'s id to a hand that shows up where it was', () => {
+    const ownership = createHandOwnership();
+    const claimed = hold(ownership, [raised(0.3)], 0, 1100);
+    const controllerId = claimed.controllerId;
+
+    // Gone for longer than forgetAfterMs, but not yet released
+    ownership.process(handFrame([], 1100 + FRAME_MS));
+    const stranger = ownership.process(handFrame([{ pose: 'fist', x: 0.3, y: 0.2 }], 1700));
+    expect(stranger.hands[0].id).not.toBe(controllerId);
+    expect(stranger.hands[0].isController).toBe(false);
+    expect(stranger.controllerId).toBe(controllerId);
+    expect(stranger.controllerIndex).toBe(-1);
+  });
+
+  it.each([1, 2])('keeps control through %i missed detections', missed => {
+    const ownership = createHandOwnership();
+    const claimed = hold(ownership, [raised(0.3)], 0, 1100);
+    const controllerId = claimed.controllerId;
+
+    let t = 1100;
+    for (let i = 0; i < missed; i++) ownership.process(handFrame([], (t += FRAME_MS)));
+    const back = ownership.process(handFrame([{ pose: 'fist', x: 0.3, y: 0.2 }], t + FRAME_MS));
+    expect(back.hands[0].id).toBe(controllerId);
+    expect(back.hands[0].isController).toBe(true);
+    expect(back.controllerIndex).toBe(0);
+  });
+
+  it('lets another hand claim once the controller has left', () => {
+    const ownership = createHandOwnership();
+    const claimed = hold(ownership, [raised(0.3)], 0, 1100);
+
+    const newcomer = hold(ownership, [raised(0.7)], 1100 + FRAME_MS, 1100);
+    expect(newcomer.controllerId).not.toBeNull();
+    expect(newcomer.controllerId).not.toBe(claimed.controllerId);
+    expect(newcomer.hands[0].isController).toBe(true);
+  });
+
+  it('releases control after the controller has been gone for the grace period', () => {
+    const ownership = createHandOwnership();
+    hold(ownership, [raised(0.3)], 0, 1100);
+
+    expect(ownership.process(handFrame([], 2000)).controllerId).not.toBeNull();
+    expect(ownership.process(handFrame([], 3200)).controllerId).toBeNull();
+  });
+
+  it('forgets everything on reset', () => {
+    const ownership = createHandOwnership();
+    hold(ownership, [raised(0.3)], 0, 1100);
+    ownership.reset();
+
+    const result = ownership.process(handFrame([resting(0.3)], 0));
+    expect(result.controllerId).toBeNull();
+    expect(result.hands[0].id).toBe(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType } from '../../types';
+import { createMotionGestureDetector, MotionThresholds } from '../motionGestures';
+import { FRAME_MS } from './fixtures/hands';
+
+type Path = (t: number) => { x: number; y: number }; // Palm position after t seconds
+
+// Feeds a palm trajectory at 30 fps and collects what the detector reports
+const track = (path: Path, seconds: number, thresholds: Partial<MotionThresholds> = {}) => {
+  const detector = createMotionGestureDetector(thresholds);
+  const motions: GestureType[] = [];
+  for (let ms = 0; ms <= seconds * 1000; ms += FRAME_MS) {
+    const motion = detector.process(path(ms / 1000), ms);
+    if (motion) motions.push(motion);
+  }
+  return motions;
+};
+
+// Straight line at `speed` image units per second along (dx, dy)
+const line = (dx: number, dy: number, speed: number): Path => t => ({ x: 0.5 + dx * speed * t, y: 0.5 + dy * speed * t });
+
+const circle = (radius: number, turnsPerSecond: number): Path => t => ({
+  x: 0.5 + radius * Math.cos(t * turnsPerSecond * Math.PI * 2),
+  y: 0.5 + radius * Math.sin(t * turnsPerSecond * Math.PI * 2),
+});
+
+describe('createMotionGestureDetector', () => {
+  it('reports a fast swipe in the direction the user moved, undoing the mirror', () => {
+    expect(track(line(-1, 0, 2), 0.15)).toEqual([GestureType.SWIPE_RIGHT]);
+    expect(track(line(1, 0, 2), 0.15)).toEqual([GestureType.SWIPE_LEFT]);
+  });
+
+  it('reports a quick upward flick', () => {
+    expect(track(line(0, -1, 2), 0.15)).toEqual([GestureType.FLICK_UP]);
+  });
+
+  it('ignores slow movement and diagonal strokes', () => {
+    expect(track(line(1, 0, 0.5), 0.6)).toEqual([]);
+    expect(track(line(1, -1, 2), 0.25)).toEqual([]);
+  });
+
+  it('follows the swipe speed threshold', () => {
+    expect(track(line(1, 0, 1.2), 0.2)).toEqual([]);
+    expect(track(line(1, 0, 1.2), 0.2, { swipeVelocity: 1 })).toEqual([GestureType.SWIPE_LEFT]);
+  });
+
+  it('reports a stir for circling fast enough, once per turn', () => {
+    const motions = track(circle(0.05, 1), 2.1);
+    expect(motions.length).toBeGreaterThanOrEqual(1);
+    expect(motions.length).toBeLessThanOrEqual(2);
+    expect(motions.every(motion => motion === GestureType.STIR)).toBe(true);
+  });
+
+  it('ignores circling that is too slow or too small', () => {
+    expect(track(circle(0.05, 0.3), 2)).toEqual([]);
+    expect(track(circle(0.01, 1), 2)).toEqual([]);
+  });
+
+  it('forgets the trajectory when the hand is lost', () => {
+    const detector = createMotionGestureDetector();
+    const path = line(1, 0, 2);
+    let motion: GestureType | null = null;
+    for (let ms = 0; ms <= 200; ms += FRAME_MS) {
+      // The hand drops out halfway through the stroke, leaving two halves too short to count
+      motion = detector.process(ms > 90 && ms < 110 ? null : path(ms / 1000), ms) ?? motion;
+    }
+    expect(motion).toBeNull();
+  });
+});
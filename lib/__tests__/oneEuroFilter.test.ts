@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createOneEuroFilter } from '../oneEuroFilter';
+
+describe('createOneEuroFilter', () => {
+  it('passes the first sample straight through', () => {
+    expect(createOneEuroFilter().filter(0.42, 1000)).toBe(0.42);
+  });
+
+  it('smooths a jump and then settles on the new value', () => {
+    const filter = createOneEuroFilter();
+    filter.filter(0, 0);
+    const first = filter.filter(1, 33);
+    expect(first).toBeGreaterThan(0);
+    expect(first).toBeLessThan(1);
+
+    let value = first;
+    for (let t = 66; t < 3000; t += 33) value = filter.filter(1, t);
+    expect(value).toBeCloseTo(1, 3);
+  });
+
+  it('follows fast movement more closely than slow movement', () => {
+    const lag = (step: number) => {
+      const filter = createOneEuroFilter();
+      let value = 0;
+      for (let i = 0; i <= 10; i++) value = filter.filter(i * step, i * 33);
+      return (10 * step - value) / step;
+    };
+    expect(lag(0.1)).toBeLessThan(lag(0.001));
+  });
+
+  it('holds its value for samples that are not newer than the last one', () => {
+    const filter = createOneEuroFilter();
+    filter.filter(0, 100);
+    const value = filter.filter(1, 133);
+    expect(filter.filter(5, 133)).toBe(value);
+    expect(filter.filter(5, 120)).toBe(value);
+  });
+
+  it('starts over after reset, even when the clock restarts', () => {
+    const filter = createOneEuroFilter();
+    filter.filter(0, 5000);
+    filter.filter(0, 5033);
+    filter.reset();
+
+    // A looping replay starts its timestamps from zero again
+    expect(filter.filter(1, 0)).toBe(1);
+    const next = filter.filter(2, 33);
+    expect(next).toBeGreaterThan(1);
+    expect(next).toBeLessThan(2);
+  });
+});
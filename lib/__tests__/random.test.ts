@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRandom, isSeed, loadSceneSeed, MAX_SEED, MAX_SEED_HISTORY, replaceSeed, restoreSeed, shuffleSeed } from '../random';
+
+const draw = (seed: number, label = '', count = 5) => {
+  const random = createRandom(seed, label);
+  return Array.from({ length: count }, () => random());
+};
+
+describe('createRandom', () => {
+  it('repeats the same stream for the same seed and label', () => {
+    expect(draw(42, 'foliage')).toEqual(draw(42, 'foliage'));
+  });
+
+  it('gives each seed and each label its own stream', () => {
+    expect(draw(42, 'foliage')).not.toEqual(draw(43, 'foliage'));
+    expect(draw(42, 'foliage')).not.toEqual(draw(42, 'ornaments'));
+  });
+
+  it('stays within [0, 1)', () => {
+    draw(MAX_SEED, 'range', 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('isSeed', () => {
+  it('accepts 32-bit unsigned integers only', () => {
+    expect(isSeed(0)).toBe(true);
+    expect(isSeed(MAX_SEED)).toBe(true);
+    [-1, MAX_SEED + 1, 1.5, NaN, '7', null].forEach(value => expect(isSeed(value)).toBe(false));
+  });
+});
+
+describe('seed history', () => {
+  it('keeps the replaced seed so it can be restored', () => {
+    const next = replaceSeed({ seed: 1, history: [] }, 2);
+    expect(next).toEqual({ seed: 2, history: [1] });
+    expect(restoreSeed(next)).toEqual({ seed: 1, history: [] });
+  });
+
+  it('leaves the state alone when nothing changes', () => {
+    const state = { seed: 1, history: [] };
+    expect(replaceSeed(state, 1)).toBe(state);
+    expect(restoreSeed(state)).toBe(state);
+  });
+
+  it('remembers only the most recent seeds', () => {
+    let state = { seed: 0, history: [] as number[] };
+    for (let seed = 1; seed <= MAX_SEED_HISTORY + 5; seed++) state = replaceSeed(state, seed);
+    expect(state.history).toHaveLength(MAX_SEED_HISTORY);
+    expect(state.history[state.history.length - 1]).toBe(MAX_SEED_HISTORY + 4);
+  });
+
+  it('shuffles to a new valid seed', () => {
+    const state = shuffleSeed({ seed: 1, history: [] });
+    expect(isSeed(state.seed)).toBe(true);
+  });
+});
+
+describe('loadSceneSeed', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubStorage = (stored: string | null) => {
+    vi.stubGlobal('localStorage', { getItem: () => stored, setItem: () => {} });
+  };
+
+  it('restores a stored seed, dropping invalid history entries', () => {
+    stubStorage(JSON.stringify({ seed: 5, history: [1, -2, 'x', 3] }));
+    expect(loadSceneSeed()).toEqual({ seed: 5, history: [1, 3] });
+  });
+
+  it('starts from a fresh seed when nothing usable is stored', () => {
+    stubStorage('{"seed": 1.5}');
+    const state = loadSceneSeed();
+    expect(isSeed(state.seed)).toBe(true);
+    expect(state.history).toEqual([]);
+  });
+});
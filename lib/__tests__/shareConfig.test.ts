@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseShareConfig } from '../shareConfig';
+
+describe('parseShareConfig', () => {
+  it('keeps every field it understands', () => {
+    const config = {
+      theme: 'winter',
+      topper: { id: 'custom', path: 'M 0 0 L 10 0 L 5 8 Z' },
+      seed: 123456,
+      treeShape: { height: 12, baseRadius: 5, layers: 3, profile: 'fir' },
+      garlands: { strands: 3, spacing: 2.5, style: 'beads' },
+    };
+    expect(parseShareConfig(config)).toEqual(config);
+  });
+
+  it('returns nothing for data that is not an object', () => {
+    expect(parseShareConfig(null)).toEqual({});
+    expect(parseShareConfig('luxury')).toEqual({});
+    expect(parseShareConfig(42)).toEqual({});
+  });
+
+  it('drops unknown fields and invalid values, keeping the rest', () => {
+    expect(parseShareConfig({ theme: 'neon', seed: 7, extra: true })).toEqual({ seed: 7 });
+  });
+
+  it.each([-1, 1.5, 2 ** 32, '7'])('rejects the seed %s', seed => {
+    expect(parseShareConfig({ seed })).toEqual({});
+  });
+
+  it('rejects unknown toppers and custom toppers without a usable path', () => {
+    expect(parseShareConfig({ topper: { id: 'comet' } })).toEqual({});
+    expect(parseShareConfig({ topper: { id: 'custom' } })).toEqual({});
+    expect(parseShareConfig({ topper: { id: 'custom', path: 'M1,,2' } })).toEqual({});
+    expect(parseShareConfig({ topper: { id: 'custom', path: '1 2 L 3 4' } })).toEqual({});
+    expect(parseShareConfig({ topper: { id: 'custom', path: `M 0 0 ${'L 1 1 '.repeat(2000)}` } })).toEqual({});
+  });
+
+  it('keeps only the id of a built-in topper', () => {
+    expect(parseShareConfig({ topper: { id: 'bow', path: 'M 0 0' } })).toEqual({ topper: { id: 'bow' } });
+  });
+
+  it('rejects tree shapes outside the slider ranges', () => {
+    const shape = { height: 12, baseRadius: 5, layers: 3, profile: 'cone' };
+    expect(parseShareConfig({ treeShape: { ...shape, height: 100 } })).toEqual({});
+    expect(parseShareConfig({ treeShape: { ...shape, baseRadius: 0 } })).toEqual({});
+    expect(parseShareConfig({ treeShape: { ...shape, layers: 12 } })).toEqual({});
+    expect(parseShareConfig({ treeShape: { ...shape, profile: 'palm' } })).toEqual({});
+    expect(parseShareConfig({ treeShape: { ...shape, height: '12' } })).toEqual({});
+  });
+
+  it('rounds a tree shape\'s layers to whole layers', () => {
+    const shape = { height: 12, baseRadius: 5, layers: 2.6, profile: 'cone' };
+    expect(parseShareConfig({ treeShape: shape }).treeShape?.layers).toBe(3);
+  });
+
+  it('rejects garland settings outside the allowed ranges', () => {
+    const garlands = { strands: 3, spacing: 2.5, style: 'tinsel' };
+    expect(parseShareConfig({ garlands: { ...garlands, strands: 1.5 } })).toEqual({});
+    expect(parseShareConfig({ garlands: { ...garlands, strands: 100 } })).toEqual({});
+    expect(parseShareConfig({ garlands: { ...garlands, spacing: 0 } })).toEqual({});
+    expect(parseShareConfig({ garlands: { ...garlands, style: 'ribbon' } })).toEqual({});
+  });
+});
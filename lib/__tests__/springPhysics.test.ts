@@ -0,0 +1,50 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { createHandBrush, createSpringField, ORNAMENT_SPRING, PHOTO_SPRING } from '../springPhysics';
+
+const still = { ...ORNAMENT_SPRING, wind: 0 };
+
+describe('createSpringField', () => {
+  it('stays at rest with no wind and no hand', () => {
+    const springs = createSpringField(3, still);
+    springs.step(new Float32Array(9), 0, 1 / 60);
+    expect(springs.atRest()).toBe(true);
+    expect(Array.from(springs.offsets)).toEqual(new Array(9).fill(0));
+  });
+
+  it('is pushed aside by the hand and settles back once it leaves', () => {
+    const springs = createSpringField(1, still);
+    const anchors = new Float32Array([0.2, 0, 0]);
+    const brush = createHandBrush(1);
+    brush.active = true;
+    brush.origin.set(0, 0, 10);
+
+    springs.step(anchors, 0, 1 / 30, brush);
+    expect(springs.offsets[0]).toBeGreaterThan(0); // Away from the ray, sideways
+    expect(springs.atRest()).toBe(false);
+
+    brush.active = false;
+    for (let i = 0; i < 600; i++) springs.step(anchors, i / 60, 1 / 60, brush);
+    expect(springs.atRest()).toBe(true);
+    expect(Math.abs(springs.offsets[0])).toBeLessThan(1e-3);
+  });
+
+  it('never drifts further than maxOffset from its anchor', () => {
+    const springs = createSpringField(1, { ...still, brush: 1e6 });
+    const brush = createHandBrush(1);
+    brush.active = true;
+    brush.origin.set(0, 0, 10);
+    brush.velocity.set(100, 0, 0);
+    springs.step(new Float32Array([0.1, 0, 0]), 0, 1 / 30, brush);
+    expect(new THREE.Vector3().fromArray(springs.offsets).length()).toBeLessThanOrEqual(still.maxOffset + 1e-6);
+  });
+
+  it('does not replay a long stall, however long', () => {
+    const springs = createSpringField(500, PHOTO_SPRING);
+    const anchors = new Float32Array(1500);
+    const start = performance.now();
+    springs.step(anchors, 0, 60 * 60); // An hour in a hidden tab
+    expect(performance.now() - start).toBeLessThan(100);
+    springs.offsets.forEach(value => expect(Number.isFinite(value)).toBe(true));
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TOPPER_PATH_LENGTH, parseTopperConfig, TOPPERS } from '../toppers';
+
+const custom = (path: unknown) => parseTopperConfig({ id: 'custom', path });
+
+describe('parseTopperConfig', () => {
+  it('accepts every built-in topper by id alone', () => {
+    TOPPERS.filter(topper => topper.id !== 'custom').forEach(topper => {
+      expect(parseTopperConfig({ id: topper.id, path: 'M 0 0' })).toEqual({ id: topper.id });
+    });
+  });
+
+  it('rejects unknown ids and data that is not an object', () => {
+    expect(parseTopperConfig({ id: 'comet' })).toBeNull();
+    expect(parseTopperConfig('star5')).toBeNull();
+    expect(parseTopperConfig(null)).toBeNull();
+  });
+
+  it('needs a custom topper to bring its path', () => {
+    expect(custom(undefined)).toBeNull();
+    expect(custom('')).toBeNull();
+    expect(custom(42)).toBeNull();
+    expect(custom(`M 0 0 ${'L 1 1 '.repeat(MAX_TOPPER_PATH_LENGTH)}`)).toBeNull();
+  });
+
+  it.each([
+    ['spaces', 'M 0 0 L 10 0 L 5 8 Z'],
+    ['commas', 'M0,0 L10,0 L5,8z'],
+    ['numbers run together', 'M0-1.5.5L10 0'],
+    ['exponents', 'M 1e2 -2.5E-1 l 3e+1 0'],
+    ['every command letter', 'M0 0 H5 V5 h-1 v-1 C1 1 2 2 3 3 S4 4 5 5 Q6 6 7 7 T8 8 L9 9 m1 1 c0 0 0 0 0 0 s0 0 0 0 q0 0 0 0 t0 0 l1 1 Z'],
+    ['arcs with flags written together', 'M0 0 A5 5 0 1 0 10 0 a5,5 0 0,1 -10,0 A5 5 30 1110 10'],
+    ['surrounding whitespace', '  M 0 0 L 1 1  '],
+  ])('accepts a path with %s', (_, path) => {
+    expect(custom(path)).toEqual({ id: 'custom', path });
+  });
+
+  it.each([
+    ['numbers before the first command', '1 2 L 3 4'],
+    ['a doubled comma', 'M1,,2'],
+    ['a dangling sign', 'M -+1 2'],
+    ['an unknown command', 'M 0 0 X 1 1'],
+    ['markup', '<path d="M0 0"/>'],
+    ['an arc flag that is not 0 or 1', 'M0 0 A5 5 0 2 0 10 0'],
+  ])('rejects a path with %s', (_, path) => {
+    expect(custom(path)).toBeNull();
+  });
+});
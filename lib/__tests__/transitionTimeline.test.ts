@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  applyTransition,
+  Choreography,
+  CHOREOGRAPHIES,
+  createTransitionTimeline,
+  createTransitionUniforms,
+  EASINGS,
+  StaggerInput,
+  TransitionTrack,
+} from '../transitionTimeline';
+
+const at = (height: number, random = 0.5, angle = 0): StaggerInput => ({ height, angle, random });
+
+// Every group on the same track, forming and scattering alike
+const uniform = (track: TransitionTrack): Choreography => {
+  const tracks = { foliage: track, ornaments: track, garlands: track, photos: track, star: track };
+  return { id: 'test', label: 'test', form: tracks, scatter: tracks };
+};
+
+const LINEAR: TransitionTrack = { delay: 1, duration: 2, easing: 'linear', stagger: 'bottomUp', spread: 1 };
+
+describe('EASINGS', () => {
+  it.each(Object.entries(EASINGS))('%s runs from 0 to 1', (_, ease) => {
+    expect(ease(0)).toBeCloseTo(0);
+    expect(ease(1)).toBeCloseTo(1);
+  });
+});
+
+describe('createTransitionTimeline', () => {
+  it('stays put until played', () => {
+    const formed = createTransitionTimeline(true);
+    expect(formed.progress('foliage', at(0.5), 0)).toBe(1);
+    expect(formed.isSettled('foliage', 0)).toBe(true);
+    expect(createTransitionTimeline(false).progress('foliage', at(0.5), 0)).toBe(0);
+  });
+
+  it('waits out the delay and the element\'s place in the stagger', () => {
+    const timeline = createTransitionTimeline(false, uniform(LINEAR));
+    timeline.play({ foliage: true }, 10);
+
+    expect(timeline.progress('foliage', at(0), 11)).toBe(0);
+    expect(timeline.progress('foliage', at(0), 12)).toBeCloseTo(0.5);
+    // The top starts a full spread later
+    expect(timeline.progress('foliage', at(1), 12)).toBe(0);
+    expect(timeline.progress('foliage', at(1), 13)).toBeCloseTo(0.5);
+    expect(timeline.progress('foliage', at(1), 14)).toBe(1);
+  });
+
+  it('counts as settled once the last element has arrived', () => {
+    const timeline = createTransitionTimeline(false, uniform(LINEAR));
+    timeline.play({ foliage: true }, 0);
+    expect(timeline.isSettled('foliage', 3.9)).toBe(false);
+    expect(timeline.isSettled('foliage', 4)).toBe(true);
+    // Groups that weren't played stay settled
+    expect(timeline.isSettled('star', 0.5)).toBe(true);
+  });
+
+  it('orders the spiral by turn within each band of height', () => {
+    const spiral = createTransitionTimeline(false, uniform({ ...LINEAR, delay: 0, stagger: 'spiral' }));
+    spiral.play({ foliage: true }, 0);
+    const low = spiral.progress('foliage', at(0.1, 0.5, 0), 1.5);
+    const lowLaterInTurn = spiral.progress('foliage', at(0.1, 0.5, Math.PI), 1.5);
+    const high = spiral.progress('foliage', at(0.9, 0.5, 0), 1.5);
+    expect(low).toBeGreaterThan(lowLaterInTurn);
+    expect(lowLaterInTurn).toBeGreaterThan(high);
+  });
+
+  it('picks up a reversal from where the group is instead of jumping', () => {
+    const timeline = createTransitionTimeline(false, uniform({ ...LINEAR, delay: 0, stagger: 'none', spread: 0 }));
+    timeline.play({ foliage: true }, 0);
+    const before = timeline.progress('foliage', at(0.5), 0.5);
+    expect(before).toBeCloseTo(0.25);
+
+    timeline.play({ foliage: false }, 0.5);
+    expect(timeline.progress('foliage', at(0.5), 0.5)).toBeCloseTo(before, 4);
+    expect(timeline.progress('foliage', at(0.5), 0.75)).toBeCloseTo(0.125, 4);
+  });
+
+  it('resumes an eased reversal at the same eased progress', () => {
+    const timeline = createTransitionTimeline(false, uniform({ delay: 0, duration: 1, easing: 'cubicInOut', stagger: 'none', spread: 0 }));
+    timeline.play({ foliage: true }, 0);
+    const before = timeline.progress('foliage', at(0.5), 0.3);
+    timeline.play({ foliage: false }, 0.3);
+    expect(timeline.progress('foliage', at(0.5), 0.3)).toBeCloseTo(before, 4);
+  });
+
+  it('calls back once every played group has settled', () => {
+    const timeline = createTransitionTimeline(false, CHOREOGRAPHIES[0]);
+    const done = vi.fn();
+    timeline.play({ foliage: true, star: true }, 0, done);
+
+    timeline.tick(1);
+    expect(done).not.toHaveBeenCalled();
+    timeline.tick(10);
+    timeline.tick(11);
+    expect(done).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls back straight away when nothing has to move', () => {
+    const timeline = createTransitionTimeline(true);
+    const done = vi.fn();
+    timeline.play({ foliage: true }, 0, done);
+    expect(done).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows a new choreography from the next query', () => {
+    const timeline = createTransitionTimeline(false, uniform(LINEAR));
+    timeline.play({ foliage: true }, 0);
+    timeline.setChoreography(uniform({ ...LINEAR, delay: 0, spread: 0 }));
+    expect(timeline.progress('foliage', at(1), 1)).toBeCloseTo(0.5);
+  });
+});
+
+describe('applyTransition', () => {
+  it('hands the shader a finite clock and the track as indices', () => {
+    const timeline = createTransitionTimeline(true, uniform({ ...LINEAR, easing: 'bounceOut', stagger: 'spiral' }));
+    const uniforms = createTransitionUniforms();
+
+    // Never played: startedAt is -Infinity
+    applyTransition(uniforms, timeline, 'foliage', 5);
+    expect(Number.isFinite(uniforms.uTransitionElapsed.value)).toBe(true);
+    expect(uniforms.uTransitionFormed.value).toBe(1);
+    expect(uniforms.uTransitionEasing.value).toBe(4);
+    expect(uniforms.uTransitionStagger.value).toBe(4);
+
+    timeline.play({ foliage: false }, 5);
+    applyTransition(uniforms, timeline, 'foliage', 6.5);
+    expect(uniforms.uTransitionElapsed.value).toBeCloseTo(1.5);
+    expect(uniforms.uTransitionFormed.value).toBe(0);
+    expect(uniforms.uTransitionDelay.value).toBe(1);
+    expect(uniforms.uTransitionDuration.value).toBe(2);
+    expect(uniforms.uTransitionSpread.value).toBe(1);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createTwoHandManipulator, PinchPoint, publishManipulation, subscribeManipulation } from '../twoHandManipulation';
+
+const pair = (a: PinchPoint, b: PinchPoint): [PinchPoint, PinchPoint] => [a, b];
+
+describe('createTwoHandManipulator', () => {
+  it('only sets the baseline on the first frame of a grab', () => {
+    const manipulator = createTwoHandManipulator();
+    expect(manipulator.update(pair({ x: 0.3, y: 0.5 }, { x: 0.5, y: 0.5 }))).toEqual({ zoom: 1, rotation: 0 });
+  });
+
+  it('zooms in as the hands move apart and out as they come together', () => {
+    const manipulator = createTwoHandManipulator();
+    manipulator.update(pair({ x: 0.4, y: 0.5 }, { x: 0.6, y: 0.5 }));
+    expect(manipulator.update(pair({ x: 0.38, y: 0.5 }, { x: 0.62, y: 0.5 }))!.zoom).toBeCloseTo(0.2 / 0.24);
+    expect(manipulator.update(pair({ x: 0.4, y: 0.5 }, { x: 0.6, y: 0.5 }))!.zoom).toBeCloseTo(0.24 / 0.2);
+  });
+
+  it('clamps a single frame\'s zoom to ride out tracking glitches', () => {
+    const manipulator = createTwoHandManipulator({ maxZoomStep: 1.25 });
+    manipulator.update(pair({ x: 0.45, y: 0.5 }, { x: 0.55, y: 0.5 }));
+    expect(manipulator.update(pair({ x: 0.1, y: 0.5 }, { x: 0.9, y: 0.5 }))!.zoom).toBeCloseTo(1 / 1.25);
+  });
+
+  it('turns a twist of the hands into a rotation, mirrored like the preview', () => {
+    const manipulator = createTwoHandManipulator({ rotationGain: 1 });
+    manipulator.update(pair({ x: 0.4, y: 0.5 }, { x: 0.6, y: 0.5 }));
+    // Right hand drops: positive angle in image space (y grows downward)
+    const delta = manipulator.update(pair({ x: 0.4, y: 0.5 }, { x: 0.6, y: 0.6 }))!;
+    expect(delta.rotation).toBeCloseTo(-Math.atan2(0.1, 0.2));
+  });
+
+  it('does not jump when the hands swap places in the landmark list', () => {
+    const manipulator = createTwoHandManipulator();
+    const left = { x: 0.4, y: 0.5 };
+    const right = { x: 0.6, y: 0.52 };
+    manipulator.update(pair(left, right));
+    const delta = manipulator.update(pair(right, left))!;
+    expect(delta.zoom).toBeCloseTo(1);
+    expect(delta.rotation).toBeCloseTo(0);
+  });
+
+  it('starts a new baseline after the grab is released', () => {
+    const manipulator = createTwoHandManipulator();
+    manipulator.update(pair({ x: 0.4, y: 0.5 }, { x: 0.6, y: 0.5 }));
+    expect(manipulator.update(null)).toBeNull();
+    expect(manipulator.update(pair({ x: 0.1, y: 0.2 }, { x: 0.9, y: 0.7 }))).toEqual({ zoom: 1, rotation: 0 });
+  });
+});
+
+describe('subscribeManipulation', () => {
+  it('delivers published deltas until unsubscribed', () => {
+    const received: number[] = [];
+    const unsubscribe = subscribeManipulation(delta => received.push(delta.zoom));
+    publishManipulation({ zoom: 0.9, rotation: 0 });
+    unsubscribe();
+    publishManipulation({ zoom: 1.1, rotation: 0 });
+    expect(received).toEqual([0.9]);
+  });
+});
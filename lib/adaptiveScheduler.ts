@@ -0,0 +1,73 @@
+/**
+ * Decides how often to run hand detection based on how the render loop is doing.
+ *
+ * Every requestAnimationFrame reports its timestamp; when frames get slower than the
+ * target the detection interval grows, and when rendering has headroom it shrinks back.
+ * The target comes from the frame time measured before the first detection, so a
+ * 120 Hz display and a laptop that only manages 30 fps are each held to their own pace.
+ */
+
+export interface AdaptiveSchedulerOptions {
+  minIntervalMs: number; // Fastest detection rate (~30 Hz)
+  maxIntervalMs: number; // Slowest rate; gesture hold frames stay responsive down to ~10 Hz
+  targetFrameMs?: number; // Render frame time we try to protect; measured before detection starts when omitted
+}
+
+export interface AdaptiveScheduler {
+  recordFrame: (now: number) => void;
+  shouldDetect: (now: number) => boolean;
+  markDetect: (now: number) => void;
+  getIntervalMs: () => number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: AdaptiveSchedulerOptions = {
+  minIntervalMs: 33,
+  maxIntervalMs: 100,
+};
+
+const BASELINE_FRAMES = 30; // Frames timed before detection starts (~0.5 s at 60 Hz)
+const BASELINE_HEADROOM = 60 / 55; // Let frames run ~10% slower than undisturbed before backing off
+
+export const createAdaptiveScheduler = (options: Partial<AdaptiveSchedulerOptions> = {}): AdaptiveScheduler => {
+  const { minIntervalMs, maxIntervalMs, targetFrameMs } = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+
+  let intervalMs = minIntervalMs;
+  let target = targetFrameMs ?? null;
+  let avgFrameMs = target ?? 0;
+  let lastFrame: number | null = null;
+  let lastDetect = -Infinity;
+  const baseline: number[] = [];
+
+  const recordFrame = (now: number) => {
+    const frameMs = lastFrame === null ? null : now - lastFrame;
+    lastFrame = now;
+    // Ignore huge gaps (background tab) so they don't throttle detection for seconds
+    if (frameMs === null || frameMs >= 500) return;
+
+    if (target === null) {
+      baseline.push(frameMs);
+      if (baseline.length < BASELINE_FRAMES) return;
+      // Median, so a hiccup while the page settles doesn't set the bar
+      const median = [...baseline].sort((a, b) => a - b)[Math.floor(baseline.length / 2)];
+      target = median * BASELINE_HEADROOM;
+      avgFrameMs = median;
+      return;
+    }
+
+    avgFrameMs = avgFrameMs * 0.9 + frameMs * 0.1;
+    if (avgFrameMs > target * 1.1) {
+      intervalMs = Math.min(maxIntervalMs, intervalMs * 1.05);
+    } else if (avgFrameMs < target) {
+      intervalMs = Math.max(minIntervalMs, intervalMs * 0.98);
+    }
+  };
+
+  return {
+    recordFrame,
+    shouldDetect: (now) => target !== null && now - lastDetect >= intervalMs,
+    markDetect: (now) => {
+      lastDetect = now;
+    },
+    getIntervalMs: () => intervalMs,
+  };
+};
@@ -0,0 +1,164 @@
+/**
+ * Music-reactive input. Plays a local audio file (or listens to the
+ * microphone) through a Web Audio analyser and reduces each frame's spectrum
+ * to a few 0..1 levels plus a beat pulse, which the scene maps onto sparkle,
+ * light and bloom intensity. Everything stays in the browser, so it works
+ * offline with whatever files the user picks.
+ */
+
+export interface AudioLevels {
+  level: number; // Overall loudness
+  bass: number;
+  mid: number;
+  treble: number;
+  beat: number; // 1 on a detected beat, decaying back to 0
+}
+
+export const SILENT_LEVELS: AudioLevels = { level: 0, bass: 0, mid: 0, treble: 0, beat: 0 };
+
+export type AudioSourceKind = 'file' | 'microphone';
+
+export interface AudioReactor {
+  kind: AudioSourceKind;
+  name: string; // File name, or a label for the microphone
+  /** Levels at clock time `now` (seconds); sampled once per distinct `now`, so every consumer in a frame agrees. */
+  levels: (now: number) => AudioLevels;
+  setSensitivity: (sensitivity: number) => void;
+  stop: () => void;
+}
+
+export const MIN_SENSITIVITY = 0.5;
+export const MAX_SENSITIVITY = 2.5;
+export const DEFAULT_SENSITIVITY = 1;
+
+const FFT_SIZE = 1024;
+const BANDS = { bass: [20, 150], mid: [150, 2000], treble: [2000, 8000] } as const;
+
+const BEAT_HISTORY = 45; // Samples of bass energy the beat threshold averages over (~0.75s at 60fps)
+const BEAT_MIN_ENERGY = 0.15; // Ignore "beats" in near silence
+const BEAT_MIN_INTERVAL = 0.25; // Seconds; caps detection at 240 BPM
+const BEAT_DECAY = 6; // Per second
+
+const createReactor = (
+  context: AudioContext,
+  source: AudioNode,
+  kind: AudioSourceKind,
+  name: string,
+  sensitivity: number,
+  cleanup: () => void
+): AudioReactor => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.6;
+  source.connect(analyser);
+
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  const binHz = context.sampleRate / FFT_SIZE;
+  const history: number[] = [];
+  let lastBeat = -Infinity;
+  let lastSample = NaN;
+  let current: AudioLevels = SILENT_LEVELS;
+
+  const band = ([low, high]: readonly [number, number]) => {
+    const from = Math.max(1, Math.floor(low / binHz));
+    const to = Math.min(spectrum.length - 1, Math.ceil(high / binHz));
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += spectrum[i];
+    return Math.min(1, (sum / (to - from + 1) / 255) * sensitivity);
+  };
+
+  const levels = (now: number) => {
+    if (now === lastSample) return current;
+    lastSample = now;
+    analyser.getByteFrequencyData(spectrum);
+
+    const bass = band(BANDS.bass);
+    const mid = band(BANDS.mid);
+    const treble = band(BANDS.treble);
+
+    // A beat is bass energy well above its recent average; higher sensitivity lowers the bar
+    const average = history.length ? history.reduce((a, b) => a + b, 0) / history.length : bass;
+    if (bass > BEAT_MIN_ENERGY && bass > average * (1 + 0.6 / sensitivity) && now - lastBeat > BEAT_MIN_INTERVAL) {
+      lastBeat = now;
+    }
+    history.push(bass);
+    if (history.length > BEAT_HISTORY) history.shift();
+
+    current = {
+      level: (bass + mid + treble) / 3,
+      bass,
+      mid,
+      treble,
+      beat: Math.exp(-(now - lastBeat) * BEAT_DECAY),
+    };
+    return current;
+  };
+
+  return {
+    kind,
+    name,
+    levels,
+    setSensitivity: value => {
+      sensitivity = value;
+    },
+    stop: () => {
+      source.disconnect();
+      cleanup();
+      context.close().catch(() => {});
+    },
+  };
+};
+
+// Loops the file and plays it out loud while analysing it
+export const createFileAudioReactor = async (file: File, sensitivity = DEFAULT_SENSITIVITY): Promise<AudioReactor> => {
+  const url = URL.createObjectURL(file);
+  const audio = new Audio(url);
+  audio.loop = true;
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(audio);
+  source.connect(context.destination);
+
+  const cleanup = () => {
+    audio.pause();
+    URL.revokeObjectURL(url);
+  };
+
+  try {
+    await audio.play();
+  } catch (error) {
+    cleanup();
+    context.close().catch(() => {});
+    throw error;
+  }
+  return createReactor(context, source, 'file', file.name, sensitivity, cleanup);
+};
+
+// Analysis only; the microphone is never routed to the speakers, which would feed back
+export const createMicrophoneAudioReactor = async (sensitivity = DEFAULT_SENSITIVITY): Promise<AudioReactor> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+
+  return createReactor(context, source, 'microphone', 'Micro', sensitivity, () => {
+    stream.getTracks().forEach(track => track.stop());
+  });
+};
+
+const STORAGE_KEY = 'audioSensitivity';
+
+export const loadAudioSensitivity = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(STORAGE_KEY));
+    return stored >= MIN_SENSITIVITY && stored <= MAX_SENSITIVITY ? stored : DEFAULT_SENSITIVITY;
+  } catch {
+    return DEFAULT_SENSITIVITY;
+  }
+};
+
+export const saveAudioSensitivity = (sensitivity: number) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(sensitivity));
+  } catch (error) {
+    console.warn('Could not save audio sensitivity:', error);
+  }
+};
@@ -0,0 +1,125 @@
+import { AppAction, GestureType } from '../types';
+import { HandSide } from './gestureRecognizer';
+
+/**
+ * Rolling per-frame log of what the gesture pipeline saw and did, for the
+ * diagnostics panel (timeline, detection rate, latency) and for attaching to
+ * bug reports as JSON. Only the last `windowMs` of frames are kept.
+ */
+
+export const DIAGNOSTICS_VERSION = 1;
+
+export type TrackingStatus =
+  | 'initializing'
+  | 'off'
+  | 'loadingModel'
+  | 'modelReady'
+  | 'startingCamera'
+  | 'detecting'
+  | 'replaying'
+  | 'error'
+  | 'cameraError';
+
+export interface DiagnosticsFrame {
+  timestamp: number; // Camera frame time (ms)
+  handsCount: number;
+  hands: HandSide[];
+  pose: GestureType | null;
+  twoHandGrab: boolean;
+  events: { type: GestureType; hand: HandSide; action: AppAction }[];
+  counters: Partial<Record<GestureType, number>>; // Non-zero hold counters only
+  inferenceMs?: number; // Missing while replaying a recording
+}
+
+export interface DiagnosticsSummary {
+  frames: number;
+  detectionFps: number;
+  avgInferenceMs: number;
+  p95InferenceMs: number;
+}
+
+export interface DiagnosticsExport {
+  version: number;
+  exportedAt: string;
+  userAgent: string;
+  windowSeconds: number;
+  context: Record<string, unknown>; // Backend, settings and anything else useful to reproduce
+  summary: DiagnosticsSummary;
+  frames: DiagnosticsFrame[];
+}
+
+export interface DiagnosticsLog {
+  record: (frame: DiagnosticsFrame) => void;
+  recent: (count: number) => DiagnosticsFrame[];
+  summarize: (windowMs?: number) => DiagnosticsSummary;
+  exportJson: (context: Record<string, unknown>) => DiagnosticsExport;
+  clear: () => void;
+}
+
+export const DEFAULT_DIAGNOSTICS_WINDOW_MS = 30000;
+
+const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) * p)];
+};
+
+export const createDiagnosticsLog = (windowMs = DEFAULT_DIAGNOSTICS_WINDOW_MS): DiagnosticsLog => {
+  let frames: DiagnosticsFrame[] = [];
+
+  const record = (frame: DiagnosticsFrame) => {
+    // Timestamps restart when a replay loops; don't mix the two runs
+    const last = frames[frames.length - 1];
+    if (last && frame.timestamp < last.timestamp) frames = [];
+
+    frames.push(frame);
+    const cutoff = frame.timestamp - windowMs;
+    if (frames[0].timestamp < cutoff) {
+      frames = frames.filter(f => f.timestamp >= cutoff);
+    }
+  };
+
+  const recent = (count: number) => frames.slice(-count);
+
+  const summarize = (summaryWindowMs = windowMs): DiagnosticsSummary => {
+    const last = frames[frames.length - 1];
+    if (!last) return { frames: 0, detectionFps: 0, avgInferenceMs: 0, p95InferenceMs: 0 };
+
+    const inWindow = frames.filter(f => f.timestamp >= last.timestamp - summaryWindowMs);
+    const spanMs = last.timestamp - inWindow[0].timestamp;
+    const latencies = inWindow.map(f => f.inferenceMs).filter((ms): ms is number => ms !== undefined);
+
+    return {
+      frames: inWindow.length,
+      detectionFps: spanMs > 0 ? ((inWindow.length - 1) * 1000) / spanMs : 0,
+      avgInferenceMs: latencies.length ? latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length : 0,
+      p95InferenceMs: percentile(latencies, 0.95),
+    };
+  };
+
+  const exportJson = (context: Record<string, unknown>): DiagnosticsExport => ({
+    version: DIAGNOSTICS_VERSION,
+    exportedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    windowSeconds: windowMs / 1000,
+    context,
+    summary: summarize(),
+    frames: [...frames],
+  });
+
+  const clear = () => {
+    frames = [];
+  };
+
+  return { record, recent, summarize, exportJson, clear };
+};
+
+export const downloadDiagnostics = (data: DiagnosticsExport, filename = `gesture-diagnostics-${Date.now()}.json`) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,225 @@
+import { AppAction, GestureType, TreeMode } from '../types';
+import { HandSide } from './gestureRecognizer';
+import { TrackingStatus } from './diagnostics';
+
+/**
+ * Strings for the gesture debug / diagnostics UI. Vietnamese is the app's
+ * language; English is there for bug reports and for developers who don't
+ * read Vietnamese. Emoji are kept out of the translations and added by the UI.
+ */
+
+export type DiagnosticsLocale = 'vi' | 'en';
+
+export type TrackingError = 'loadFailed' | 'cameraDenied' | 'replayFailed';
+
+export interface DiagnosticsStrings {
+  title: string;
+  status: string;
+  statuses: Record<TrackingStatus, string>;
+  replayFrames: (count: number) => string;
+  errors: Record<TrackingError, string>;
+  detection: string;
+  assets: string;
+  latency: string;
+  hands: string;
+  handSides: Record<HandSide, string>;
+  controller: string;
+  controllerAbsent: string;
+  controllerNone: string;
+  extendedFingers: string;
+  gesture: string;
+  noGesture: string;
+  unknownGesture: string;
+  twoHandGrab: string;
+  lastTrigger: string;
+  timeline: string;
+  counters: string;
+  mode: string;
+  modes: Record<TreeMode, string>;
+  position: string;
+  gestures: Record<GestureType, string>;
+  actions: Record<AppAction, string>;
+  showDebug: string;
+  hideDebug: string;
+  record: string;
+  stopRecording: string;
+  replay: string;
+  stopReplay: string;
+  downloadDiagnostics: string;
+}
+
+const vi: DiagnosticsStrings = {
+  title: 'Theo Dõi Cử Chỉ',
+  status: 'Trạng thái',
+  statuses: {
+    initializing: 'Đang khởi tạo...',
+    off: 'Debug tắt - Camera tắt',
+    loadingModel: 'Đang tải Model...',
+    modelReady: 'Model sẵn sàng',
+    startingCamera: 'Đang bật Camera...',
+    detecting: 'Sẵn sàng - Đang nhận diện...',
+    replaying: 'Đang phát lại',
+    error: 'Lỗi',
+    cameraError: 'Lỗi Camera',
+  },
+  replayFrames: count => `${count} khung`,
+  errors: {
+    loadFailed: 'Không thể tải MediaPipe',
+    cameraDenied: 'Không có quyền truy cập camera',
+    replayFailed: 'Không đọc được file ghi',
+  },
+  detection: 'Nhận diện',
+  assets: 'Nguồn model',
+  latency: 'Độ trễ',
+  hands: 'Số tay',
+  handSides: { left: 'Trái', right: 'Phải' },
+  controller: 'Điều khiển',
+  controllerAbsent: 'vắng',
+  controllerNone: 'Giơ cao tay để nhận',
+  extendedFingers: 'Ngón duỗi',
+  gesture: 'Cử chỉ',
+  noGesture: 'Không có',
+  unknownGesture: 'Không rõ',
+  twoHandGrab: 'HAI TAY (Thu phóng/Xoay)',
+  lastTrigger: 'Kích hoạt',
+  timeline: 'Dòng thời gian',
+  counters: 'Bộ đếm khung',
+  mode: 'Chế độ',
+  modes: { [TreeMode.CHAOS]: 'HỖN LOẠN', [TreeMode.FORMED]: 'HOÀN CHỈNH' },
+  position: 'Vị trí',
+  gestures: {
+    [GestureType.OPEN_PALM]: 'XÒE TAY',
+    [GestureType.FIST]: 'NẮM TAY',
+    [GestureType.PINCH_LEFT]: 'CHỤM TAY TRÁI',
+    [GestureType.PINCH_RIGHT]: 'CHỤM TAY PHẢI',
+    [GestureType.THUMBS_UP]: 'NGÓN CÁI LÊN',
+    [GestureType.THUMBS_DOWN]: 'NGÓN CÁI XUỐNG',
+    [GestureType.VICTORY]: 'CHỮ V',
+    [GestureType.SWIPE_LEFT]: 'VUỐT TRÁI',
+    [GestureType.SWIPE_RIGHT]: 'VUỐT PHẢI',
+    [GestureType.STIR]: 'KHUẤY',
+    [GestureType.FLICK_UP]: 'HẤT LÊN',
+  },
+  actions: {
+    [AppAction.NONE]: 'Không làm gì',
+    [AppAction.MODE_CHAOS]: 'Hỗn loạn',
+    [AppAction.MODE_FORMED]: 'Cây thông',
+    [AppAction.TOGGLE_MODE]: 'Đổi chế độ',
+    [AppAction.PHOTO_PREV]: 'Ảnh trước',
+    [AppAction.PHOTO_NEXT]: 'Ảnh sau',
+    [AppAction.SNOW_TOGGLE]: 'Tuyết',
+    [AppAction.CAMERA_FORWARD]: 'Tiến tới',
+    [AppAction.CAMERA_BACKWARD]: 'Lùi lại',
+    [AppAction.OPEN_PHOTO_VIEWER]: 'Xem ảnh',
+    [AppAction.START_SLIDESHOW]: 'Trình chiếu',
+    [AppAction.TAKE_SCREENSHOT]: 'Chụp màn hình',
+    [AppAction.SPIN_TREE]: 'Xoay cây',
+    [AppAction.LIGHT_PATTERN_NEXT]: 'Đổi hiệu ứng đèn',
+  },
+  showDebug: 'Hiện Debug',
+  hideDebug: 'Ẩn Debug',
+  record: 'Ghi phiên',
+  stopRecording: 'Dừng & tải',
+  replay: 'Phát lại file',
+  stopReplay: 'Dừng phát lại',
+  downloadDiagnostics: 'Tải chẩn đoán',
+};
+
+const en: DiagnosticsStrings = {
+  title: 'Gesture Tracking',
+  status: 'Status',
+  statuses: {
+    initializing: 'Initializing...',
+    off: 'Debug off - camera off',
+    loadingModel: 'Loading model...',
+    modelReady: 'Model ready',
+    startingCamera: 'Starting camera...',
+    detecting: 'Ready - detecting...',
+    replaying: 'Replaying',
+    error: 'Error',
+    cameraError: 'Camera error',
+  },
+  replayFrames: count => `${count} frames`,
+  errors: {
+    loadFailed: 'Could not load MediaPipe',
+    cameraDenied: 'Camera permission denied',
+    replayFailed: 'Could not read the recording',
+  },
+  detection: 'Detection',
+  assets: 'Model source',
+  latency: 'Latency',
+  hands: 'Hands',
+  handSides: { left: 'Left', right: 'Right' },
+  controller: 'Controller',
+  controllerAbsent: 'away',
+  controllerNone: 'Raise a hand to claim',
+  extendedFingers: 'Fingers up',
+  gesture: 'Gesture',
+  noGesture: 'None',
+  unknownGesture: 'Unknown',
+  twoHandGrab: 'TWO HANDS (Zoom/Rotate)',
+  lastTrigger: 'Triggered',
+  timeline: 'Timeline',
+  counters: 'Frame counters',
+  mode: 'Mode',
+  modes: { [TreeMode.CHAOS]: 'CHAOS', [TreeMode.FORMED]: 'FORMED' },
+  position: 'Position',
+  gestures: {
+    [GestureType.OPEN_PALM]: 'OPEN PALM',
+    [GestureType.FIST]: 'FIST',
+    [GestureType.PINCH_LEFT]: 'LEFT PINCH',
+    [GestureType.PINCH_RIGHT]: 'RIGHT PINCH',
+    [GestureType.THUMBS_UP]: 'THUMBS UP',
+    [GestureType.THUMBS_DOWN]: 'THUMBS DOWN',
+    [GestureType.VICTORY]: 'VICTORY',
+    [GestureType.SWIPE_LEFT]: 'SWIPE LEFT',
+    [GestureType.SWIPE_RIGHT]: 'SWIPE RIGHT',
+    [GestureType.STIR]: 'STIR',
+    [GestureType.FLICK_UP]: 'FLICK UP',
+  },
+  actions: {
+    [AppAction.NONE]: 'Nothing',
+    [AppAction.MODE_CHAOS]: 'Chaos',
+    [AppAction.MODE_FORMED]: 'Tree',
+    [AppAction.TOGGLE_MODE]: 'Toggle mode',
+    [AppAction.PHOTO_PREV]: 'Previous photo',
+    [AppAction.PHOTO_NEXT]: 'Next photo',
+    [AppAction.SNOW_TOGGLE]: 'Snow',
+    [AppAction.CAMERA_FORWARD]: 'Move closer',
+    [AppAction.CAMERA_BACKWARD]: 'Move back',
+    [AppAction.OPEN_PHOTO_VIEWER]: 'Photo viewer',
+    [AppAction.START_SLIDESHOW]: 'Slideshow',
+    [AppAction.TAKE_SCREENSHOT]: 'Screenshot',
+    [AppAction.SPIN_TREE]: 'Spin tree',
+    [AppAction.LIGHT_PATTERN_NEXT]: 'Next light show',
+  },
+  showDebug: 'Show debug',
+  hideDebug: 'Hide debug',
+  record: 'Record',
+  stopRecording: 'Stop & save',
+  replay: 'Replay file',
+  stopReplay: 'Stop replay',
+  downloadDiagnostics: 'Diagnostics',
+};
+
+export const DIAGNOSTICS_STRINGS: Record<DiagnosticsLocale, DiagnosticsStrings> = { vi, en };
+
+const STORAGE_KEY = 'diagnosticsLocale';
+
+export const loadDiagnosticsLocale = (): DiagnosticsLocale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === 'vi' || stored === 'en') return stored;
+  } catch {
+    // Fall through to the browser language
+  }
+  return navigator.language.toLowerCase().startsWith('vi') ? 'vi' : 'en';
+};
+
+export const saveDiagnosticsLocale = (locale: DiagnosticsLocale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.warn('Could not save diagnostics language:', error);
+  }
+};
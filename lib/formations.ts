@@ -0,0 +1,233 @@
+import { TreeShape, treeSurfacePoint } from './treeShape';
+import { Random } from './random';
+
+/**
+ * Shapes the foliage particles can gather into when formed. Each formation
+ * produces a target buffer (xyz per particle, in tree-local units with y up
+ * from the tree's base) that Foliage morphs to.
+ */
+
+export type Formation =
+  | { kind: 'tree' }
+  | { kind: 'heart' }
+  | { kind: 'star' }
+  | { kind: 'text'; text: string }
+  | { kind: 'image'; url: string }; // PNG silhouette or logo, usually a data URL
+
+export const TREE_FORMATION: Formation = { kind: 'tree' };
+
+export const DEFAULT_FORMATION_TEXT = 'Merry Christmas 2026';
+
+// Non-tree formations are centered here and fit inside this box
+const FORMATION_CENTER_Y = 6;
+const FORMATION_MAX_WIDTH = 14;
+const FORMATION_MAX_HEIGHT = 9;
+const FORMATION_DEPTH = 0.6; // Half-thickness of flat (text / image) formations
+
+const MASK_SIZE = 256; // Raster resolution text and images are sampled at
+
+export const treeFormation = (shape: TreeShape, count: number) => {
+  const target = new Float32Array(count * 3);
+  const goldenRatio = (1 + Math.sqrt(5)) / 2;
+
+  // Fibonacci lattice over the tree's silhouette
+  for (let i = 0; i < count; i++) {
+    const point = treeSurfacePoint(shape, i / count, 2 * Math.PI * goldenRatio * i);
+    target[i * 3] = point.x;
+    target[i * 3 + 1] = point.y;
+    target[i * 3 + 2] = point.z;
+  }
+  return target;
+};
+
+// Rejection-sampled solid heart: (x² + 9/4·z² + y² − 1)³ − x²·y³ − 9/80·z²·y³ ≤ 0
+export const heartFormation = (count: number, random: Random) => {
+  const target = new Float32Array(count * 3);
+  const scale = 4;
+
+  for (let i = 0; i < count; ) {
+    const x = (random() * 2 - 1) * 1.5;
+    const y = (random() * 2 - 1) * 1.5;
+    const z = (random() * 2 - 1) * 1.0;
+    const a = x * x + 2.25 * z * z + y * y - 1;
+    if (a * a * a - x * x * y * y * y - 0.1125 * z * z * y * y * y > 0) continue;
+
+    target[i * 3] = x * scale;
+    target[i * 3 + 1] = y * scale + FORMATION_CENTER_Y;
+    target[i * 3 + 2] = z * scale;
+    i++;
+  }
+  return target;
+};
+
+// Five-pointed star, puffed so it's thickest in the middle
+export const starFormation = (count: number, random: Random) => {
+  const target = new Float32Array(count * 3);
+  const outer = 6;
+  const inner = 2.5;
+  const points = 5;
+
+  const vertices = Array.from({ length: points * 2 }, (_, i) => {
+    const angle = (i * Math.PI) / points + Math.PI / 2;
+    const radius = i % 2 === 0 ? outer : inner;
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+
+  for (let i = 0; i < count; ) {
+    const x = (random() * 2 - 1) * outer;
+    const y = (random() * 2 - 1) * outer;
+    if (!insidePolygon(x, y, vertices)) continue;
+
+    const thickness = (1 - Math.hypot(x, y) / outer) * 1.5;
+    target[i * 3] = x;
+    target[i * 3 + 1] = y + FORMATION_CENTER_Y;
+    target[i * 3 + 2] = (random() * 2 - 1) * thickness;
+    i++;
+  }
+  return target;
+};
+
+const insidePolygon = (x: number, y: number, vertices: { x: number; y: number }[]) => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+interface Mask {
+  width: number;
+  height: number;
+  filled: number[]; // Pixel indices that belong to the shape
+}
+
+// Spreads particles over the filled pixels of a mask, extruded into a slab
+const maskFormation = (mask: Mask, count: number, random: Random) => {
+  if (mask.filled.length === 0) throw new Error('Formation shape is empty');
+  const target = new Float32Array(count * 3);
+
+  const scale = Math.min(FORMATION_MAX_WIDTH / mask.width, FORMATION_MAX_HEIGHT / mask.height);
+  for (let i = 0; i < count; i++) {
+    const pixel = mask.filled[Math.floor(random() * mask.filled.length)];
+    const px = (pixel % mask.width) + random();
+    const py = Math.floor(pixel / mask.width) + random();
+
+    target[i * 3] = (px - mask.width / 2) * scale;
+    target[i * 3 + 1] = (mask.height / 2 - py) * scale + FORMATION_CENTER_Y;
+    target[i * 3 + 2] = (random() * 2 - 1) * FORMATION_DEPTH;
+  }
+  return target;
+};
+
+// Crops the mask to its filled pixels so the shape fills the formation box
+const cropMask = (width: number, height: number, isFilled: (index: number) => boolean): Mask => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let i = 0; i < width * height; i++) {
+    if (!isFilled(i)) continue;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  if (maxX < 0) return { width: 1, height: 1, filled: [] };
+
+  const cropWidth = maxX - minX + 1;
+  const filled: number[] = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (isFilled(y * width + x)) filled.push((y - minY) * cropWidth + (x - minX));
+    }
+  }
+  return { width: cropWidth, height: maxY - minY + 1, filled };
+};
+
+// Long messages go on two lines, broken at the space closest to the middle
+const splitLines = (text: string) => {
+  const trimmed = text.trim();
+  if (trimmed.length <= 12 || !trimmed.includes(' ')) return [trimmed];
+  let best = -1;
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === ' ' && (best < 0 || Math.abs(i - trimmed.length / 2) < Math.abs(best - trimmed.length / 2))) best = i;
+  }
+  return [trimmed.slice(0, best), trimmed.slice(best + 1)];
+};
+
+export const textFormation = (text: string, count: number, random: Random) => {
+  const lines = splitLines(text);
+  const fontSize = 64;
+  const canvas = document.createElement('canvas');
+  canvas.width = MASK_SIZE * 2;
+  canvas.height = MASK_SIZE;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.font = `bold ${fontSize}px Cinzel, serif`;
+  const widest = Math.max(...lines.map(line => ctx.measureText(line).width), 1);
+  // Shrink the font so the widest line fits the canvas
+  const fitted = Math.min(fontSize, (fontSize * canvas.width * 0.95) / widest);
+  ctx.font = `bold ${fitted}px Cinzel, serif`;
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, canvas.width / 2, canvas.height / 2 + (i - (lines.length - 1) / 2) * fitted * 1.2);
+  });
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return maskFormation(cropMask(canvas.width, canvas.height, i => data[i * 4 + 3] > 128), count, random);
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load formation image'));
+    image.src = url;
+  });
+
+/**
+ * Samples the shape out of a logo: transparent pixels are background when the
+ * image has any, otherwise pixels close to the corner color are.
+ */
+export const imageFormation = async (url: string, count: number, random: Random) => {
+  const image = await loadImage(url);
+  const scale = MASK_SIZE / Math.max(image.width, image.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  let transparent = 0;
+  for (let i = 3; i < data.length; i += 4) if (data[i] < 128) transparent++;
+
+  const [r, g, b] = [data[0], data[1], data[2]];
+  const isFilled = transparent > 0
+    ? (i: number) => data[i * 4 + 3] >= 128
+    : (i: number) => Math.abs(data[i * 4] - r) + Math.abs(data[i * 4 + 1] - g) + Math.abs(data[i * 4 + 2] - b) > 96;
+
+  return maskFormation(cropMask(canvas.width, canvas.height, isFilled), count, random);
+};
+
+// `random` scatters the particles inside non-tree shapes; the tree is an even lattice
+export const buildFormation = async (formation: Formation, count: number, shape: TreeShape, random: Random): Promise<Float32Array> => {
+  switch (formation.kind) {
+    case 'tree':
+      return treeFormation(shape, count);
+    case 'heart':
+      return heartFormation(count, random);
+    case 'star':
+      return starFormation(count, random);
+    case 'text':
+      return textFormation(formation.text, count, random);
+    case 'image':
+      return imageFormation(formation.url, count, random);
+  }
+};
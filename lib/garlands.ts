@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import { TreeShape, treeRadiusAt } from './treeShape';
+import { Random } from './random';
+
+/**
+ * Garland strands spiralling around the tree: tinsel, bead chains or light
+ * strings. Each strand is a formed curve hugging the tree's silhouette plus an
+ * "unravelled" chaos curve — a loose wavy line floating off to one side — and
+ * the Garlands component moves every point along the strand between the two,
+ * so strands unwind in CHAOS and wrap back up in FORMED.
+ */
+
+export type GarlandStyle = 'tinsel' | 'beads' | 'lights';
+
+export interface GarlandSettings {
+  strands: number; // 0 hides the garlands
+  spacing: number; // Vertical distance between two wraps of one strand
+  style: GarlandStyle;
+}
+
+export const GARLAND_STYLES: { id: GarlandStyle; label: string }[] = [
+  { id: 'tinsel', label: '✨ Kim tuyến' },
+  { id: 'beads', label: '📿 Chuỗi hạt' },
+  { id: 'lights', label: '💡 Dây đèn' },
+];
+
+export const MAX_GARLAND_STRANDS = 6;
+export const MIN_GARLAND_SPACING = 1.5;
+export const MAX_GARLAND_SPACING = 5;
+
+export const DEFAULT_GARLAND_SETTINGS: GarlandSettings = {
+  strands: 2,
+  spacing: 3,
+  style: 'tinsel',
+};
+
+export interface GarlandStrand {
+  formed: THREE.CatmullRomCurve3;
+  chaos: THREE.CatmullRomCurve3;
+  random: number; // 0..1, fixed per strand
+}
+
+// Strands start just above the base and stop below the star
+const START_HEIGHT = 0.03;
+const END_HEIGHT = 0.88;
+
+// Clearance over the foliage surface
+const SURFACE_OFFSET = 0.25;
+
+const SAMPLES_PER_TURN = 32;
+
+// Formed and chaos curves share their parameter, so `getPoint(t)` on both gives the same bit of strand
+export const createGarlandStrands = (shape: TreeShape, count: number, spacing: number, random: Random): GarlandStrand[] => {
+  const strands: GarlandStrand[] = [];
+  const heightRange = (END_HEIGHT - START_HEIGHT) * shape.height;
+  const turns = heightRange / spacing;
+  const samples = Math.max(8, Math.ceil(turns * SAMPLES_PER_TURN));
+
+  for (let s = 0; s < count; s++) {
+    // Spread the strands evenly around the trunk so their wraps interleave
+    const phase = (s / count) * Math.PI * 2;
+    const formedPoints: THREE.Vector3[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const u = i / samples;
+      const t = START_HEIGHT + u * (END_HEIGHT - START_HEIGHT);
+      const theta = phase + u * turns * Math.PI * 2;
+      const radius = treeRadiusAt(shape, t) + SURFACE_OFFSET;
+      formedPoints.push(new THREE.Vector3(Math.cos(theta) * radius, t * shape.height, Math.sin(theta) * radius));
+    }
+
+    // Unravelled: a long, loosely waving line somewhere off to the side of the tree
+    const strandRandom = random();
+    const heading = phase + strandRandom * Math.PI;
+    const center = new THREE.Vector3(Math.cos(heading) * (14 + strandRandom * 6), 3 + random() * 10, Math.sin(heading) * (14 + strandRandom * 6));
+    const along = new THREE.Vector3(-Math.sin(heading), (random() - 0.5) * 0.6, Math.cos(heading)).normalize();
+    const across = new THREE.Vector3().crossVectors(along, THREE.Object3D.DEFAULT_UP).normalize();
+    const length = 18 + strandRandom * 8;
+    const chaosPoints: THREE.Vector3[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const u = i / samples;
+      chaosPoints.push(center.clone()
+        .addScaledVector(along, (u - 0.5) * length)
+        .addScaledVector(across, Math.sin(u * Math.PI * 6 + strandRandom * 10) * 1.2)
+        .add(THREE.Object3D.DEFAULT_UP.clone().multiplyScalar(Math.cos(u * Math.PI * 4 + strandRandom * 5) * 0.8)));
+    }
+
+    const formed = new THREE.CatmullRomCurve3(formedPoints);
+    formed.arcLengthDivisions = samples * 4;
+    strands.push({
+      formed,
+      chaos: new THREE.CatmullRomCurve3(chaosPoints),
+      random: strandRandom,
+    });
+  }
+  return strands;
+};
+
+const STORAGE_KEY = 'garlands';
+
+const isGarlandStyle = (value: unknown): value is GarlandStyle =>
+  GARLAND_STYLES.some(style => style.id === value);
+
+// Keeps only settings the sliders could have produced; used for storage and share data alike
+export const parseGarlandSettings = (raw: unknown): GarlandSettings | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { strands, spacing, style }: Record<string, unknown> = { ...DEFAULT_GARLAND_SETTINGS, ...raw };
+  if (!isGarlandStyle(style)) return null;
+  if (typeof strands !== 'number' || !Number.isInteger(strands) || strands < 0 || strands > MAX_GARLAND_STRANDS) return null;
+  if (typeof spacing !== 'number' || !(spacing >= MIN_GARLAND_SPACING && spacing <= MAX_GARLAND_SPACING)) return null;
+  return { strands, spacing, style };
+};
+
+export const loadGarlandSettings = (): GarlandSettings => {
+  try {
+    return parseGarlandSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')) ?? DEFAULT_GARLAND_SETTINGS;
+  } catch {
+    return DEFAULT_GARLAND_SETTINGS;
+  }
+};
+
+export const saveGarlandSettings = (settings: GarlandSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save garlands:', error);
+  }
+};
@@ -0,0 +1,140 @@
+import { AppAction, GestureType } from '../types';
+import { GestureTiming, HandSide } from './gestureRecognizer';
+
+/**
+ * Gesture-to-action binding table.
+ *
+ * Each recognized gesture maps to one app action with its own hold time and
+ * cooldown, optionally limited to one of the user's hands. The table is persisted
+ * in localStorage and edited from the settings menu.
+ */
+
+export interface GestureBinding {
+  action: AppAction;
+  holdFrames: number; // Consecutive frames the gesture must be held
+  cooldownMs: number; // Minimum time between two triggers
+  hand: HandSide | 'any'; // Only this hand triggers it
+}
+
+export type GestureBindings = Record<GestureType, GestureBinding>;
+
+interface ActionInfo {
+  label: string;
+  repeat: boolean; // Re-trigger while the gesture is held (after cooldown)
+  continuous?: boolean; // Active for as long as the gesture is held (camera moves)
+}
+
+export const ACTION_INFO: Record<AppAction, ActionInfo> = {
+  [AppAction.NONE]: { label: '— Không làm gì', repeat: false },
+  [AppAction.MODE_CHAOS]: { label: '💥 Hỗn loạn', repeat: false },
+  [AppAction.MODE_FORMED]: { label: '🎄 Cây thông', repeat: false },
+  [AppAction.TOGGLE_MODE]: { label: '🔁 Đổi chế độ', repeat: false },
+  [AppAction.PHOTO_PREV]: { label: '◀️ Ảnh trước', repeat: true },
+  [AppAction.PHOTO_NEXT]: { label: '▶️ Ảnh sau', repeat: true },
+  [AppAction.SNOW_TOGGLE]: { label: '❄️ Tuyết', repeat: true },
+  [AppAction.CAMERA_FORWARD]: { label: '⏩ Tiến tới', repeat: true, continuous: true },
+  [AppAction.CAMERA_BACKWARD]: { label: '⏪ Lùi lại', repeat: true, continuous: true },
+  [AppAction.OPEN_PHOTO_VIEWER]: { label: '🖼️ Xem ảnh', repeat: false },
+  [AppAction.START_SLIDESHOW]: { label: '🎞️ Trình chiếu', repeat: false },
+  [AppAction.TAKE_SCREENSHOT]: { label: '📸 Chụp màn hình', repeat: false },
+  [AppAction.SPIN_TREE]: { label: '🌀 Xoay cây', repeat: false },
+  [AppAction.LIGHT_PATTERN_NEXT]: { label: '💡 Đổi hiệu ứng đèn', repeat: false },
+};
+
+export const GESTURE_ICONS: Record<GestureType, string> = {
+  [GestureType.OPEN_PALM]: '✋',
+  [GestureType.FIST]: '✊',
+  [GestureType.PINCH_LEFT]: '🤏◀️',
+  [GestureType.PINCH_RIGHT]: '▶️🤏',
+  [GestureType.THUMBS_UP]: '👍',
+  [GestureType.THUMBS_DOWN]: '👎',
+  [GestureType.VICTORY]: '✌️',
+  [GestureType.SWIPE_LEFT]: '👋◀️',
+  [GestureType.SWIPE_RIGHT]: '👋▶️',
+  [GestureType.STIR]: '🌀',
+  [GestureType.FLICK_UP]: '☝️⬆️',
+};
+
+export const HAND_LABELS: Record<GestureBinding['hand'], string> = {
+  any: '🤲',
+  left: 'Trái',
+  right: 'Phải',
+};
+
+export const DEFAULT_BINDINGS: GestureBindings = {
+  [GestureType.OPEN_PALM]: { action: AppAction.MODE_CHAOS, holdFrames: 5, cooldownMs: 0, hand: 'any' },
+  [GestureType.FIST]: { action: AppAction.MODE_FORMED, holdFrames: 5, cooldownMs: 0, hand: 'any' },
+  [GestureType.PINCH_LEFT]: { action: AppAction.PHOTO_PREV, holdFrames: 5, cooldownMs: 500, hand: 'any' },
+  [GestureType.PINCH_RIGHT]: { action: AppAction.PHOTO_NEXT, holdFrames: 5, cooldownMs: 500, hand: 'any' },
+  [GestureType.THUMBS_UP]: { action: AppAction.CAMERA_FORWARD, holdFrames: 5, cooldownMs: 0, hand: 'any' },
+  [GestureType.THUMBS_DOWN]: { action: AppAction.CAMERA_BACKWARD, holdFrames: 5, cooldownMs: 0, hand: 'any' },
+  [GestureType.VICTORY]: { action: AppAction.SNOW_TOGGLE, holdFrames: 5, cooldownMs: 2000, hand: 'any' },
+  [GestureType.SWIPE_LEFT]: { action: AppAction.PHOTO_PREV, holdFrames: 0, cooldownMs: 400, hand: 'any' },
+  [GestureType.SWIPE_RIGHT]: { action: AppAction.PHOTO_NEXT, holdFrames: 0, cooldownMs: 400, hand: 'any' },
+  [GestureType.STIR]: { action: AppAction.SPIN_TREE, holdFrames: 0, cooldownMs: 1000, hand: 'any' },
+  [GestureType.FLICK_UP]: { action: AppAction.MODE_CHAOS, holdFrames: 0, cooldownMs: 1000, hand: 'any' },
+};
+
+// Dominant hand browses photos (pinch forward, swipe either way) and drives the motion gestures;
+// the other hand only steers the camera, so its pinch does nothing
+export const handednessPreset = (dominant: HandSide): GestureBindings => {
+  const other: HandSide = dominant === 'right' ? 'left' : 'right';
+  const dominantPinch = dominant === 'right' ? GestureType.PINCH_RIGHT : GestureType.PINCH_LEFT;
+  const otherPinch = dominant === 'right' ? GestureType.PINCH_LEFT : GestureType.PINCH_RIGHT;
+
+  return {
+    ...DEFAULT_BINDINGS,
+    [dominantPinch]: { ...DEFAULT_BINDINGS[dominantPinch], action: AppAction.PHOTO_NEXT, hand: dominant },
+    [otherPinch]: { ...DEFAULT_BINDINGS[otherPinch], action: AppAction.NONE, hand: other },
+    [GestureType.THUMBS_UP]: { ...DEFAULT_BINDINGS[GestureType.THUMBS_UP], hand: other },
+    [GestureType.THUMBS_DOWN]: { ...DEFAULT_BINDINGS[GestureType.THUMBS_DOWN], hand: other },
+    [GestureType.SWIPE_LEFT]: { ...DEFAULT_BINDINGS[GestureType.SWIPE_LEFT], hand: dominant },
+    [GestureType.SWIPE_RIGHT]: { ...DEFAULT_BINDINGS[GestureType.SWIPE_RIGHT], hand: dominant },
+    [GestureType.STIR]: { ...DEFAULT_BINDINGS[GestureType.STIR], hand: dominant },
+    [GestureType.FLICK_UP]: { ...DEFAULT_BINDINGS[GestureType.FLICK_UP], hand: dominant },
+  };
+};
+
+export const bindingMatchesHand = (binding: GestureBinding, hand: HandSide) =>
+  binding.hand === 'any' || binding.hand === hand;
+
+const STORAGE_KEY = 'gestureBindings';
+
+// Merge stored bindings over the defaults so new gestures/actions never leave holes
+export const loadBindings = (): GestureBindings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const bindings = { ...DEFAULT_BINDINGS };
+
+    (Object.keys(DEFAULT_BINDINGS) as GestureType[]).forEach(gesture => {
+      const entry = stored[gesture];
+      if (!entry || !(entry.action in ACTION_INFO)) return;
+      bindings[gesture] = {
+        action: entry.action,
+        holdFrames: Number.isFinite(entry.holdFrames) ? entry.holdFrames : DEFAULT_BINDINGS[gesture].holdFrames,
+        cooldownMs: Number.isFinite(entry.cooldownMs) ? entry.cooldownMs : DEFAULT_BINDINGS[gesture].cooldownMs,
+        hand: entry.hand in HAND_LABELS ? entry.hand : DEFAULT_BINDINGS[gesture].hand,
+      };
+    });
+
+    return bindings;
+  } catch {
+    return { ...DEFAULT_BINDINGS };
+  }
+};
+
+export const saveBindings = (bindings: GestureBindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn('Could not save gesture bindings:', error);
+  }
+};
+
+// Recognizer timing for each gesture, derived from what it is bound to
+export const bindingsToTiming = (bindings: GestureBindings): Record<GestureType, GestureTiming> =>
+  (Object.keys(bindings) as GestureType[]).reduce((acc, gesture) => {
+    const { action, holdFrames, cooldownMs } = bindings[gesture];
+    acc[gesture] = { holdFrames, cooldownMs, repeat: ACTION_INFO[action].repeat };
+    return acc;
+  }, {} as Record<GestureType, GestureTiming>);
@@ -0,0 +1,70 @@
+import { DEFAULT_POSE_THRESHOLDS, HandMetrics, PoseThresholds } from './gestureRecognizer';
+
+/**
+ * Per-user pose thresholds measured by the gesture tutorial. Hands differ in size
+ * and camera angle, so the finger extension ratio and pinch distance are placed
+ * halfway between what this user's open hand and closed hand actually produce.
+ */
+
+export interface CalibrationSamples {
+  open: HandMetrics[]; // Open palm
+  fist: HandMetrics[]; // Closed fist
+  pinch: HandMetrics[]; // Thumb and index touching
+}
+
+const STORAGE_KEY = 'gesturePoseThresholds';
+const MIN_SAMPLES = 15;
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) * p)];
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const computePoseThresholds = (samples: CalibrationSamples): Partial<PoseThresholds> => {
+  const thresholds: Partial<PoseThresholds> = {};
+
+  if (samples.open.length >= MIN_SAMPLES && samples.fist.length >= MIN_SAMPLES) {
+    // Least-extended finger of an open hand vs most-extended finger of a fist
+    const openLow = percentile(samples.open.map(m => Math.min(...m.fingerRatios)), 0.1);
+    const fistHigh = percentile(samples.fist.map(m => Math.max(...m.fingerRatios)), 0.9);
+    if (openLow > fistHigh) {
+      thresholds.extensionRatio = clamp((openLow + fistHigh) / 2, 1.1, 2.2);
+    }
+  }
+
+  if (samples.pinch.length >= MIN_SAMPLES && samples.open.length >= MIN_SAMPLES) {
+    const pinchHigh = percentile(samples.pinch.map(m => m.pinchDistance), 0.9);
+    const openLow = percentile(samples.open.map(m => m.pinchDistance), 0.1);
+    if (openLow > pinchHigh) {
+      thresholds.pinchDistance = clamp((openLow + pinchHigh) / 2, 0.02, 0.12);
+    }
+  }
+
+  return thresholds;
+};
+
+export const describeThresholds = (thresholds: Partial<PoseThresholds>) => ({
+  extensionRatio: thresholds.extensionRatio ?? DEFAULT_POSE_THRESHOLDS.extensionRatio,
+  pinchDistance: thresholds.pinchDistance ?? DEFAULT_POSE_THRESHOLDS.pinchDistance,
+});
+
+// Thresholds belong to whoever is in front of the camera right now: keep them for the session only
+export const loadSessionThresholds = (): Partial<PoseThresholds> | undefined => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveSessionThresholds = (thresholds: Partial<PoseThresholds> | undefined) => {
+  try {
+    if (thresholds) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Could not save gesture thresholds:', error);
+  }
+};
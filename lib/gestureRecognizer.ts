@@ -0,0 +1,364 @@
+import { GestureType } from '../types';
+import { createMotionGestureDetector, MotionGestureDetector, MotionThresholds } from './motionGestures';
+
+/**
+ * Pure hand-gesture recognizer.
+ *
+ * Feed it the landmark frames produced by MediaPipe's HandLandmarker (plus the
+ * timestamp they were taken at) and it returns the pose seen in that frame, the
+ * gesture that is currently held long enough to count, and any discrete gesture
+ * events that fired, static poses and palm-motion gestures alike. Frame counting,
+ * cooldowns and debounce all live in here so the logic can run against recorded
+ * fixtures without a webcam or React.
+ */
+
+// A single MediaPipe hand landmark in normalized image coordinates
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Handedness {
+  categoryName: string;
+  score: number;
+}
+
+// One HandLandmarker.detectForVideo result, stamped with the time it was taken
+export interface HandFrame {
+  landmarks: Landmark[][];
+  handednesses?: Handedness[][];
+  timestamp: number;
+}
+
+export interface HandPose {
+  palm: { x: number; y: number };
+  extendedFingers: number;
+  fingerStates: [boolean, boolean, boolean, boolean]; // index, middle, ring, pinky
+  thumbExtended: boolean;
+  thumbDirection: 'up' | 'down' | 'side';
+  isPinching: boolean;
+  pinchPoint: { x: number; y: number }; // Midpoint of thumb tip and index tip
+}
+
+export interface PoseThresholds {
+  extensionRatio: number; // Fingertip-to-wrist must exceed base-to-wrist by this ratio
+  thumbExtensionRatio: number;
+  pinchDistance: number; // Max thumb tip to index tip distance
+  thumbDirectionOffset: number; // Min vertical gap between thumb tip and base for up/down
+}
+
+export interface GestureTiming {
+  holdFrames: number; // Consecutive frames needed before the gesture counts
+  cooldownMs: number; // Minimum time between two events of the same gesture
+  repeat: boolean; // Keep firing while held (respecting cooldown) instead of once per hold
+}
+
+export interface GestureEvent {
+  type: GestureType;
+  hand: HandSide; // Which of the user's hands made it
+  confidence: number;
+  timestamp: number;
+  palm: { x: number; y: number };
+}
+
+export interface GestureFrameResult {
+  timestamp: number;
+  handsCount: number;
+  palm: { x: number; y: number } | null;
+  extendedFingers: number;
+  pose: GestureType | null; // Raw classification of this frame
+  hands: { side: HandSide; pose: GestureType | null; palm: { x: number; y: number } }[];
+  active: { type: GestureType; hand: HandSide }[]; // Poses held for at least their holdFrames
+  confidence: number;
+  counters: Record<GestureType, number>; // Hold counters of the first hand
+  events: GestureEvent[];
+  twoHandPinch: [{ x: number; y: number }, { x: number; y: number }] | null; // Pinch points while both hands pinch
+}
+
+export interface GestureRecognizerOptions {
+  thresholds?: Partial<PoseThresholds>;
+  motion?: Partial<MotionThresholds>;
+  timing?: Partial<Record<GestureType, Partial<GestureTiming>>>;
+}
+
+export interface GestureRecognizer {
+  process: (frame: HandFrame) => GestureFrameResult;
+  reset: () => void;
+}
+
+export const DEFAULT_POSE_THRESHOLDS: PoseThresholds = {
+  extensionRatio: 1.5,
+  thumbExtensionRatio: 1.2,
+  pinchDistance: 0.05,
+  thumbDirectionOffset: 0.05,
+};
+
+export const DEFAULT_GESTURE_TIMING: Record<GestureType, GestureTiming> = {
+  [GestureType.OPEN_PALM]: { holdFrames: 5, cooldownMs: 0, repeat: false },
+  [GestureType.FIST]: { holdFrames: 5, cooldownMs: 0, repeat: false },
+  [GestureType.PINCH_LEFT]: { holdFrames: 5, cooldownMs: 500, repeat: true },
+  [GestureType.PINCH_RIGHT]: { holdFrames: 5, cooldownMs: 500, repeat: true },
+  [GestureType.THUMBS_UP]: { holdFrames: 5, cooldownMs: 0, repeat: true },
+  [GestureType.THUMBS_DOWN]: { holdFrames: 5, cooldownMs: 0, repeat: true },
+  [GestureType.VICTORY]: { holdFrames: 5, cooldownMs: 2000, repeat: true },
+  // Motion gestures fire when the stroke completes; holdFrames doesn't apply
+  [GestureType.SWIPE_LEFT]: { holdFrames: 0, cooldownMs: 400, repeat: true },
+  [GestureType.SWIPE_RIGHT]: { holdFrames: 0, cooldownMs: 400, repeat: true },
+  [GestureType.STIR]: { holdFrames: 0, cooldownMs: 1000, repeat: true },
+  [GestureType.FLICK_UP]: { holdFrames: 0, cooldownMs: 1000, repeat: true },
+};
+
+const ALL_GESTURES = Object.values(GestureType) as GestureType[];
+
+const emptyCounters = (): Record<GestureType, number> =>
+  ALL_GESTURES.reduce((acc, type) => {
+    acc[type] = 0;
+    return acc;
+  }, {} as Record<GestureType, number>);
+
+// Average of the wrist and the four finger bases
+export const palmCenter = (landmarks: Landmark[]) => ({
+  x: (landmarks[0].x + landmarks[5].x + landmarks[9].x + landmarks[13].x + landmarks[17].x) / 5,
+  y: (landmarks[0].y + landmarks[5].y + landmarks[9].y + landmarks[13].y + landmarks[17].y) / 5,
+});
+
+export interface HandMetrics {
+  fingerRatios: [number, number, number, number]; // Tip-to-wrist / base-to-wrist: index, middle, ring, pinky
+  thumbRatio: number;
+  pinchDistance: number; // Thumb tip to index tip
+}
+
+// Raw, threshold-free measurements; also what the tutorial samples to calibrate thresholds
+export const handMetrics = (landmarks: Landmark[]): HandMetrics => {
+  // 0 is Wrist
+  // Tips: 4 (Thumb), 8 (Index), 12 (Middle), 16 (Ring), 20 (Pinky)
+  // Bases (MCP): 2 (Thumb), 5, 9, 13, 17
+  const wrist = landmarks[0];
+  const distToWrist = (point: Landmark) => Math.hypot(point.x - wrist.x, point.y - wrist.y);
+  const ratio = (tip: number, base: number) => distToWrist(landmarks[tip]) / Math.max(1e-6, distToWrist(landmarks[base]));
+
+  return {
+    fingerRatios: [ratio(8, 5), ratio(12, 9), ratio(16, 13), ratio(20, 17)],
+    thumbRatio: ratio(4, 2),
+    pinchDistance: Math.hypot(landmarks[4].x - landmarks[8].x, landmarks[4].y - landmarks[8].y),
+  };
+};
+
+export const classifyHand = (landmarks: Landmark[], thresholds: PoseThresholds = DEFAULT_POSE_THRESHOLDS): HandPose => {
+  const metrics = handMetrics(landmarks);
+  const thumbTip = landmarks[4];
+  const thumbBase = landmarks[2];
+
+  const fingerStates = metrics.fingerRatios.map(r => r > thresholds.extensionRatio) as HandPose['fingerStates'];
+  const thumbExtended = metrics.thumbRatio > thresholds.thumbExtensionRatio;
+  const extendedFingers = fingerStates.filter(Boolean).length + (thumbExtended ? 1 : 0);
+
+  let thumbDirection: HandPose['thumbDirection'] = 'side';
+  if (thumbTip.y < thumbBase.y - thresholds.thumbDirectionOffset) thumbDirection = 'up';
+  else if (thumbTip.y > thumbBase.y + thresholds.thumbDirectionOffset) thumbDirection = 'down';
+
+  return {
+    palm: palmCenter(landmarks),
+    extendedFingers,
+    fingerStates,
+    thumbExtended,
+    thumbDirection,
+    isPinching: metrics.pinchDistance < thresholds.pinchDistance,
+    pinchPoint: { x: (thumbTip.x + landmarks[8].x) / 2, y: (thumbTip.y + landmarks[8].y) / 2 },
+  };
+};
+
+export type HandSide = 'left' | 'right';
+
+const MIN_HANDEDNESS_SCORE = 0.6;
+
+const otherSide = (side: HandSide): HandSide => (side === 'left' ? 'right' : 'left');
+
+// Which of the user's hands each detected hand is. MediaPipe labels assume a mirrored
+// (selfie) image, but frames come straight from the webcam, so 'Left' is the user's right hand.
+export const assignHandSides = (allLandmarks: Landmark[][], handednesses?: Handedness[][]): HandSide[] => {
+  const sides = allLandmarks.map((landmarks, i) => {
+    const top = handednesses?.[i]?.[0];
+    if (top && top.score >= MIN_HANDEDNESS_SCORE) {
+      return { side: (top.categoryName === 'Left' ? 'right' : 'left') as HandSide, score: top.score };
+    }
+    // No confident label (e.g. recordings made before handedness was kept): fall back to position.
+    // Camera is mirrored: hand on RIGHT side of image (X > 0.5) = User's LEFT hand
+    return { side: (palmCenter(landmarks).x > 0.5 ? 'left' : 'right') as HandSide, score: 0 };
+  });
+
+  // One person can't show the same hand twice: trust the more confident label
+  if (sides.length === 2 && sides[0].side === sides[1].side) {
+    const weaker = sides[0].score < sides[1].score ? 0 : 1;
+    sides[weaker].side = otherSide(sides[weaker].side);
+  }
+
+  return sides.map(({ side }) => side);
+};
+
+const isPinchGesture = (pose: GestureType | null) => pose === GestureType.PINCH_LEFT || pose === GestureType.PINCH_RIGHT;
+
+// Static pose of one hand. Priority: Pinch > Thumbs > Victory > Open/Closed
+export const poseOfHand = (hand: HandPose, side: HandSide): GestureType | null => {
+  const otherFingersClosed = hand.fingerStates.every(extended => !extended);
+  const [index, middle, ring, pinky] = hand.fingerStates;
+
+  if (hand.isPinching) return side === 'left' ? GestureType.PINCH_LEFT : GestureType.PINCH_RIGHT;
+  if (hand.thumbExtended && hand.thumbDirection === 'up' && otherFingersClosed) return GestureType.THUMBS_UP;
+  if (hand.thumbExtended && hand.thumbDirection === 'down' && otherFingersClosed) return GestureType.THUMBS_DOWN;
+  if (index && middle && !ring && !pinky && !hand.thumbExtended) return GestureType.VICTORY;
+  if (hand.extendedFingers >= 4) return GestureType.OPEN_PALM;
+  if (hand.extendedFingers <= 1 && !hand.thumbExtended) return GestureType.FIST;
+  return null;
+};
+
+export interface ClassifiedHand {
+  side: HandSide;
+  hand: HandPose;
+  pose: GestureType | null;
+}
+
+// Classify every hand in a frame. `pose` is the frame's headline pose: a pinch on any hand, else the first hand's pose.
+export const classifyFrame = (allLandmarks: Landmark[][], thresholds: PoseThresholds = DEFAULT_POSE_THRESHOLDS, handednesses?: Handedness[][]) => {
+  const sides = assignHandSides(allLandmarks, handednesses);
+  const poses = allLandmarks.map(landmarks => classifyHand(landmarks, thresholds));
+  const main = poses[0];
+
+  // Both hands pinching is the two-hand zoom/rotate grab, not a single pinch
+  const pinching = poses.filter(hand => hand.isPinching);
+  const twoHandPinch = pinching.length >= 2
+    ? [pinching[0].pinchPoint, pinching[1].pinchPoint] as [HandPose['pinchPoint'], HandPose['pinchPoint']]
+    : null;
+
+  const hands: ClassifiedHand[] = poses.map((hand, i) => ({
+    side: sides[i],
+    hand,
+    pose: twoHandPinch ? null : poseOfHand(hand, sides[i]),
+  }));
+
+  const pose = hands.find(h => isPinchGesture(h.pose))?.pose ?? hands[0].pose;
+
+  return { pose, main, poses, hands, twoHandPinch };
+};
+
+interface HandState {
+  counters: Record<GestureType, number>;
+  motion: MotionGestureDetector;
+}
+
+export const createGestureRecognizer = (options: GestureRecognizerOptions = {}): GestureRecognizer => {
+  const thresholds: PoseThresholds = { ...DEFAULT_POSE_THRESHOLDS, ...options.thresholds };
+  const timing = ALL_GESTURES.reduce((acc, type) => {
+    acc[type] = { ...DEFAULT_GESTURE_TIMING[type], ...options.timing?.[type] };
+    return acc;
+  }, {} as Record<GestureType, GestureTiming>);
+
+  // Hold counters and palm trajectories are per hand; cooldowns are per gesture
+  const createHandState = (): HandState => ({ counters: emptyCounters(), motion: createMotionGestureDetector(options.motion) });
+  let handStates: Record<HandSide, HandState> = { left: createHandState(), right: createHandState() };
+  let lastFired: Partial<Record<GestureType, number>> = {};
+  let firedThisHold = new Set<GestureType>();
+
+  const confidenceOf = (state: HandState, type: GestureType) => Math.min(1, state.counters[type] / (timing[type].holdFrames + 1));
+
+  // Decay instead of reset so a one-frame dropout doesn't break a held gesture
+  const decay = (state: HandState) => {
+    state.motion.reset();
+    ALL_GESTURES.forEach(type => {
+      state.counters[type] = Math.max(0, state.counters[type] - 1);
+    });
+  };
+
+  // A hold is over once no hand shows the gesture any more
+  const releaseHolds = () => {
+    ALL_GESTURES.forEach(type => {
+      if (handStates.left.counters[type] === 0 && handStates.right.counters[type] === 0) firedThisHold.delete(type);
+    });
+  };
+
+  const process = (frame: HandFrame): GestureFrameResult => {
+    const { landmarks, timestamp } = frame;
+
+    if (landmarks.length === 0) {
+      decay(handStates.left);
+      decay(handStates.right);
+      releaseHolds();
+      return {
+        timestamp,
+        handsCount: 0,
+        palm: null,
+        extendedFingers: 0,
+        pose: null,
+        hands: [],
+        active: [],
+        confidence: 0,
+        counters: { ...handStates.left.counters },
+        events: [],
+        twoHandPinch: null,
+      };
+    }
+
+    const { pose, main, hands, twoHandPinch } = classifyFrame(landmarks, thresholds, frame.handednesses);
+    const events: GestureEvent[] = [];
+    const active: { type: GestureType; hand: HandSide }[] = [];
+
+    (['left', 'right'] as HandSide[]).forEach(side => {
+      const state = handStates[side];
+      const current = hands.find(h => h.side === side);
+      if (!current) {
+        decay(state);
+        return;
+      }
+
+      ALL_GESTURES.forEach(type => {
+        state.counters[type] = type === current.pose ? state.counters[type] + 1 : 0;
+      });
+      releaseHolds();
+
+      const handPose = current.pose;
+      if (handPose && state.counters[handPose] > timing[handPose].holdFrames) {
+        active.push({ type: handPose, hand: side });
+        const { cooldownMs, repeat } = timing[handPose];
+        const sinceLast = timestamp - (lastFired[handPose] ?? -Infinity);
+
+        if ((repeat || !firedThisHold.has(handPose)) && sinceLast > cooldownMs) {
+          events.push({ type: handPose, hand: side, confidence: confidenceOf(state, handPose), timestamp, palm: current.hand.palm });
+          lastFired[handPose] = timestamp;
+          firedThisHold.add(handPose);
+        }
+      }
+
+      // The two-hand grab moves the palms too, so it never counts as a swipe or stir
+      const motion = state.motion.process(twoHandPinch ? null : current.hand.palm, timestamp);
+      if (motion && timestamp - (lastFired[motion] ?? -Infinity) > timing[motion].cooldownMs) {
+        events.push({ type: motion, hand: side, confidence: 1, timestamp, palm: current.hand.palm });
+        lastFired[motion] = timestamp;
+      }
+    });
+
+    const mainState = handStates[hands[0].side];
+
+    return {
+      timestamp,
+      handsCount: landmarks.length,
+      palm: main.palm,
+      extendedFingers: main.extendedFingers,
+      pose,
+      hands: hands.map(({ side, hand, pose }) => ({ side, pose, palm: hand.palm })),
+      active,
+      confidence: pose ? confidenceOf(mainState, pose) : 0,
+      counters: { ...mainState.counters },
+      events,
+      twoHandPinch,
+    };
+  };
+
+  const reset = () => {
+    handStates = { left: createHandState(), right: createHandState() };
+    lastFired = {};
+    firedThisHold = new Set();
+  };
+
+  return { process, reset };
+};
@@ -0,0 +1,21 @@
+import { GestureFrameResult, HandFrame } from './gestureRecognizer';
+
+/**
+ * Per-frame hand tracking feed for UI outside GestureController (tutorial, calibration)
+ * that needs every frame without re-rendering App through React state.
+ */
+
+export type HandFrameListener = (frame: HandFrame, result: GestureFrameResult) => void;
+
+const listeners = new Set<HandFrameListener>();
+
+export const subscribeHandFrames = (listener: HandFrameListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const publishHandFrame = (frame: HandFrame, result: GestureFrameResult) => {
+  listeners.forEach(listener => listener(frame, result));
+};
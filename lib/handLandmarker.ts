@@ -0,0 +1,53 @@
+import { FilesetResolver, HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HandFrame } from './gestureRecognizer';
+import { AssetSource, CONFIGURED_ASSET_SOURCES } from './mediapipeAssets';
+
+/**
+ * HandLandmarker setup shared by the main thread and the hand-tracking worker.
+ * Must stay free of DOM-only APIs so it can be bundled into the worker.
+ */
+
+export interface HandLandmarkerOptions {
+  sources: AssetSource[]; // Tried in order until one loads
+  numHands: number;
+}
+
+export const DEFAULT_LANDMARKER_OPTIONS: HandLandmarkerOptions = {
+  // Self-hosted assets first (npm run vendor-mediapipe), then jsDelivr and Google Storage
+  sources: CONFIGURED_ASSET_SOURCES,
+  numHands: 2,
+};
+
+const loadFromSource = async (source: AssetSource, numHands: number) => {
+  const vision = await FilesetResolver.forVisionTasks(source.wasmPath);
+  return HandLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: source.modelAssetPath,
+      delegate: 'GPU'
+    },
+    runningMode: 'VIDEO',
+    numHands
+  });
+};
+
+// Falls back through the asset sources and reports which one loaded
+export const createHandLandmarker = async (options: HandLandmarkerOptions) => {
+  const failures: string[] = [];
+  for (const source of options.sources) {
+    try {
+      const landmarker = await loadFromSource(source, options.numHands);
+      return { landmarker, source: source.id };
+    } catch (error: any) {
+      console.warn(`MediaPipe assets from "${source.id}" failed to load:`, error);
+      failures.push(`${source.id}: ${error?.message || error}`);
+    }
+  }
+  throw new Error(`No MediaPipe asset source could be loaded (${failures.join('; ')})`);
+};
+
+// Strip MediaPipe result objects down to plain, cloneable data
+export const toHandFrame = (result: HandLandmarkerResult, timestamp: number): HandFrame => ({
+  timestamp,
+  landmarks: (result.landmarks ?? []).map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+  handednesses: (result.handednesses ?? []).map(hand => hand.map(({ categoryName, score }) => ({ categoryName, score }))),
+});
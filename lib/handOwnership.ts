@@ -0,0 +1,195 @@
+import { AppAction } from '../types';
+import { classifyHand, DEFAULT_POSE_THRESHOLDS, HandFrame, palmCenter, PoseThresholds } from './gestureRecognizer';
+
+/**
+ * Multi-person mode: with several people in frame, every detected hand gets a
+ * stable id across frames (matched to the nearest hand seen last frame) and a
+ * single hand is elected controller. A hand claims control by raising an open
+ * palm above the claim line and holding it there; the claim only succeeds
+ * while the current controller is out of frame, so two people can't fight
+ * over control. Control is released once the controller has been gone for a
+ * while. Every other hand is a guest.
+ */
+
+export const MULTI_PERSON_MAX_HANDS = 4;
+
+export type GuestRole = 'ignore' | 'photos';
+
+// What guests may still do in the 'photos' role
+export const GUEST_ACTIONS: AppAction[] = [AppAction.PHOTO_PREV, AppAction.PHOTO_NEXT, AppAction.OPEN_PHOTO_VIEWER];
+
+export interface MultiPersonSettings {
+  enabled: boolean;
+  guestRole: GuestRole;
+}
+
+export const DEFAULT_MULTI_PERSON_SETTINGS: MultiPersonSettings = {
+  enabled: false,
+  guestRole: 'photos',
+};
+
+export interface HandOwnershipOptions {
+  matchDistance: number; // Max palm travel between frames to keep the same id (normalized)
+  forgetAfterMs: number; // Drop a hand's id once unseen this long
+  releaseAfterMs: number; // Free control once the controller is unseen this long
+  claimHoldMs: number; // How long the raised open palm must be held
+  claimLineY: number; // Palm must be above this (image y grows downward)
+  thresholds?: Partial<PoseThresholds>;
+}
+
+export const DEFAULT_OWNERSHIP_OPTIONS: HandOwnershipOptions = {
+  matchDistance: 0.15,
+  forgetAfterMs: 500,
+  releaseAfterMs: 2000,
+  claimHoldMs: 1000,
+  claimLineY: 0.35,
+};
+
+export interface OwnedHand {
+  id: number;
+  index: number; // Position in the frame's landmark list
+  isController: boolean;
+  claimProgress: number; // 0..1 while holding the claim gesture
+}
+
+export interface OwnershipResult {
+  hands: OwnedHand[];
+  controllerId: number | null;
+  controllerIndex: number; // -1 when the controller isn't in this frame
+}
+
+export interface HandOwnership {
+  process: (frame: HandFrame) => OwnershipResult;
+  reset: () => void;
+}
+
+interface Track {
+  palm: { x: number; y: number };
+  lastSeen: number;
+  claimStart: number | null;
+}
+
+export const createHandOwnership = (options: Partial<HandOwnershipOptions> = {}): HandOwnership => {
+  const { matchDistance, forgetAfterMs, releaseAfterMs, claimHoldMs, claimLineY, thresholds } = { ...DEFAULT_OWNERSHIP_OPTIONS, ...options };
+  const poseThresholds = { ...DEFAULT_POSE_THRESHOLDS, ...thresholds };
+
+  let tracks = new Map<number, Track>();
+  let nextId = 1;
+  let controllerId: number | null = null;
+
+  // Greedy nearest-pair matching of this frame's palms to recently seen tracks. The controller
+  // rides out missed detections like any hand, but once it has been gone longer than forgetAfterMs
+  // its track is kept just to time the release, and whoever shows up where its palm was has to
+  // claim control like anyone else.
+  const matchIds = (palms: { x: number; y: number }[], timestamp: number): number[] => {
+    const pairs: { index: number; id: number; distance: number }[] = [];
+    palms.forEach((palm, index) => {
+      tracks.forEach((track, id) => {
+        if (timestamp - track.lastSeen > forgetAfterMs) return;
+        const distance = Math.hypot(palm.x - track.palm.x, palm.y - track.palm.y);
+        if (distance <= matchDistance) pairs.push({ index, id, distance });
+      });
+    });
+    pairs.sort((a, b) => a.distance - b.distance);
+
+    const ids: number[] = new Array(palms.length).fill(0);
+    const usedIds = new Set<number>();
+    pairs.forEach(({ index, id }) => {
+      if (ids[index] || usedIds.has(id)) return;
+      ids[index] = id;
+      usedIds.add(id);
+    });
+
+    return ids.map(id => id || nextId++);
+  };
+
+  const process = (frame: HandFrame): OwnershipResult => {
+    const { landmarks, timestamp } = frame;
+    const palms = landmarks.map(palmCenter);
+    const ids = matchIds(palms, timestamp);
+
+    ids.forEach((id, index) => {
+      const track = tracks.get(id);
+      tracks.set(id, { palm: palms[index], lastSeen: timestamp, claimStart: track?.claimStart ?? null });
+    });
+    tracks.forEach((track, id) => {
+      if (timestamp - track.lastSeen > forgetAfterMs && id !== controllerId) tracks.delete(id);
+    });
+
+    // Release control after the controller has been gone for the grace period
+    if (controllerId !== null) {
+      const controller = tracks.get(controllerId);
+      if (!controller || timestamp - controller.lastSeen > releaseAfterMs) {
+        tracks.delete(controllerId);
+        controllerId = null;
+      }
+    }
+
+    const controllerPresent = controllerId !== null && ids.includes(controllerId);
+
+    const claimProgress = ids.map((id, index) => {
+      const track = tracks.get(id)!;
+      const hand = classifyHand(landmarks[index], poseThresholds);
+      const claiming = id !== controllerId && hand.extendedFingers >= 4 && hand.palm.y < claimLineY;
+      if (!claiming) {
+        track.claimStart = null;
+        return 0;
+      }
+
+      track.claimStart = track.claimStart ?? timestamp;
+      const progress = Math.min(1, (timestamp - track.claimStart) / claimHoldMs);
+      // First come keeps control: a claim can only take over from an absent controller
+      if (progress >= 1 && !controllerPresent) {
+        controllerId = id;
+        track.claimStart = null;
+      }
+      return progress;
+    });
+
+    const hands = ids.map((id, index) => ({
+      id,
+      index,
+      isController: id === controllerId,
+      claimProgress: id === controllerId ? 0 : claimProgress[index],
+    }));
+
+    return {
+      hands,
+      controllerId,
+      controllerIndex: controllerId === null ? -1 : ids.indexOf(controllerId),
+    };
+  };
+
+  const reset = () => {
+    tracks = new Map();
+    nextId = 1;
+    controllerId = null;
+  };
+
+  return { process, reset };
+};
+
+// A frame holding only the given hands, for feeding one recognizer per hand
+export const selectHands = (frame: HandFrame, indices: number[]): HandFrame => ({
+  landmarks: indices.map(i => frame.landmarks[i]),
+  handednesses: frame.handednesses && indices.map(i => frame.handednesses![i]),
+  timestamp: frame.timestamp,
+});
+
+const STORAGE_KEY = 'multiPersonSettings';
+
+export const loadMultiPersonSettings = (): MultiPersonSettings => {
+  try {
+    return { ...DEFAULT_MULTI_PERSON_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_MULTI_PERSON_SETTINGS;
+  }
+};
+
+export const saveMultiPersonSettings = (settings: MultiPersonSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save multi-person settings:', error);
+  }
+};
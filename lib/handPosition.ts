@@ -0,0 +1,105 @@
+import { createOneEuroFilter } from './oneEuroFilter';
+
+/**
+ * Turns the raw palm center from the landmarker into the normalized hand position
+ * that drives the camera orbit: One Euro smoothing, then the user's calibrated
+ * comfortable range stretched to 0..1, then a dead zone around the center.
+ */
+
+export interface HandRange {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface HandPositionSettings {
+  minCutoff: number; // One Euro smoothing at rest
+  beta: number; // One Euro responsiveness when moving
+  deadZone: number; // Half-width of the neutral zone around the center (0..0.4)
+  range: HandRange;
+}
+
+// Matches the old fixed mapping: y from 0.2 to 0.7 covered the full polar range
+export const DEFAULT_HAND_RANGE: HandRange = { minX: 0, maxX: 1, minY: 0.2, maxY: 0.7 };
+
+export const DEFAULT_HAND_POSITION_SETTINGS: HandPositionSettings = {
+  minCutoff: 1.0,
+  beta: 1.0,
+  deadZone: 0.05,
+  range: DEFAULT_HAND_RANGE,
+};
+
+const STORAGE_KEY = 'handPositionSettings';
+
+export const loadHandPositionSettings = (): HandPositionSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      ...DEFAULT_HAND_POSITION_SETTINGS,
+      ...stored,
+      range: { ...DEFAULT_HAND_RANGE, ...stored.range },
+    };
+  } catch {
+    return DEFAULT_HAND_POSITION_SETTINGS;
+  }
+};
+
+export const saveHandPositionSettings = (settings: HandPositionSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save hand position settings:', error);
+  }
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Stretch [min, max] to [0, 1], then flatten the middle so a resting hand doesn't drift
+const normalizeAxis = (value: number, min: number, max: number, deadZone: number) => {
+  const v = clamp01((value - min) / Math.max(0.01, max - min));
+  const offset = v - 0.5;
+  if (Math.abs(offset) <= deadZone) return 0.5;
+  return clamp01(0.5 + Math.sign(offset) * ((Math.abs(offset) - deadZone) / (0.5 - deadZone)) * 0.5);
+};
+
+export const createHandPositionFilter = (settings: HandPositionSettings) => {
+  const filterX = createOneEuroFilter({ minCutoff: settings.minCutoff, beta: settings.beta });
+  const filterY = createOneEuroFilter({ minCutoff: settings.minCutoff, beta: settings.beta });
+
+  return {
+    apply: (x: number, y: number, timestampMs: number) => {
+      const { range, deadZone } = settings;
+      return {
+        x: normalizeAxis(filterX.filter(x, timestampMs), range.minX, range.maxX, deadZone),
+        y: normalizeAxis(filterY.filter(y, timestampMs), range.minY, range.maxY, deadZone),
+      };
+    },
+    reset: () => {
+      filterX.reset();
+      filterY.reset();
+    },
+  };
+};
+
+// Comfortable range from raw palm samples; percentiles drop the odd misdetection
+export const computeHandRange = (samples: { x: number; y: number }[]): HandRange | null => {
+  if (samples.length < 20) return null;
+
+  const percentile = (values: number[], p: number) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor((sorted.length - 1) * p)];
+  };
+  const xs = samples.map(s => s.x);
+  const ys = samples.map(s => s.y);
+  const range = {
+    minX: percentile(xs, 0.05),
+    maxX: percentile(xs, 0.95),
+    minY: percentile(ys, 0.05),
+    maxY: percentile(ys, 0.95),
+  };
+
+  // Barely moved: keep the defaults rather than an unusably tiny range
+  if (range.maxX - range.minX < 0.1 || range.maxY - range.minY < 0.1) return null;
+  return range;
+};
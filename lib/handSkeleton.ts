@@ -0,0 +1,66 @@
+import { Landmark } from './gestureRecognizer';
+import { documentPrimaryColor } from './themes';
+
+// Hand connections (MediaPipe hand model)
+const HAND_CONNECTIONS = [
+  // Thumb
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  // Index finger
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  // Middle finger
+  [0, 9], [9, 10], [10, 11], [11, 12],
+  // Ring finger
+  [0, 13], [13, 14], [14, 15], [15, 16],
+  // Pinky
+  [0, 17], [17, 18], [18, 19], [19, 20],
+  // Palm
+  [5, 9], [9, 13], [13, 17]
+];
+
+// Draw a single hand without clearing canvas
+export const drawSingleHandSkeleton = (landmarks: Landmark[], ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, color = documentPrimaryColor()) => {
+  // Draw connections (lines)
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = color; // Theme accent by default
+  HAND_CONNECTIONS.forEach(([start, end]) => {
+    const startPoint = landmarks[start];
+    const endPoint = landmarks[end];
+
+    ctx.beginPath();
+    ctx.moveTo(startPoint.x * canvas.width, startPoint.y * canvas.height);
+    ctx.lineTo(endPoint.x * canvas.width, endPoint.y * canvas.height);
+    ctx.stroke();
+  });
+
+  // Draw landmarks (points)
+  landmarks.forEach((landmark) => {
+    const x = landmark.x * canvas.width;
+    const y = landmark.y * canvas.height;
+
+    ctx.beginPath();
+    ctx.arc(x, y, 3, 0, 2 * Math.PI);
+
+    // Use green for all points
+    ctx.fillStyle = '#228B22'; // Forest green color
+    ctx.fill();
+
+    // Add outline
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 0.5;
+    ctx.stroke();
+  });
+};
+
+// Clear the canvas once, then draw every detected hand (optionally one color per hand)
+export const drawAllHands = (canvas: HTMLCanvasElement, allLandmarks: Landmark[][], width: number, height: number, colors?: string[]) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  allLandmarks.forEach((landmarks, i) => {
+    drawSingleHandSkeleton(landmarks, ctx, canvas, colors?.[i]);
+  });
+};
@@ -0,0 +1,149 @@
+import { HandFrame } from './gestureRecognizer';
+import { createHandLandmarker, HandLandmarkerOptions, toHandFrame } from './handLandmarker';
+import type { HandTrackingRequest, HandTrackingResponse } from './handTracking.worker';
+
+/**
+ * Hand-tracking backends behind one async interface: a Web Worker when the
+ * browser can hand video frames to it, the main thread otherwise.
+ */
+
+export interface TrackedFrame extends HandFrame {
+  inferenceMs: number;
+}
+
+export interface HandTracker {
+  detect: (video: HTMLVideoElement, timestamp: number) => Promise<TrackedFrame>;
+  close: () => void;
+  runsInWorker: boolean;
+  assetSource: string; // Id of the asset source the model loaded from
+}
+
+const supportsWorkerTracking = () =>
+  typeof Worker !== 'undefined' && typeof createImageBitmap === 'function' && typeof OffscreenCanvas !== 'undefined';
+
+const createMainThreadTracker = async (options: HandLandmarkerOptions): Promise<HandTracker> => {
+  const { landmarker: handLandmarker, source } = await createHandLandmarker(options);
+
+  return {
+    runsInWorker: false,
+    assetSource: source,
+    detect: async (video, timestamp) => {
+      const start = performance.now();
+      const result = handLandmarker.detectForVideo(video, timestamp);
+      return { ...toHandFrame(result, timestamp), inferenceMs: performance.now() - start };
+    },
+    close: () => handLandmarker.close(),
+  };
+};
+
+// A worker that hasn't loaded the model by then is given up on, like one that failed to
+const WORKER_INIT_TIMEOUT_MS = 30000;
+
+/**
+ * Runs inference in a worker. If the worker dies once running, the frame in
+ * flight is rejected and later frames go to a main-thread tracker instead.
+ */
+const createWorkerTracker = (options: HandLandmarkerOptions): Promise<HandTracker> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./handTracking.worker.ts', import.meta.url), { type: 'module' });
+    const send = (message: HandTrackingRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+    // Only one frame is ever in flight, so a single pending slot is enough
+    let pending: { resolve: (frame: TrackedFrame) => void; reject: (error: Error) => void } | null = null;
+    let ready = false;
+    let closed = false;
+    let fallback: Promise<HandTracker> | null = null;
+
+    const tracker: HandTracker = {
+      runsInWorker: true,
+      assetSource: '',
+      detect: async (video, timestamp) => {
+        if (closed) throw new Error('Hand tracker closed');
+        if (fallback) return (await fallback).detect(video, timestamp);
+        if (pending) throw new Error('Detection already in progress');
+        const frame = await createImageBitmap(video);
+        if (fallback) {
+          frame.close();
+          return (await fallback).detect(video, timestamp);
+        }
+        return new Promise<TrackedFrame>((resolveFrame, rejectFrame) => {
+          pending = { resolve: resolveFrame, reject: rejectFrame };
+          send({ type: 'detect', frame, timestamp }, [frame]);
+        });
+      },
+      close: () => {
+        closed = true;
+        if (fallback) {
+          fallback.then(mainThread => mainThread.close(), () => {});
+        } else {
+          send({ type: 'close' });
+        }
+        pending?.reject(new Error('Hand tracker closed'));
+        pending = null;
+      },
+    };
+
+    // The worker is gone for good: before it was ready the caller falls back, afterwards we do
+    const fail = (error: Error) => {
+      clearTimeout(initTimer);
+      worker.terminate();
+      if (!ready) {
+        reject(error);
+        return;
+      }
+
+      pending?.reject(error);
+      pending = null;
+      if (closed || fallback) return;
+      console.warn('Hand tracking worker died, continuing on the main thread:', error);
+      fallback = createMainThreadTracker(options);
+      fallback.then(mainThread => {
+        tracker.runsInWorker = false;
+        tracker.assetSource = mainThread.assetSource;
+      }, () => {});
+    };
+
+    worker.onmessage = (event: MessageEvent<HandTrackingResponse>) => {
+      const message = event.data;
+      const current = pending;
+
+      switch (message.type) {
+        case 'ready':
+          clearTimeout(initTimer);
+          ready = true;
+          tracker.assetSource = message.source;
+          resolve(tracker);
+          break;
+        case 'result':
+          pending = null;
+          current?.resolve({ ...message.frame, inferenceMs: message.inferenceMs });
+          break;
+        case 'error':
+          if (!ready) {
+            fail(new Error(message.message));
+          } else {
+            pending = null;
+            current?.reject(new Error(message.message));
+          }
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      fail(new Error(event.message || 'Hand tracking worker crashed'));
+    };
+
+    const initTimer = setTimeout(() => fail(new Error('Hand tracking worker did not respond')), WORKER_INIT_TIMEOUT_MS);
+    send({ type: 'init', options });
+  });
+
+export const createHandTracker = async (options: HandLandmarkerOptions): Promise<HandTracker> => {
+  if (supportsWorkerTracking()) {
+    try {
+      return await createWorkerTracker(options);
+    } catch (error) {
+      console.warn('Worker hand tracking unavailable, falling back to main thread:', error);
+    }
+  }
+  return createMainThreadTracker(options);
+};
@@ -0,0 +1,80 @@
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { createHandLandmarker, HandLandmarkerOptions, toHandFrame } from './handLandmarker';
+import { HandFrame } from './gestureRecognizer';
+
+/**
+ * Runs HandLandmarker inference off the main thread. The page transfers one
+ * ImageBitmap per detection and gets plain landmark data back.
+ */
+
+export type HandTrackingRequest =
+  | { type: 'init'; options: HandLandmarkerOptions }
+  | { type: 'detect'; frame: ImageBitmap; timestamp: number }
+  | { type: 'close' };
+
+export type HandTrackingResponse =
+  | { type: 'ready'; source: string }
+  | { type: 'error'; message: string }
+  | { type: 'result'; frame: HandFrame; inferenceMs: number };
+
+const workerScope = self as any;
+
+// Vite runs this as a module worker, where importScripts() throws. MediaPipe loads its
+// WASM glue with importScripts, so evaluate the script globally ourselves instead.
+try {
+  workerScope.importScripts();
+} catch {
+  workerScope.importScripts = (...urls: string[]) => {
+    urls.forEach(url => {
+      const request = new XMLHttpRequest();
+      request.open('GET', url, false);
+      request.send();
+      (0, eval)(request.responseText);
+    });
+  };
+}
+
+let handLandmarker: HandLandmarker | null = null;
+
+const respond = (message: HandTrackingResponse) => workerScope.postMessage(message);
+
+workerScope.onmessage = async (event: MessageEvent<HandTrackingRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      try {
+        const { landmarker, source } = await createHandLandmarker(message.options);
+        handLandmarker = landmarker;
+        respond({ type: 'ready', source });
+      } catch (error: any) {
+        respond({ type: 'error', message: error?.message || 'Failed to initialize HandLandmarker' });
+      }
+      break;
+
+    case 'detect': {
+      if (!handLandmarker) {
+        message.frame.close();
+        respond({ type: 'error', message: 'HandLandmarker not initialized' });
+        break;
+      }
+      // Always answer, so the page's pending detection settles and the next frame can go
+      try {
+        const start = performance.now();
+        const result = handLandmarker.detectForVideo(message.frame, message.timestamp);
+        respond({ type: 'result', frame: toHandFrame(result, message.timestamp), inferenceMs: performance.now() - start });
+      } catch (error: any) {
+        respond({ type: 'error', message: error?.message || 'Hand detection failed' });
+      } finally {
+        message.frame.close();
+      }
+      break;
+    }
+
+    case 'close':
+      handLandmarker?.close();
+      handLandmarker = null;
+      workerScope.close();
+      break;
+  }
+};
@@ -0,0 +1,87 @@
+import { HandFrame } from './gestureRecognizer';
+
+/**
+ * Record-and-replay of HandLandmarker sessions.
+ *
+ * A recording is the raw list of detectForVideo results (landmarks, handednesses,
+ * timestamps) including frames with no hand, so replaying it through the gesture
+ * recognizer reproduces the live session exactly.
+ */
+
+export const RECORDING_VERSION = 1;
+
+export interface LandmarkRecording {
+  version: number;
+  createdAt: number;
+  frames: HandFrame[]; // Timestamps are ms relative to the first frame
+}
+
+export interface LandmarkRecorder {
+  start: () => void;
+  capture: (frame: HandFrame) => void;
+  stop: () => LandmarkRecording;
+  isRecording: () => boolean;
+  frameCount: () => number;
+}
+
+export const createLandmarkRecorder = (): LandmarkRecorder => {
+  let frames: HandFrame[] = [];
+  let startTime: number | null = null;
+  let recording = false;
+
+  const capture = (frame: HandFrame) => {
+    if (!recording) return;
+    if (startTime === null) startTime = frame.timestamp;
+
+    // Copy only what we need: MediaPipe objects carry extra fields (visibility, index...)
+    frames.push({
+      timestamp: Math.round((frame.timestamp - startTime) * 100) / 100,
+      landmarks: frame.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+      handednesses: frame.handednesses?.map(hand => hand.map(({ categoryName, score }) => ({ categoryName, score }))),
+    });
+  };
+
+  return {
+    start: () => {
+      frames = [];
+      startTime = null;
+      recording = true;
+    },
+    capture,
+    stop: () => {
+      recording = false;
+      return { version: RECORDING_VERSION, createdAt: Date.now(), frames };
+    },
+    isRecording: () => recording,
+    frameCount: () => frames.length,
+  };
+};
+
+export const parseRecording = (json: string): LandmarkRecording => {
+  const data = JSON.parse(json);
+
+  if (!data || !Array.isArray(data.frames)) {
+    throw new Error('Invalid recording: missing frames');
+  }
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${data.version}`);
+  }
+
+  data.frames.forEach((frame: any, i: number) => {
+    if (typeof frame.timestamp !== 'number' || !Array.isArray(frame.landmarks)) {
+      throw new Error(`Invalid recording: bad frame at index ${i}`);
+    }
+  });
+
+  return data as LandmarkRecording;
+};
+
+export const downloadRecording = (recording: LandmarkRecording, filename = `gesture-session-${recording.createdAt}.json`) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
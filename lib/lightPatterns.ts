@@ -0,0 +1,139 @@
+/**
+ * Light-show patterns for the ornament lights. A pattern is plain data: a
+ * waveform that travels along one coordinate of the tree (spiral, height or a
+ * per-light random phase), an intensity range and a color source. The
+ * ornament light shader evaluates it per light on the GPU, so adding a show
+ * means adding an entry to LIGHT_PATTERNS.
+ */
+
+export type LightWaveform = 'sine' | 'pulse' | 'twinkle' | 'countdown';
+
+// Coordinate the pattern travels along; 'none' lights every bulb in unison
+export type LightPath = 'spiral' | 'height' | 'random' | 'none';
+
+export interface LightPattern {
+  id: string;
+  label: string;
+  waveform: LightWaveform;
+  along: LightPath;
+  speed: number; // Cycles per second
+  repeat: number; // Cycles visible along the path at once
+  width: number; // Lit fraction of each cycle, for 'pulse'
+  min: number; // Emissive intensity range
+  max: number;
+  color: 'theme' | 'rainbow'; // Theme light color, or hue travelling with the wave
+}
+
+export const LIGHT_PATTERNS: LightPattern[] = [
+  { id: 'glow', label: '✨ Lung linh', waveform: 'sine', along: 'random', speed: 0.8, repeat: 6, width: 0.5, min: 1.4, max: 2.6, color: 'theme' },
+  { id: 'chase', label: '🏃 Chạy vòng xoắn', waveform: 'pulse', along: 'spiral', speed: 0.5, repeat: 4, width: 0.25, min: 0.3, max: 4, color: 'theme' },
+  { id: 'twinkle', label: '⭐ Lấp lánh ngẫu nhiên', waveform: 'twinkle', along: 'random', speed: 0.7, repeat: 20, width: 0.5, min: 0.4, max: 5, color: 'theme' },
+  { id: 'wave', label: '🌊 Sóng từ dưới lên', waveform: 'sine', along: 'height', speed: 0.4, repeat: 1.5, width: 0.5, min: 0.4, max: 3.5, color: 'theme' },
+  { id: 'rainbow', label: '🌈 Đổi màu', waveform: 'sine', along: 'spiral', speed: 0.2, repeat: 1, width: 0.5, min: 2, max: 3, color: 'rainbow' },
+  { id: 'countdown', label: '⏱️ Đếm ngược nhấp nháy', waveform: 'countdown', along: 'none', speed: 0.1, repeat: 1, width: 0.5, min: 0.2, max: 5, color: 'theme' },
+];
+
+export const DEFAULT_LIGHT_PATTERN_ID = 'glow';
+
+export const findLightPattern = (id: string) =>
+  LIGHT_PATTERNS.find(pattern => pattern.id === id) ?? LIGHT_PATTERNS[0];
+
+export const nextLightPattern = (id: string) =>
+  LIGHT_PATTERNS[(LIGHT_PATTERNS.indexOf(findLightPattern(id)) + 1) % LIGHT_PATTERNS.length];
+
+// Pattern fields as shader uniforms; the enums become indices into the GLSL below
+const WAVEFORM_INDEX: Record<LightWaveform, number> = { sine: 0, pulse: 1, twinkle: 2, countdown: 3 };
+const PATH_INDEX: Record<LightPath, number> = { spiral: 0, height: 1, random: 2, none: 3 };
+
+export const createLightPatternUniforms = () => ({
+  uPatternWaveform: { value: 0 },
+  uPatternPath: { value: 0 },
+  uPatternSpeed: { value: 0 },
+  uPatternRepeat: { value: 0 },
+  uPatternWidth: { value: 0 },
+  uPatternMin: { value: 0 },
+  uPatternMax: { value: 0 },
+  uPatternRainbow: { value: 0 },
+});
+
+export type LightPatternUniforms = ReturnType<typeof createLightPatternUniforms>;
+
+export const applyLightPattern = (uniforms: LightPatternUniforms, pattern: LightPattern) => {
+  uniforms.uPatternWaveform.value = WAVEFORM_INDEX[pattern.waveform];
+  uniforms.uPatternPath.value = PATH_INDEX[pattern.along];
+  uniforms.uPatternSpeed.value = pattern.speed;
+  uniforms.uPatternRepeat.value = pattern.repeat;
+  uniforms.uPatternWidth.value = pattern.width;
+  uniforms.uPatternMin.value = pattern.min;
+  uniforms.uPatternMax.value = pattern.max;
+  uniforms.uPatternRainbow.value = pattern.color === 'rainbow' ? 1 : 0;
+};
+
+/**
+ * lightLevel(light) -> vec2(intensity, hue). `light` is (height 0..1, angle in
+ * radians, random 0..1); hue is 0..1 when the pattern picks the color and -1
+ * for the theme color, which lightColor(level, themeColor) resolves. Expects a
+ * `uTime` uniform in seconds.
+ */
+export const LIGHT_PATTERN_GLSL = `
+  uniform float uPatternWaveform;
+  uniform float uPatternPath;
+  uniform float uPatternSpeed;
+  uniform float uPatternRepeat;
+  uniform float uPatternWidth;
+  uniform float uPatternMin;
+  uniform float uPatternMax;
+  uniform float uPatternRainbow;
+
+  const float LIGHT_SPIRAL_TURNS = 4.0;
+  const float LIGHT_TAU = 6.2831853;
+
+  float lightPathPosition(vec3 light) {
+    if (uPatternPath < 0.5) return (light.x * LIGHT_SPIRAL_TURNS + fract(light.y / LIGHT_TAU)) / LIGHT_SPIRAL_TURNS;
+    if (uPatternPath < 1.5) return light.x;
+    if (uPatternPath < 2.5) return light.z;
+    return 0.0;
+  }
+
+  // Brightness 0..1 at phase x (in cycles)
+  float lightWave(float x) {
+    if (uPatternWaveform < 0.5) return 0.5 + 0.5 * sin(LIGHT_TAU * x);
+    if (uPatternWaveform < 1.5) return fract(x) < uPatternWidth ? 1.0 : 0.0;
+    if (uPatternWaveform < 2.5) return pow(0.5 + 0.5 * sin(LIGHT_TAU * x), 12.0);
+    // Countdown: strobes faster and faster through the cycle, then holds fully lit for the finale
+    float t = fract(x);
+    if (t > 0.85) return 1.0;
+    return fract(t * t * 40.0) < 0.5 ? 1.0 : 0.0;
+  }
+
+  vec2 lightLevel(vec3 light) {
+    float phase = uTime * uPatternSpeed - lightPathPosition(light) * uPatternRepeat;
+    float intensity = mix(uPatternMin, uPatternMax, lightWave(phase));
+    return vec2(intensity, uPatternRainbow > 0.5 ? fract(phase) : -1.0);
+  }
+
+  vec3 lightColor(vec2 level, vec3 themeColor) {
+    if (level.y < 0.0) return themeColor;
+    // Saturated hue at medium lightness
+    vec3 rgb = clamp(abs(mod(level.y * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+    return 0.6 + 0.9 * (rgb - 0.5) * 0.8;
+  }
+`;
+
+const STORAGE_KEY = 'lightPattern';
+
+export const loadLightPatternId = (): string => {
+  try {
+    return findLightPattern(localStorage.getItem(STORAGE_KEY) || DEFAULT_LIGHT_PATTERN_ID).id;
+  } catch {
+    return DEFAULT_LIGHT_PATTERN_ID;
+  }
+};
+
+export const saveLightPatternId = (id: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (error) {
+    console.warn('Could not save light pattern:', error);
+  }
+};
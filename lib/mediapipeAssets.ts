@@ -0,0 +1,58 @@
+/**
+ * Where the MediaPipe WASM runtime and the hand landmarker model are loaded
+ * from. Sources are tried in order until one initializes; the self-hosted copy
+ * (vendored by scripts/vendor-mediapipe.js) comes first so offline installs
+ * never touch the network.
+ */
+
+export const MEDIAPIPE_VERSION = '0.10.3';
+
+export interface AssetSource {
+  id: string;
+  wasmPath: string;
+  modelAssetPath: string;
+}
+
+const CDN_WASM_PATH = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`;
+const GOOGLE_MODEL_PATH = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+// A directory laid out like public/mediapipe: wasm/ plus hand_landmarker.task
+export const assetSourceFromBase = (id: string, baseUrl: string): AssetSource => {
+  const base = baseUrl.replace(/\/+$/, '');
+  return { id, wasmPath: `${base}/wasm`, modelAssetPath: `${base}/hand_landmarker.task` };
+};
+
+export const BUILTIN_ASSET_SOURCES: Record<string, AssetSource> = {
+  // Vendored into the bundle at build time
+  local: assetSourceFromBase('local', '/mediapipe'),
+  // jsDelivr is reachable in China; the model is still the vendored copy on our own server
+  cdn: { id: 'cdn', wasmPath: CDN_WASM_PATH, modelAssetPath: '/mediapipe/hand_landmarker.task' },
+  // Everything from the internet, last resort
+  google: { id: 'google', wasmPath: CDN_WASM_PATH, modelAssetPath: GOOGLE_MODEL_PATH },
+};
+
+export const DEFAULT_ASSET_SOURCE_IDS = ['local', 'cdn', 'google'];
+
+/**
+ * Parses a comma-separated source list: built-in ids ("local", "cdn",
+ * "google") and/or base URLs of a mirror of public/mediapipe. Unknown ids are
+ * dropped; an empty result falls back to the default order.
+ */
+export const parseAssetSources = (spec?: string): AssetSource[] => {
+  const sources = (spec ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      if (BUILTIN_ASSET_SOURCES[entry]) return BUILTIN_ASSET_SOURCES[entry];
+      if (/^(https?:\/\/|\/)/.test(entry)) return assetSourceFromBase(entry, entry);
+      console.warn(`Unknown MediaPipe asset source "${entry}", ignoring`);
+      return null;
+    })
+    .filter((source): source is AssetSource => source !== null);
+
+  return sources.length > 0 ? sources : DEFAULT_ASSET_SOURCE_IDS.map(id => BUILTIN_ASSET_SOURCES[id]);
+};
+
+// Configured at build time through MEDIAPIPE_SOURCES (see vite.config.ts)
+export const CONFIGURED_ASSET_SOURCES = parseAssetSources(process.env.MEDIAPIPE_SOURCES);
@@ -0,0 +1,141 @@
+import { GestureType } from '../types';
+
+/**
+ * Dynamic gestures read from the palm trajectory rather than a held pose:
+ * a fast horizontal swipe, a quick upward flick, and a circular "stir".
+ *
+ * The detector keeps a short history of palm positions (normalized image
+ * coordinates, camera frame timestamps) and reports at most one motion per
+ * frame. The gesture recognizer turns that into a regular GestureEvent, so
+ * motion gestures bind to actions and respect cooldowns like the static ones.
+ */
+
+export interface MotionThresholds {
+  swipeVelocity: number; // Min horizontal speed, image widths per second
+  flickVelocity: number; // Min upward speed, image heights per second
+  stirSpeed: number; // Min circling speed, turns per second
+}
+
+export const DEFAULT_MOTION_THRESHOLDS: MotionThresholds = {
+  swipeVelocity: 1.5,
+  flickVelocity: 1.5,
+  stirSpeed: 0.75,
+};
+
+export const MOTION_GESTURES: GestureType[] = [
+  GestureType.SWIPE_LEFT,
+  GestureType.SWIPE_RIGHT,
+  GestureType.STIR,
+  GestureType.FLICK_UP,
+];
+
+export const isMotionGesture = (type: GestureType) => MOTION_GESTURES.includes(type);
+
+const SWIPE_WINDOW_MS = 200; // Swipes and flicks are measured over this much trajectory
+const SWIPE_MIN_DISTANCE = 0.15; // So a fast twitch doesn't count
+const DOMINANT_AXIS_RATIO = 2; // Movement along the gesture axis vs across it
+const STIR_MIN_RADIUS = 0.03; // Mean distance from the circle's center
+const STIR_TURNS = 0.9; // Swept angle that counts as one full stir
+
+interface Sample {
+  x: number;
+  y: number;
+  t: number;
+}
+
+export interface MotionGestureDetector {
+  process: (palm: { x: number; y: number } | null, timestamp: number) => GestureType | null;
+  reset: () => void;
+}
+
+export const createMotionGestureDetector = (thresholds: Partial<MotionThresholds> = {}): MotionGestureDetector => {
+  const { swipeVelocity, flickVelocity, stirSpeed } = { ...DEFAULT_MOTION_THRESHOLDS, ...thresholds };
+  // A stir must complete its turn within this window, which is what makes stirSpeed a speed
+  const stirWindowMs = (STIR_TURNS / Math.max(0.1, stirSpeed)) * 1000;
+  let history: Sample[] = [];
+
+  const detectSwipe = (now: number): GestureType | null => {
+    const recent = history.filter(s => now - s.t <= SWIPE_WINDOW_MS);
+    if (recent.length < 3) return null;
+
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const seconds = Math.max(1e-3, (last.t - first.t) / 1000);
+    const dx = last.x - first.x;
+    const dy = last.y - first.y;
+
+    if (Math.abs(dx) >= SWIPE_MIN_DISTANCE && Math.abs(dx) > Math.abs(dy) * DOMINANT_AXIS_RATIO
+      && Math.abs(dx) / seconds >= swipeVelocity) {
+      // Camera is mirrored: moving toward the user's right lowers x in the image
+      return dx < 0 ? GestureType.SWIPE_RIGHT : GestureType.SWIPE_LEFT;
+    }
+
+    // Image y grows downward
+    if (-dy >= SWIPE_MIN_DISTANCE && -dy > Math.abs(dx) * DOMINANT_AXIS_RATIO && -dy / seconds >= flickVelocity) {
+      return GestureType.FLICK_UP;
+    }
+
+    return null;
+  };
+
+  const detectStir = (now: number): GestureType | null => {
+    const recent = history.filter(s => now - s.t <= stirWindowMs);
+    if (recent.length < 8) return null;
+
+    const cx = recent.reduce((sum, s) => sum + s.x, 0) / recent.length;
+    const cy = recent.reduce((sum, s) => sum + s.y, 0) / recent.length;
+    const meanRadius = recent.reduce((sum, s) => sum + Math.hypot(s.x - cx, s.y - cy), 0) / recent.length;
+    if (meanRadius < STIR_MIN_RADIUS) return null;
+
+    // Signed sweep around the centroid; back-and-forth cancels out, circling adds up
+    let swept = 0;
+    for (let i = 1; i < recent.length; i++) {
+      let step = Math.atan2(recent[i].y - cy, recent[i].x - cx) - Math.atan2(recent[i - 1].y - cy, recent[i - 1].x - cx);
+      if (step > Math.PI) step -= Math.PI * 2;
+      if (step < -Math.PI) step += Math.PI * 2;
+      swept += step;
+    }
+
+    return Math.abs(swept) >= STIR_TURNS * Math.PI * 2 ? GestureType.STIR : null;
+  };
+
+  const process = (palm: { x: number; y: number } | null, timestamp: number): GestureType | null => {
+    if (!palm) {
+      history = [];
+      return null;
+    }
+
+    history.push({ x: palm.x, y: palm.y, t: timestamp });
+    const maxWindow = Math.max(SWIPE_WINDOW_MS, stirWindowMs);
+    history = history.filter(s => timestamp - s.t <= maxWindow);
+
+    const motion = detectSwipe(timestamp) ?? detectStir(timestamp);
+    // Start over so the same stroke can't be reported twice
+    if (motion) history = [];
+    return motion;
+  };
+
+  const reset = () => {
+    history = [];
+  };
+
+  return { process, reset };
+};
+
+const STORAGE_KEY = 'motionThresholds';
+
+export const loadMotionThresholds = (): MotionThresholds => {
+  try {
+    return { ...DEFAULT_MOTION_THRESHOLDS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_MOTION_THRESHOLDS;
+  }
+};
+
+export const saveMotionThresholds = (thresholds: MotionThresholds) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+  } catch (error) {
+    console.warn('Could not save motion thresholds:', error);
+  }
+};
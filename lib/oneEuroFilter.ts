@@ -0,0 +1,66 @@
+/**
+ * One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises with
+ * speed, so slow hand movement is smoothed heavily while fast movement stays responsive.
+ */
+
+export interface OneEuroFilterOptions {
+  minCutoff: number; // Hz. Lower = smoother at rest, more lag
+  beta: number; // How quickly the cutoff rises with speed. Higher = less lag when moving
+  dCutoff: number; // Hz. Cutoff for the speed estimate itself
+}
+
+export interface OneEuroFilter {
+  filter: (value: number, timestampMs: number) => number;
+  reset: () => void;
+}
+
+export const DEFAULT_ONE_EURO_OPTIONS: OneEuroFilterOptions = {
+  minCutoff: 1.0,
+  beta: 1.0,
+  dCutoff: 1.0,
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export const createOneEuroFilter = (options: Partial<OneEuroFilterOptions> = {}): OneEuroFilter => {
+  const { minCutoff, beta, dCutoff } = { ...DEFAULT_ONE_EURO_OPTIONS, ...options };
+
+  let prevValue: number | null = null;
+  let prevDerivative = 0;
+  let prevTime = 0;
+
+  const filter = (value: number, timestampMs: number) => {
+    if (prevValue === null) {
+      prevValue = value;
+      prevTime = timestampMs;
+      return value;
+    }
+
+    const dt = (timestampMs - prevTime) / 1000;
+    if (dt <= 0) return prevValue;
+
+    const derivative = (value - prevValue) / dt;
+    const aD = smoothingFactor(dCutoff, dt);
+    const smoothedDerivative = aD * derivative + (1 - aD) * prevDerivative;
+
+    const cutoff = minCutoff + beta * Math.abs(smoothedDerivative);
+    const a = smoothingFactor(cutoff, dt);
+    const smoothed = a * value + (1 - a) * prevValue;
+
+    prevValue = smoothed;
+    prevDerivative = smoothedDerivative;
+    prevTime = timestampMs;
+    return smoothed;
+  };
+
+  const reset = () => {
+    prevValue = null;
+    prevDerivative = 0;
+    prevTime = 0;
+  };
+
+  return { filter, reset };
+};
@@ -0,0 +1,156 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { Random } from './random';
+
+/**
+ * Ornament registry. Each type declares its geometry, material, size range,
+ * where on the tree it hangs and how often it spawns; Ornaments renders one
+ * instanced mesh per type. Themes can re-weight the mix (see Theme.ornaments.mix).
+ *
+ * Geometries are built around the origin at roughly unit size and carry an
+ * `aAccent` vertex attribute: 1 where the part takes the accent color (ribbons,
+ * caps, stripes) instead of the ornament's own color.
+ */
+
+export type OrnamentTypeId = 'ball' | 'gift' | 'light' | 'candyCane' | 'bell' | 'snowflake' | 'pineCone';
+
+// Spawn weights per type; missing types fall back to the registry default
+export type OrnamentMix = Partial<Record<OrnamentTypeId, number>>;
+
+// 'palette' picks from the theme palette, 'metal' is the theme metal, anything else is a fixed color
+export type OrnamentColor = 'palette' | 'metal' | string;
+
+export interface OrnamentType {
+  id: OrnamentTypeId;
+  label: string;
+  geometry: () => THREE.BufferGeometry;
+  material: 'standard' | 'light'; // Lit PBR surface, or glowing bulb driven by the light pattern
+  roughness: number;
+  metalness: number;
+  color: OrnamentColor; // Lights ignore it and take the theme light color
+  accent: OrnamentColor;
+  size: [number, number]; // Scale range
+  heightBias: number; // Exponent on the height draw: > 1 crowds the bottom, < 1 the top
+  surfaceOffset: [number, number]; // How far past the foliage surface it sits
+  tumble: boolean; // Keeps slowly turning
+  weight: number; // Default spawn weight
+}
+
+const withAccent = (geometry: THREE.BufferGeometry, accent: number | ((index: number) => number)) => {
+  const count = geometry.getAttribute('position').count;
+  const values = new Float32Array(count);
+  for (let i = 0; i < count; i++) values[i] = typeof accent === 'number' ? accent : accent(i);
+  geometry.setAttribute('aAccent', new THREE.BufferAttribute(values, 1));
+  return geometry;
+};
+
+const merge = (parts: THREE.BufferGeometry[]) => {
+  const merged = mergeGeometries(parts);
+  parts.forEach(part => part.dispose());
+  if (!merged) throw new Error('Could not merge ornament geometry');
+  return merged;
+};
+
+// Sphere with a metal cap and hanging loop
+const ballGeometry = () => merge([
+  withAccent(new THREE.SphereGeometry(1, 32, 32), 0),
+  withAccent(new THREE.CylinderGeometry(0.25, 0.25, 0.25, 12).translate(0, 1, 0), 1),
+  withAccent(new THREE.TorusGeometry(0.15, 0.04, 6, 12).translate(0, 1.25, 0), 1),
+]);
+
+// Box tied with a ribbon cross and a bow on top
+const giftGeometry = () => merge([
+  withAccent(new THREE.BoxGeometry(1, 1, 1), 0),
+  withAccent(new THREE.BoxGeometry(1.04, 1.04, 0.18), 1),
+  withAccent(new THREE.BoxGeometry(0.18, 1.04, 1.04), 1),
+  withAccent(new THREE.TorusGeometry(0.16, 0.05, 6, 12).rotateY(Math.PI / 4).translate(-0.14, 0.62, 0), 1),
+  withAccent(new THREE.TorusGeometry(0.16, 0.05, 6, 12).rotateY(-Math.PI / 4).translate(0.14, 0.62, 0), 1),
+]);
+
+const lightGeometry = () => withAccent(new THREE.SphereGeometry(1, 8, 8), 0);
+
+// Hooked tube with spiral stripes (the stripes are the accent)
+const candyCaneGeometry = () => {
+  const path = new THREE.CatmullRomCurve3([
+    new THREE.Vector3(0, -1, 0),
+    new THREE.Vector3(0, 0.4, 0),
+    new THREE.Vector3(0.08, 0.82, 0),
+    new THREE.Vector3(0.35, 0.98, 0),
+    new THREE.Vector3(0.6, 0.8, 0),
+    new THREE.Vector3(0.64, 0.52, 0),
+  ]);
+  const tube = new THREE.TubeGeometry(path, 64, 0.12, 10);
+  const uv = tube.getAttribute('uv');
+  return withAccent(tube, i => ((uv.getX(i) * 10 + uv.getY(i)) % 1 < 0.5 ? 1 : 0));
+};
+
+// Lathed bell with a clapper and loop
+const bellGeometry = () => {
+  const profile = [
+    [0, 0.75], [0.18, 0.72], [0.3, 0.6], [0.34, 0.35], [0.4, 0], [0.55, -0.35], [0.75, -0.55], [0.78, -0.62], [0.7, -0.62],
+  ].map(([x, y]) => new THREE.Vector2(x, y));
+  return merge([
+    withAccent(new THREE.LatheGeometry(profile, 24), 0),
+    withAccent(new THREE.SphereGeometry(0.16, 10, 10).translate(0, -0.62, 0), 1),
+    withAccent(new THREE.TorusGeometry(0.14, 0.04, 6, 12).translate(0, 0.88, 0), 1),
+  ]);
+};
+
+// Six flat arms with a pair of branches each
+export const snowflakeGeometry = () => {
+  const parts: THREE.BufferGeometry[] = [];
+  for (let arm = 0; arm < 6; arm++) {
+    const angle = (arm * Math.PI) / 3;
+    parts.push(withAccent(new THREE.BoxGeometry(0.1, 1, 0.05).translate(0, 0.5, 0).rotateZ(angle), 0));
+    [-1, 1].forEach(side => {
+      parts.push(withAccent(
+        new THREE.BoxGeometry(0.07, 0.35, 0.04).translate(0, 0.17, 0).rotateZ(side * Math.PI / 4).translate(0, 0.55, 0).rotateZ(angle),
+        0
+      ));
+    });
+  }
+  parts.push(withAccent(new THREE.CylinderGeometry(0.15, 0.15, 0.08, 6).rotateX(Math.PI / 2), 1));
+  return merge(parts);
+};
+
+// Scales spiralling around an egg-shaped core
+const pineConeGeometry = () => {
+  const parts = [withAccent(new THREE.SphereGeometry(0.45, 12, 12).scale(1, 1.6, 1), 0)];
+  const scales = 40;
+  for (let i = 0; i < scales; i++) {
+    const t = i / scales;
+    const y = 0.7 - t * 1.4;
+    const radius = 0.5 * Math.sin(Math.PI * (0.15 + t * 0.75));
+    const angle = i * 2.39996;
+    parts.push(withAccent(
+      new THREE.ConeGeometry(0.16, 0.32, 5)
+        .rotateZ(-Math.PI / 2 - 0.5)
+        .translate(radius, y, 0)
+        .rotateY(angle),
+      0
+    ));
+  }
+  return merge(parts);
+};
+
+export const ORNAMENT_TYPES: OrnamentType[] = [
+  { id: 'ball', label: 'Quả châu', geometry: ballGeometry, material: 'standard', roughness: 0.1, metalness: 0.9, color: 'palette', accent: 'metal', size: [0.2, 0.45], heightBias: 2.5, surfaceOffset: [0, 0.5], tumble: false, weight: 6 },
+  { id: 'gift', label: 'Hộp quà', geometry: giftGeometry, material: 'standard', roughness: 0.3, metalness: 0.5, color: 'palette', accent: 'metal', size: [0.25, 0.45], heightBias: 2.5, surfaceOffset: [0, 0.5], tumble: true, weight: 1.2 },
+  { id: 'light', label: 'Đèn', geometry: lightGeometry, material: 'light', roughness: 1, metalness: 0, color: 'palette', accent: 'metal', size: [0.15, 0.15], heightBias: 1.5, surfaceOffset: [0.1, 0.4], tumble: false, weight: 1 },
+  { id: 'candyCane', label: 'Kẹo gậy', geometry: candyCaneGeometry, material: 'standard', roughness: 0.35, metalness: 0.1, color: '#C8102E', accent: '#FFFFFF', size: [0.3, 0.45], heightBias: 1.8, surfaceOffset: [0.1, 0.4], tumble: false, weight: 0.6 },
+  { id: 'bell', label: 'Chuông', geometry: bellGeometry, material: 'standard', roughness: 0.15, metalness: 1, color: 'metal', accent: 'metal', size: [0.3, 0.45], heightBias: 1.5, surfaceOffset: [0, 0.4], tumble: false, weight: 0.6 },
+  { id: 'snowflake', label: 'Bông tuyết', geometry: snowflakeGeometry, material: 'standard', roughness: 0.2, metalness: 0.6, color: '#E8F4FF', accent: 'metal', size: [0.3, 0.5], heightBias: 1, surfaceOffset: [0.2, 0.6], tumble: true, weight: 0.6 },
+  { id: 'pineCone', label: 'Quả thông', geometry: pineConeGeometry, material: 'standard', roughness: 0.9, metalness: 0, color: '#6B4226', accent: '#6B4226', size: [0.3, 0.45], heightBias: 3, surfaceOffset: [-0.1, 0.3], tumble: false, weight: 0.5 },
+];
+
+// Draws a type per ornament, in proportion to the (theme-adjusted) weights
+export const pickOrnamentType = (random: Random, mix: OrnamentMix = {}) => {
+  const weights = ORNAMENT_TYPES.map(type => Math.max(0, mix[type.id] ?? type.weight));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let roll = random() * total;
+  for (let i = 0; i < ORNAMENT_TYPES.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return ORNAMENT_TYPES[i];
+  }
+  return ORNAMENT_TYPES[0];
+};
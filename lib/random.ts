@@ -0,0 +1,80 @@
+/**
+ * Seeded randomness for scene generation. Every component that scatters
+ * things around draws from its own stream, derived from the scene seed and a
+ * label, so one seed always produces the same tree and changing how many
+ * ornaments there are doesn't reshuffle the foliage.
+ */
+
+export type Random = () => number; // Uniform in [0, 1), like Math.random
+
+export const MAX_SEED = 0xffffffff;
+
+// FNV-1a, to turn the seed plus a label into an independent starting state
+const hash = (seed: number, label: string) => {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < label.length; i++) {
+    h ^= label.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+};
+
+// mulberry32: small, fast and plenty random for scattering particles
+export const createRandom = (seed: number, label = ''): Random => {
+  let state = hash(seed, label);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED) >>> 0;
+
+export const isSeed = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+
+export interface SceneSeed {
+  seed: number;
+  history: number[]; // Seeds replaced by shuffling or opening a share, most recent last
+}
+
+export const MAX_SEED_HISTORY = 10;
+
+// Switches to `next`, keeping the current seed so it can be restored
+export const replaceSeed = (state: SceneSeed, next: number): SceneSeed => {
+  if (next === state.seed) return state;
+  return { seed: next, history: [...state.history, state.seed].slice(-MAX_SEED_HISTORY) };
+};
+
+export const shuffleSeed = (state: SceneSeed) => replaceSeed(state, randomSeed());
+
+export const restoreSeed = (state: SceneSeed): SceneSeed => {
+  if (state.history.length === 0) return state;
+  return { seed: state.history[state.history.length - 1], history: state.history.slice(0, -1) };
+};
+
+const STORAGE_KEY = 'sceneSeed';
+
+export const loadSceneSeed = (): SceneSeed => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && isSeed(stored.seed)) {
+      const history = Array.isArray(stored.history) ? stored.history.filter(isSeed).slice(-MAX_SEED_HISTORY) : [];
+      return { seed: stored.seed, history };
+    }
+  } catch {
+    // Fall through to a fresh seed
+  }
+  return { seed: randomSeed(), history: [] };
+};
+
+export const saveSceneSeed = (state: SceneSeed) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.warn('Could not save scene seed:', error);
+  }
+};
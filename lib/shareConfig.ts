@@ -0,0 +1,36 @@
+import { isThemeId, ThemeId } from './themes';
+import { parseTopperConfig, TopperConfig } from './toppers';
+import { isSeed } from './random';
+import { parseTreeShape, TreeShape } from './treeShape';
+import { GarlandSettings, parseGarlandSettings } from './garlands';
+
+/**
+ * Scene settings that travel with a share link (stored next to the image
+ * URLs), so the recipient sees the tree the way it was shared.
+ */
+
+export interface ShareConfig {
+  theme?: ThemeId;
+  topper?: TopperConfig;
+  // The seed and everything the layout is generated from, so the recipient gets the very same tree
+  seed?: number;
+  treeShape?: TreeShape;
+  garlands?: GarlandSettings;
+}
+
+// Share data comes from storage we don't control; keep only fields we understand
+export const parseShareConfig = (raw: unknown): ShareConfig => {
+  if (!raw || typeof raw !== 'object') return {};
+  const value = raw as Record<string, unknown>;
+
+  const config: ShareConfig = {};
+  if (isThemeId(value.theme)) config.theme = value.theme;
+  const topper = parseTopperConfig(value.topper);
+  if (topper) config.topper = topper;
+  if (isSeed(value.seed)) config.seed = value.seed;
+  const treeShape = parseTreeShape(value.treeShape);
+  if (treeShape) config.treeShape = treeShape;
+  const garlands = parseGarlandSettings(value.garlands);
+  if (garlands) config.garlands = garlands;
+  return config;
+};
@@ -0,0 +1,200 @@
+import * as THREE from 'three';
+
+/**
+ * Lightweight physics for things hanging on the tree. Every body is a damped
+ * spring pulling it back to an anchor (wherever the transition timeline puts
+ * it this frame), pushed around by a gusty wind and by the hand "brush": the
+ * tracked palm cast as a ray from the camera, which shoves bodies near that
+ * ray aside as it sweeps past. State is kept as flat typed arrays so hundreds of bodies
+ * step in a tight loop with no allocation.
+ */
+
+export interface SpringParams {
+  stiffness: number; // Pull back toward the anchor (per second squared)
+  damping: number; // Velocity loss (per second)
+  wind: number; // Gust strength
+  brush: number; // How hard the hand shoves
+  maxOffset: number; // Bodies never drift further than this from their anchor
+}
+
+// Ornaments sway in the wind in their shader, so their springs only carry the hand and can come to rest
+export const ORNAMENT_SPRING: SpringParams = { stiffness: 60, damping: 5, wind: 0, brush: 80, maxOffset: 1.2 };
+
+// Photos are bigger and swing slower
+export const PHOTO_SPRING: SpringParams = { stiffness: 25, damping: 3, wind: 0.8, brush: 60, maxOffset: 1.5 };
+
+/** The palm as seen by the scene: a ray from the camera, in the tree group's local space. */
+export interface HandBrush {
+  active: boolean;
+  origin: THREE.Vector3;
+  direction: THREE.Vector3; // Unit length
+  position: THREE.Vector3; // Where the ray crosses the tree's axis plane
+  velocity: THREE.Vector3; // Of `position`, units per second, smoothed
+  radius: number; // Bodies closer than this to the ray get pushed
+}
+
+export const createHandBrush = (radius = 1.5): HandBrush => ({
+  active: false,
+  origin: new THREE.Vector3(),
+  direction: new THREE.Vector3(0, 0, -1),
+  position: new THREE.Vector3(),
+  velocity: new THREE.Vector3(),
+  radius,
+});
+
+// Steps longer than this are split, so a dropped frame can't blow the springs up
+const MAX_STEP = 1 / 30;
+
+// How much of the hand's own motion is passed on, on top of the outward push
+const BRUSH_CARRY = 0.15;
+
+// A body slower than this (units per second) and this close to its anchor counts as at rest
+const REST_SPEED = 1e-3;
+const REST_OFFSET = 1e-3;
+
+export interface SpringField {
+  count: number;
+  offsets: Float32Array; // vec3 per body: displacement from its anchor
+  /** Advances every body by `delta` seconds; `anchors` holds a vec3 per body. */
+  step: (anchors: Float32Array, time: number, delta: number, brush?: HandBrush) => void;
+  /** True when every body had settled on its anchor as of the last step; only possible without wind. */
+  atRest: () => boolean;
+}
+
+export const createSpringField = (count: number, params: SpringParams): SpringField => {
+  const offsets = new Float32Array(count * 3);
+  const velocities = new Float32Array(count * 3);
+  let resting = true;
+
+  const integrate = (anchors: Float32Array, time: number, dt: number, brush?: HandBrush) => {
+    const { stiffness, damping, wind, maxOffset } = params;
+    const brushActive = brush?.active ?? false;
+    const radiusSq = brush ? brush.radius * brush.radius : 0;
+    resting = true;
+
+    for (let i = 0; i < count; i++) {
+      const j = i * 3;
+      const x = anchors[j] + offsets[j];
+      const y = anchors[j + 1] + offsets[j + 1];
+      const z = anchors[j + 2] + offsets[j + 2];
+
+      // Gusts roll across the tree: a couple of slow sines, offset by position
+      const gust = Math.sin(time * 0.6 + x * 0.15) * Math.sin(time * 0.23 + z * 0.2);
+      let ax = wind * (0.6 + gust) + wind * 0.4 * Math.sin(time * 1.7 + y * 0.8 + i);
+      let ay = 0;
+      let az = wind * 0.5 * Math.sin(time * 1.3 + x * 0.5 + i * 0.7);
+
+      if (brushActive) {
+        // Offset from the nearest point on the ray, so the push is always sideways
+        const { origin, direction } = brush!;
+        const along = (x - origin.x) * direction.x + (y - origin.y) * direction.y + (z - origin.z) * direction.z;
+        const dx = x - origin.x - direction.x * along;
+        const dy = y - origin.y - direction.y * along;
+        const dz = z - origin.z - direction.z * along;
+        const distSq = dx * dx + dy * dy + dz * dz;
+        if (distSq < radiusSq) {
+          // Smooth falloff to zero at the rim, strongest in the middle of the palm
+          const dist = Math.sqrt(distSq) || 1e-3;
+          const falloff = 1 - dist / brush!.radius;
+          const push = params.brush * falloff * falloff;
+          ax += (dx / dist) * push + brush!.velocity.x * BRUSH_CARRY * push;
+          ay += (dy / dist) * push + brush!.velocity.y * BRUSH_CARRY * push;
+          az += (dz / dist) * push + brush!.velocity.z * BRUSH_CARRY * push;
+        }
+      }
+
+      ax -= stiffness * offsets[j] + damping * velocities[j];
+      ay -= stiffness * offsets[j + 1] + damping * velocities[j + 1];
+      az -= stiffness * offsets[j + 2] + damping * velocities[j + 2];
+
+      // Semi-implicit Euler: velocity first, then position with the new velocity
+      velocities[j] += ax * dt;
+      velocities[j + 1] += ay * dt;
+      velocities[j + 2] += az * dt;
+      offsets[j] += velocities[j] * dt;
+      offsets[j + 1] += velocities[j + 1] * dt;
+      offsets[j + 2] += velocities[j + 2] * dt;
+
+      const lengthSq = offsets[j] ** 2 + offsets[j + 1] ** 2 + offsets[j + 2] ** 2;
+      if (lengthSq > maxOffset * maxOffset) {
+        const scale = maxOffset / Math.sqrt(lengthSq);
+        offsets[j] *= scale;
+        offsets[j + 1] *= scale;
+        offsets[j + 2] *= scale;
+      }
+
+      const speedSq = velocities[j] ** 2 + velocities[j + 1] ** 2 + velocities[j + 2] ** 2;
+      if (speedSq > REST_SPEED * REST_SPEED || lengthSq > REST_OFFSET * REST_OFFSET) resting = false;
+    }
+  };
+
+  return {
+    count,
+    offsets,
+    step: (anchors, time, delta, brush) => {
+      const clamped = Math.min(delta, 0.25); // After a long stall (hidden tab), don't replay it
+      const steps = Math.ceil(clamped / MAX_STEP);
+      if (steps <= 0) return;
+      const dt = clamped / steps;
+      for (let s = 0; s < steps; s++) integrate(anchors, time, dt, brush);
+    },
+    atRest: () => resting,
+  };
+};
+
+// How quickly the brush velocity follows the hand (per second)
+const BRUSH_VELOCITY_EASE = 10;
+
+const brushNdc = new THREE.Vector2();
+const brushRaycaster = new THREE.Raycaster();
+const brushPlane = new THREE.Plane();
+const brushPoint = new THREE.Vector3();
+const brushNormal = new THREE.Vector3();
+const brushOrigin = new THREE.Vector3();
+const brushStep = new THREE.Vector3();
+const brushInverse = new THREE.Matrix4();
+
+/**
+ * Casts the normalized hand position (0..1, as the webcam sees it) from the
+ * camera into `space`'s local coordinates. Its velocity is measured where the
+ * ray crosses the vertical plane through the tree's axis, facing the camera.
+ */
+export const updateHandBrush = (
+  brush: HandBrush,
+  hand: { x: number; y: number; detected: boolean },
+  camera: THREE.Camera,
+  space: THREE.Object3D,
+  delta: number
+) => {
+  if (!hand.detected) {
+    brush.active = false;
+    brush.velocity.set(0, 0, 0);
+    return;
+  }
+
+  // The preview is mirrored, so the user's right is low x in the image
+  brushNdc.set(1 - hand.x * 2, 1 - hand.y * 2);
+  brushRaycaster.setFromCamera(brushNdc, camera);
+
+  space.getWorldPosition(brushOrigin);
+  camera.getWorldDirection(brushNormal);
+  brushNormal.y = 0;
+  if (brushNormal.lengthSq() < 1e-6) brushNormal.set(0, 0, -1);
+  brushPlane.setFromNormalAndCoplanarPoint(brushNormal.normalize(), brushOrigin);
+  if (!brushRaycaster.ray.intersectPlane(brushPlane, brushPoint)) {
+    brush.active = false;
+    return;
+  }
+  space.worldToLocal(brushPoint);
+
+  brushInverse.copy(space.matrixWorld).invert();
+  brush.origin.copy(brushRaycaster.ray.origin).applyMatrix4(brushInverse);
+  brush.direction.copy(brushRaycaster.ray.direction).transformDirection(brushInverse);
+
+  if (brush.active && delta > 0) {
+    const t = 1 - Math.exp(-BRUSH_VELOCITY_EASE * delta);
+    brush.velocity.lerp(brushStep.subVectors(brushPoint, brush.position).divideScalar(delta), t);
+  }
+  brush.position.copy(brushPoint);
+  brush.active = true;
+};
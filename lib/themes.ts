@@ -0,0 +1,156 @@
+import { OrnamentMix } from './ornamentTypes';
+
+/**
+ * Named color themes. Everything color-related in the scene (foliage shader,
+ * ornaments, star, photo clips, lights, post-processing) and the UI accents
+ * reads from the active theme, so a theme is the single place to restyle.
+ */
+
+export type ThemeId = 'luxury' | 'classic' | 'winter' | 'roseGold' | 'monochrome';
+
+export interface Theme {
+  id: ThemeId;
+  label: string;
+  foliage: {
+    chaos: string; // Particle color while scattered
+    base: string; // Formed tree, darkest needles
+    highlight: string; // Formed tree, brightest needles
+  };
+  ornaments: {
+    palette: string[]; // Balls and gifts pick from this
+    light: string;
+    mix?: OrnamentMix; // Spawn weights, over the registry defaults
+  };
+  star: {
+    color: string;
+    emissive: string;
+    light: string;
+  };
+  metal: string; // Photo clips and strings
+  lights: {
+    ambient: string;
+    key: string;
+    fill: string;
+  };
+  bloom: {
+    threshold: number;
+    intensity: number;
+  };
+  vignetteDarkness: number;
+  ui: {
+    primary: string; // Accent text, borders, buttons
+    primaryDark: string;
+    highlight: string; // Body text
+    backgroundMid: string; // Page gradient behind the canvas
+    backgroundEnd: string;
+  };
+}
+
+export const THEMES: Record<ThemeId, Theme> = {
+  luxury: {
+    id: 'luxury',
+    label: '💎 Ngọc lục bảo & Vàng',
+    foliage: { chaos: '#FFD700', base: '#006619', highlight: '#1ACC33' },
+    ornaments: { palette: ['#D4AF37', '#8B0000', '#D4AF37', '#F5E6BF'], light: '#FFFFAA' },
+    star: { color: '#D4AF37', emissive: '#FFD700', light: '#FFD700' },
+    metal: '#D4AF37',
+    lights: { ambient: '#004422', key: '#fff5cc', fill: '#D4AF37' },
+    bloom: { threshold: 0.8, intensity: 1.5 },
+    vignetteDarkness: 0.7,
+    ui: { primary: '#D4AF37', primaryDark: '#C5A028', highlight: '#F5E6BF', backgroundMid: '#001a0d', backgroundEnd: '#0a2f1e' },
+  },
+  classic: {
+    id: 'classic',
+    label: '🎅 Đỏ & Xanh cổ điển',
+    foliage: { chaos: '#FF3B3B', base: '#0B5D1E', highlight: '#2FA84F' },
+    ornaments: { palette: ['#C8102E', '#C8102E', '#F2F2F2', '#D4AF37'], light: '#FFE9A8', mix: { candyCane: 1.5, bell: 1, snowflake: 0.3 } },
+    star: { color: '#E8C547', emissive: '#FFCC33', light: '#FFE08A' },
+    metal: '#C0C0C0',
+    lights: { ambient: '#2A0A0A', key: '#fff2e0', fill: '#C8102E' },
+    bloom: { threshold: 0.8, intensity: 1.3 },
+    vignetteDarkness: 0.6,
+    ui: { primary: '#E04848', primaryDark: '#B83232', highlight: '#F7EDE2', backgroundMid: '#1a0505', backgroundEnd: '#0b2a14' },
+  },
+  winter: {
+    id: 'winter',
+    label: '❄️ Bạc & Xanh mùa đông',
+    foliage: { chaos: '#BFE6FF', base: '#1B3B5A', highlight: '#7FB8E0' },
+    ornaments: { palette: ['#C0C0C0', '#5B8DB8', '#E8F4FF', '#C0C0C0'], light: '#DDF2FF', mix: { snowflake: 2.5, candyCane: 0, pineCone: 0.8 } },
+    star: { color: '#E0E8F0', emissive: '#BFE6FF', light: '#CFEAFF' },
+    metal: '#C0C0C0',
+    lights: { ambient: '#0A1A2A', key: '#e6f2ff', fill: '#7FB8E0' },
+    bloom: { threshold: 0.75, intensity: 1.6 },
+    vignetteDarkness: 0.6,
+    ui: { primary: '#A8C8E8', primaryDark: '#7FA6CC', highlight: '#EAF4FF', backgroundMid: '#06121f', backgroundEnd: '#12263a' },
+  },
+  roseGold: {
+    id: 'roseGold',
+    label: '🌸 Vàng hồng',
+    foliage: { chaos: '#FFC1B6', base: '#5A2E3A', highlight: '#C97B84' },
+    ornaments: { palette: ['#B76E79', '#E8B4B8', '#F5E1DA', '#B76E79'], light: '#FFE4E1', mix: { bell: 1.5, pineCone: 0, candyCane: 0.3 } },
+    star: { color: '#E8B4B8', emissive: '#FFB6A8', light: '#FFC9BD' },
+    metal: '#B76E79',
+    lights: { ambient: '#2A1018', key: '#fff0ec', fill: '#E8B4B8' },
+    bloom: { threshold: 0.8, intensity: 1.4 },
+    vignetteDarkness: 0.65,
+    ui: { primary: '#E8B4B8', primaryDark: '#B76E79', highlight: '#FBEAE6', backgroundMid: '#1f0d12', backgroundEnd: '#3a1c24' },
+  },
+  monochrome: {
+    id: 'monochrome',
+    label: '🖤 Đen trắng',
+    foliage: { chaos: '#FFFFFF', base: '#2A2A2A', highlight: '#8A8A8A' },
+    ornaments: { palette: ['#F0F0F0', '#404040', '#B0B0B0', '#F0F0F0'], light: '#FFFFFF', mix: { snowflake: 1.2, candyCane: 0, pineCone: 0 } },
+    star: { color: '#F0F0F0', emissive: '#FFFFFF', light: '#FFFFFF' },
+    metal: '#B0B0B0',
+    lights: { ambient: '#111111', key: '#ffffff', fill: '#888888' },
+    bloom: { threshold: 0.85, intensity: 1.2 },
+    vignetteDarkness: 0.8,
+    ui: { primary: '#E0E0E0', primaryDark: '#A0A0A0', highlight: '#F5F5F5', backgroundMid: '#0d0d0d', backgroundEnd: '#1f1f1f' },
+  },
+};
+
+export const DEFAULT_THEME_ID: ThemeId = 'luxury';
+
+export const isThemeId = (value: unknown): value is ThemeId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(THEMES, value);
+
+// '#D4AF37' -> '212 175 55', the format the Tailwind color variables expect
+const hexToRgbChannels = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `${(value >> 16) & 255} ${(value >> 8) & 255} ${value & 255}`;
+};
+
+// The UI accent the document currently shows, as a CSS color for canvas drawing Tailwind classes can't reach
+export const documentPrimaryColor = () => {
+  const channels = getComputedStyle(document.documentElement).getPropertyValue('--color-primary').trim();
+  return `rgb(${(channels || hexToRgbChannels(THEMES[DEFAULT_THEME_ID].ui.primary)).split(' ').join(', ')})`;
+};
+
+/** Points the UI color variables (see the Tailwind config in index.html) at a theme. */
+export const applyThemeToDocument = (theme: Theme) => {
+  const root = document.documentElement.style;
+  root.setProperty('--color-primary', hexToRgbChannels(theme.ui.primary));
+  root.setProperty('--color-primary-dark', hexToRgbChannels(theme.ui.primaryDark));
+  root.setProperty('--color-highlight', hexToRgbChannels(theme.ui.highlight));
+  root.setProperty('--color-scene-mid', hexToRgbChannels(theme.ui.backgroundMid));
+  root.setProperty('--color-scene-end', hexToRgbChannels(theme.ui.backgroundEnd));
+};
+
+const STORAGE_KEY = 'theme';
+
+export const loadThemeId = (): ThemeId => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isThemeId(stored) ? stored : DEFAULT_THEME_ID;
+  } catch {
+    return DEFAULT_THEME_ID;
+  }
+};
+
+export const saveThemeId = (id: ThemeId) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (error) {
+    console.warn('Could not save theme:', error);
+  }
+};
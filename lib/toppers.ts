@@ -0,0 +1,311 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+import { snowflakeGeometry } from './ornamentTypes';
+
+/**
+ * Tree toppers. Each one declares its geometry, surface, glow light and the
+ * idle animation it plays once it sits on the tip; TreeStar renders whichever
+ * is chosen. The choice (including an uploaded SVG's path data) is saved
+ * locally and travels with share links.
+ */
+
+export type TopperId = 'star5' | 'star6' | 'star8' | 'moravian' | 'angel' | 'bow' | 'snowflake' | 'custom';
+
+export interface TopperConfig {
+  id: TopperId;
+  path?: string; // SVG path data, for 'custom'
+}
+
+export interface Topper {
+  id: TopperId;
+  label: string;
+  geometry: (config: TopperConfig) => THREE.BufferGeometry;
+  metalness: number;
+  roughness: number;
+  emissiveIntensity: number;
+  glow: { intensity: number; distance: number }; // Point light at the topper, pulsing around `intensity`
+  /** Sets the topper's pose on the tip at clock time `time`; position is added to, rotation is overwritten. */
+  idle: (object: THREE.Object3D, time: number) => void;
+}
+
+// Every topper is scaled to this half-width, the size of the original star
+const TOPPER_RADIUS = 0.8;
+
+// Longest SVG path data kept, so the choice fits in the share config
+export const MAX_TOPPER_PATH_LENGTH = 3000;
+
+const EXTRUDE_SETTINGS: THREE.ExtrudeGeometryOptions = {
+  depth: 0.15,
+  bevelEnabled: true,
+  bevelThickness: 0.08,
+  bevelSize: 0.08,
+  bevelSegments: 3,
+};
+
+// Centers the geometry and scales it so its wider side spans TOPPER_RADIUS either way
+const fit = (geometry: THREE.BufferGeometry) => {
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const center = box.getCenter(new THREE.Vector3());
+  const size = box.getSize(new THREE.Vector3());
+  const scale = (TOPPER_RADIUS * 2) / Math.max(size.x, size.y, 1e-3);
+  geometry.translate(-center.x, -center.y, -center.z);
+  geometry.scale(scale, scale, scale);
+  return geometry;
+};
+
+const merge = (parts: THREE.BufferGeometry[]) => {
+  // Extrusions come out non-indexed; everything has to match to merge
+  const matched = parts.map(part => (part.index ? part.toNonIndexed() : part));
+  const merged = mergeGeometries(matched);
+  [...parts, ...matched].forEach(part => part.dispose());
+  if (!merged) throw new Error('Could not merge topper geometry');
+  return merged;
+};
+
+const starShape = (points: number, innerRatio: number) => {
+  const shape = new THREE.Shape();
+  for (let i = 0; i < points * 2; i++) {
+    const angle = (i * Math.PI) / points - Math.PI / 2;
+    const radius = i % 2 === 0 ? 1 : innerRatio;
+    const x = Math.cos(angle) * radius;
+    const y = Math.sin(angle) * radius;
+    if (i === 0) shape.moveTo(x, y);
+    else shape.lineTo(x, y);
+  }
+  shape.closePath();
+  return shape;
+};
+
+const starGeometry = (points: number, innerRatio: number) => () =>
+  fit(new THREE.ExtrudeGeometry(starShape(points, innerRatio), { ...EXTRUDE_SETTINGS, depth: 0.2, bevelThickness: 0.1, bevelSize: 0.1 }));
+
+// Moravian star: square pyramids pointing out along the 26 directions of a rhombicuboctahedron
+const moravianGeometry = () => {
+  const parts: THREE.BufferGeometry[] = [new THREE.SphereGeometry(0.35, 16, 16)];
+  const up = new THREE.Vector3(0, 1, 0);
+  for (let x = -1; x <= 1; x++) {
+    for (let y = -1; y <= 1; y++) {
+      for (let z = -1; z <= 1; z++) {
+        if (x === 0 && y === 0 && z === 0) continue;
+        const direction = new THREE.Vector3(x, y, z).normalize();
+        // Axis points are the long ones, like the paper stars
+        const length = x * x + y * y + z * z === 1 ? 0.75 : 0.6;
+        const spike = new THREE.ConeGeometry(0.13, length, 4).translate(0, 0.3 + length / 2, 0);
+        spike.applyQuaternion(new THREE.Quaternion().setFromUnitVectors(up, direction));
+        parts.push(spike);
+      }
+    }
+  }
+  return fit(merge(parts));
+};
+
+// Angel silhouette: robe and spread wings in one outline, a round head and a halo
+const angelGeometry = () => {
+  const body = new THREE.Shape();
+  body.moveTo(0, 0.55);
+  body.bezierCurveTo(0.35, 0.9, 0.95, 1.0, 1.1, 0.65); // Right wing top
+  body.bezierCurveTo(0.9, 0.5, 0.7, 0.2, 0.3, 0.25); // Right wing underside
+  body.lineTo(0.55, -1.0); // Robe hem
+  body.quadraticCurveTo(0, -1.1, -0.55, -1.0);
+  body.lineTo(-0.3, 0.25);
+  body.bezierCurveTo(-0.7, 0.2, -0.9, 0.5, -1.1, 0.65); // Left wing
+  body.bezierCurveTo(-0.95, 1.0, -0.35, 0.9, 0, 0.55);
+
+  const head = new THREE.Shape();
+  head.absarc(0, 0.85, 0.22, 0, Math.PI * 2, false);
+
+  const halo = new THREE.TorusGeometry(0.22, 0.035, 8, 24).rotateX(Math.PI / 2.4).translate(0, 1.2, 0.1);
+  return fit(merge([new THREE.ExtrudeGeometry([body, head], EXTRUDE_SETTINGS), halo]));
+};
+
+// Two looped ribbons, a knot and trailing tails
+const bowGeometry = () => {
+  const parts: THREE.BufferGeometry[] = [new THREE.SphereGeometry(0.18, 12, 12).scale(1, 1, 0.7)];
+  [-1, 1].forEach(side => {
+    parts.push(new THREE.TorusGeometry(0.35, 0.09, 8, 24).scale(1, 0.6, 0.6).rotateZ(side * 0.35).translate(side * 0.45, 0.12, 0));
+    parts.push(new THREE.BoxGeometry(0.16, 0.75, 0.05).translate(0, -0.38, 0).rotateZ(side * 0.4).translate(side * 0.05, -0.05, 0));
+  });
+  return fit(merge(parts));
+};
+
+// Reads closed shapes out of SVG path data, centered and about 2 units wide so the extrusion
+// depth and bevel come out like the other toppers. SVG's y axis points down, so it is flipped.
+// Path data the loader can't make sense of gives no shapes rather than an error
+const svgShapes = (path: string): THREE.Shape[] => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg"><path d="${path.replace(/"/g, '')}"/></svg>`;
+  let outlines: { shape: THREE.Vector2[]; holes: THREE.Vector2[][] }[];
+  try {
+    outlines = new SVGLoader().parse(svg).paths
+      .flatMap(shapePath => SVGLoader.createShapes(shapePath))
+      .map(shape => shape.extractPoints(12));
+  } catch (error) {
+    console.warn('Could not read topper path:', error);
+    return [];
+  }
+  if (outlines.length === 0) return [];
+
+  const bounds = new THREE.Box2().setFromPoints(outlines.flatMap(({ shape }) => shape));
+  const center = bounds.getCenter(new THREE.Vector2());
+  const size = bounds.getSize(new THREE.Vector2());
+  const unit = 2 / Math.max(size.x, size.y, 1e-3);
+  const place = (points: THREE.Vector2[]) => points.map(point => new THREE.Vector2((point.x - center.x) * unit, (center.y - point.y) * unit));
+
+  return outlines.map(({ shape: outline, holes }) => {
+    const shape = new THREE.Shape(place(outline));
+    holes.forEach(hole => shape.holes.push(new THREE.Path(place(hole))));
+    return shape;
+  });
+};
+
+// Falls back to the default topper if the path data has no closed shapes
+const customGeometry = (config: TopperConfig) => {
+  const shapes = config.path ? svgShapes(config.path) : [];
+  if (shapes.length === 0) return findTopper(DEFAULT_TOPPER.id).geometry(DEFAULT_TOPPER);
+  return fit(new THREE.ExtrudeGeometry(shapes, EXTRUDE_SETTINGS));
+};
+
+const spinIdle = (object: THREE.Object3D, time: number) => {
+  object.rotation.set(0, 0, time * 0.5);
+  object.position.y += Math.sin(time * 2) * 0.1;
+};
+
+const turnIdle = (object: THREE.Object3D, time: number) => {
+  object.rotation.set(0.3, time * 0.6, 0.2);
+  object.position.y += Math.sin(time * 1.5) * 0.08;
+};
+
+export const TOPPERS: Topper[] = [
+  { id: 'star5', label: '⭐ 5 cánh', geometry: starGeometry(5, 0.4), metalness: 0.9, roughness: 0.1, emissiveIntensity: 2, glow: { intensity: 2, distance: 5 }, idle: spinIdle },
+  { id: 'star6', label: '✡️ 6 cánh', geometry: starGeometry(6, 0.5), metalness: 0.9, roughness: 0.1, emissiveIntensity: 2, glow: { intensity: 2, distance: 5 }, idle: spinIdle },
+  { id: 'star8', label: '✴️ 8 cánh', geometry: starGeometry(8, 0.45), metalness: 0.9, roughness: 0.1, emissiveIntensity: 2.2, glow: { intensity: 2.4, distance: 6 }, idle: spinIdle },
+  { id: 'moravian', label: '🌟 Moravian', geometry: moravianGeometry, metalness: 0.6, roughness: 0.25, emissiveIntensity: 2.5, glow: { intensity: 3, distance: 7 }, idle: turnIdle },
+  {
+    id: 'angel',
+    label: '👼 Thiên thần',
+    geometry: angelGeometry,
+    metalness: 0.5,
+    roughness: 0.35,
+    emissiveIntensity: 1.2,
+    glow: { intensity: 1.5, distance: 5 },
+    // Hovers, wings tilting gently from side to side
+    idle: (object, time) => {
+      object.rotation.set(0, Math.sin(time * 0.4) * 0.3, Math.sin(time * 1.2) * 0.1);
+      object.position.y += Math.sin(time * 1.2) * 0.12;
+    },
+  },
+  {
+    id: 'bow',
+    label: '🎀 Nơ',
+    geometry: bowGeometry,
+    metalness: 0.3,
+    roughness: 0.4,
+    emissiveIntensity: 1,
+    glow: { intensity: 1.5, distance: 4 },
+    // Ribbon loops flutter
+    idle: (object, time) => {
+      object.rotation.set(0, Math.sin(time * 0.5) * 0.25, Math.sin(time * 3) * 0.05);
+      object.scale.setScalar(1 + Math.sin(time * 2) * 0.04);
+    },
+  },
+  {
+    id: 'snowflake',
+    label: '❄️ Tuyết',
+    geometry: () => fit(snowflakeGeometry()),
+    metalness: 0.6,
+    roughness: 0.2,
+    emissiveIntensity: 2,
+    glow: { intensity: 2, distance: 6 },
+    idle: (object, time) => {
+      object.rotation.set(0, time * 0.4, 0);
+      object.position.y += Math.sin(time * 1.5) * 0.08;
+    },
+  },
+  { id: 'custom', label: '🖼️ SVG', geometry: customGeometry, metalness: 0.8, roughness: 0.2, emissiveIntensity: 2, glow: { intensity: 2, distance: 5 }, idle: spinIdle },
+];
+
+export const DEFAULT_TOPPER: TopperConfig = { id: 'star5' };
+
+export const findTopper = (id: TopperId) => TOPPERS.find(topper => topper.id === id) ?? TOPPERS[0];
+
+const PATH_TOKEN = /\s*,?\s*(?:([MmZzLlHhVvCcSsQqTtAa])|([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?))/y;
+const ARC_FLAG = /\s*,?\s*([01])/y; // Arc flags are single digits and may be written without separators
+const ARC_PARAMS = 7;
+
+/**
+ * Splits path data into commands and numbers, or null if it doesn't follow
+ * the path grammar. Numbers may run together ("1.5.5" is 1.5 then .5), so they
+ * have to be tokenized before they can be rewritten.
+ */
+const tokenizePath = (path: string): string[] | null => {
+  const tokens: string[] = [];
+  let arc = false;
+  let param = 0;
+  let index = 0;
+  while (!/^\s*$/.test(path.slice(index))) {
+    const pattern = arc && (param % ARC_PARAMS === 3 || param % ARC_PARAMS === 4) ? ARC_FLAG : PATH_TOKEN;
+    pattern.lastIndex = index;
+    const match = pattern.exec(path);
+    if (!match) return null;
+    index = pattern.lastIndex;
+
+    if (pattern === PATH_TOKEN && match[1]) {
+      arc = match[1] === 'A' || match[1] === 'a';
+      param = 0;
+    } else {
+      // Numbers before the first command aren't valid path data
+      if (tokens.length === 0) return null;
+      param++;
+    }
+    tokens.push(match[1] ?? match[2]);
+  }
+  return tokens;
+};
+
+// Keeps only a topper choice we can render; used for storage and share data alike
+export const parseTopperConfig = (raw: unknown): TopperConfig | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+  if (!TOPPERS.some(topper => topper.id === value.id)) return null;
+  if (value.id !== 'custom') return { id: value.id as TopperId };
+  if (typeof value.path !== 'string' || !value.path || value.path.length > MAX_TOPPER_PATH_LENGTH) return null;
+  if (tokenizePath(value.path) === null) return null;
+  return { id: 'custom', path: value.path };
+};
+
+/**
+ * Pulls the path data out of an SVG file, joined into one path and with
+ * numbers rounded, or null if there is none or it is too detailed to share.
+ */
+export const extractSvgPath = (text: string): string | null => {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const tokens = tokenizePath(Array.from(doc.querySelectorAll('path'))
+    .map(element => element.getAttribute('d') ?? '')
+    .join(' '));
+  if (!tokens) return null;
+
+  const path = tokens
+    .map(token => (/^[a-z]$/i.test(token) ? token : String(Math.round(parseFloat(token) * 100) / 100)))
+    .join(' ');
+  if (!path || path.length > MAX_TOPPER_PATH_LENGTH) return null;
+  return svgShapes(path).length > 0 ? path : null;
+};
+
+const STORAGE_KEY = 'topper';
+
+export const loadTopperConfig = (): TopperConfig => {
+  try {
+    return parseTopperConfig(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')) ?? DEFAULT_TOPPER;
+  } catch {
+    return DEFAULT_TOPPER;
+  }
+};
+
+export const saveTopperConfig = (config: TopperConfig) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.warn('Could not save topper:', error);
+  }
+};
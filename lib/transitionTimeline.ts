@@ -0,0 +1,341 @@
+/**
+ * Shared clock for CHAOS <-> FORMED transitions. A choreography gives every
+ * element group (foliage, ornaments, garlands, photos, star) its own delay, duration,
+ * easing and stagger, so transitions can be sequenced — e.g. foliage spirals
+ * up first, ornaments follow, the star drops in last. Components ask the
+ * timeline how formed each element is (0 scattered .. 1 formed) instead of
+ * lerping on their own.
+ */
+
+export type TransitionGroup = 'foliage' | 'ornaments' | 'garlands' | 'photos' | 'star';
+
+export const TRANSITION_GROUPS: TransitionGroup[] = ['foliage', 'ornaments', 'garlands', 'photos', 'star'];
+
+export type EasingName = 'linear' | 'cubicInOut' | 'cubicOut' | 'backOut' | 'bounceOut';
+
+export type StaggerOrder = 'none' | 'random' | 'bottomUp' | 'topDown' | 'spiral';
+
+export interface TransitionTrack {
+  delay: number; // Seconds after the transition starts
+  duration: number; // Seconds each element takes
+  easing: EasingName;
+  stagger: StaggerOrder;
+  spread: number; // Seconds between the first and the last element starting
+}
+
+export interface Choreography {
+  id: string;
+  label: string;
+  form: Record<TransitionGroup, TransitionTrack>;
+  scatter: Record<TransitionGroup, TransitionTrack>;
+}
+
+// Where an element sits, for working out its place in the stagger order
+export interface StaggerInput {
+  height: number; // 0 bottom .. 1 top
+  angle: number; // Radians around the trunk
+  random: number; // 0..1, fixed per element
+}
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: t => t,
+  cubicInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  cubicOut: t => 1 - Math.pow(1 - t, 3),
+  backOut: t => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2),
+  bounceOut: t => {
+    if (t < 1 / 2.75) return 7.5625 * t * t;
+    if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
+    if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
+    return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
+  },
+};
+
+const SPIRAL_TURNS = 3;
+
+const staggerKey = (order: StaggerOrder, input: StaggerInput) => {
+  switch (order) {
+    case 'none':
+      return 0;
+    case 'random':
+      return input.random;
+    case 'bottomUp':
+      return input.height;
+    case 'topDown':
+      return 1 - input.height;
+    case 'spiral': {
+      const turn = ((input.angle / (2 * Math.PI)) % 1 + 1) % 1;
+      return Math.min(1, (input.height * SPIRAL_TURNS + turn) / (SPIRAL_TURNS + 1));
+    }
+  }
+};
+
+const track = (delay: number, duration: number, easing: EasingName, stagger: StaggerOrder, spread: number): TransitionTrack =>
+  ({ delay, duration, easing, stagger, spread });
+
+export const CHOREOGRAPHIES: Choreography[] = [
+  {
+    id: 'together',
+    label: '✨ Đồng loạt',
+    form: {
+      foliage: track(0, 1.6, 'cubicInOut', 'random', 0.4),
+      ornaments: track(0, 1.4, 'cubicOut', 'random', 1.2),
+      garlands: track(0, 1.2, 'cubicInOut', 'bottomUp', 1.0),
+      photos: track(0, 1.4, 'cubicOut', 'random', 0.8),
+      star: track(0, 1.8, 'cubicOut', 'none', 0),
+    },
+    scatter: {
+      foliage: track(0, 1.6, 'cubicInOut', 'random', 0.4),
+      ornaments: track(0, 1.4, 'cubicOut', 'random', 1.2),
+      garlands: track(0, 1.2, 'cubicInOut', 'topDown', 1.0),
+      photos: track(0, 1.4, 'cubicOut', 'random', 0.8),
+      star: track(0, 1.8, 'cubicOut', 'none', 0),
+    },
+  },
+  {
+    id: 'spiral',
+    label: '🌀 Xoắn ốc từ dưới lên',
+    form: {
+      foliage: track(0, 1.0, 'cubicOut', 'spiral', 2.5),
+      ornaments: track(1.5, 0.8, 'backOut', 'bottomUp', 1.5),
+      garlands: track(1.2, 1.0, 'cubicOut', 'bottomUp', 2.0),
+      photos: track(2.5, 1.0, 'cubicInOut', 'bottomUp', 1.0),
+      star: track(3.8, 1.0, 'bounceOut', 'none', 0),
+    },
+    scatter: {
+      star: track(0, 0.6, 'cubicInOut', 'none', 0),
+      photos: track(0.2, 0.8, 'cubicInOut', 'random', 0.4),
+      garlands: track(0.3, 0.8, 'cubicInOut', 'topDown', 1.0),
+      ornaments: track(0.4, 0.8, 'cubicOut', 'topDown', 0.8),
+      foliage: track(0.8, 1.2, 'cubicInOut', 'topDown', 1.2),
+    },
+  },
+  {
+    id: 'cascade',
+    label: '🌠 Đổ từ đỉnh xuống',
+    form: {
+      star: track(0, 0.8, 'backOut', 'none', 0),
+      foliage: track(0.4, 1.2, 'cubicOut', 'topDown', 1.5),
+      ornaments: track(1.0, 0.8, 'bounceOut', 'topDown', 1.2),
+      garlands: track(1.4, 1.0, 'cubicOut', 'topDown', 1.5),
+      photos: track(2.0, 1.0, 'cubicOut', 'topDown', 0.6),
+    },
+    scatter: {
+      photos: track(0, 0.8, 'cubicInOut', 'bottomUp', 0.4),
+      garlands: track(0.1, 0.8, 'cubicInOut', 'bottomUp', 1.0),
+      ornaments: track(0.2, 0.8, 'cubicOut', 'bottomUp', 0.8),
+      foliage: track(0.4, 1.2, 'cubicInOut', 'bottomUp', 1.2),
+      star: track(1.6, 0.8, 'cubicInOut', 'none', 0),
+    },
+  },
+];
+
+export const DEFAULT_CHOREOGRAPHY_ID = 'together';
+
+export const findChoreography = (id: string) =>
+  CHOREOGRAPHIES.find(choreography => choreography.id === id) ?? CHOREOGRAPHIES[0];
+
+// What a group is doing right now, for evaluating progress on the GPU
+export interface TransitionState {
+  track: TransitionTrack;
+  formed: boolean;
+  elapsed: number; // Seconds since the group's transition started, capped once it has settled
+}
+
+interface GroupState {
+  formed: boolean;
+  startedAt: number; // Clock time the group's current transition started
+}
+
+export interface TransitionTimeline {
+  /** Sends each listed group towards formed/scattered; unchanged groups keep going. */
+  play: (targets: Partial<Record<TransitionGroup, boolean>>, now: number, onComplete?: () => void) => void;
+  /** How formed one element is, 0 scattered .. 1 formed. */
+  progress: (group: TransitionGroup, input: StaggerInput, now: number) => number;
+  /** The group's current track and clock, for shaders that stagger elements themselves. */
+  state: (group: TransitionGroup, now: number) => TransitionState;
+  /** True once every element of the group has arrived. */
+  isSettled: (group: TransitionGroup, now: number) => boolean;
+  /** Call once per frame; runs completion callbacks. */
+  tick: (now: number) => void;
+  setChoreography: (choreography: Choreography) => void;
+}
+
+const MIDDLE: StaggerInput = { height: 0.5, angle: 0, random: 0.5 };
+
+export const createTransitionTimeline = (initiallyFormed: boolean, initialChoreography: Choreography = CHOREOGRAPHIES[0]): TransitionTimeline => {
+  let choreography = initialChoreography;
+  const groups = {} as Record<TransitionGroup, GroupState>;
+  TRANSITION_GROUPS.forEach(group => {
+    groups[group] = { formed: initiallyFormed, startedAt: -Infinity };
+  });
+  let pending: { groups: TransitionGroup[]; callback: () => void } | null = null;
+
+  const trackOf = (group: TransitionGroup) => (groups[group].formed ? choreography.form : choreography.scatter)[group];
+
+  const localProgress = (group: TransitionGroup, input: StaggerInput, now: number) => {
+    const { delay, duration, stagger, spread } = trackOf(group);
+    const elapsed = now - groups[group].startedAt - delay - staggerKey(stagger, input) * spread;
+    return Math.min(1, Math.max(0, elapsed / Math.max(duration, 1e-3)));
+  };
+
+  const progress = (group: TransitionGroup, input: StaggerInput, now: number) => {
+    const eased = EASINGS[trackOf(group).easing](localProgress(group, input, now));
+    return groups[group].formed ? eased : 1 - eased;
+  };
+
+  const totalDuration = (group: TransitionGroup) => {
+    const { delay, duration, spread } = trackOf(group);
+    return delay + spread + duration;
+  };
+
+  const isSettled = (group: TransitionGroup, now: number) => now - groups[group].startedAt >= totalDuration(group);
+
+  // Capping keeps the never-started groups (startedAt -Infinity) finite for the shader
+  const state = (group: TransitionGroup, now: number): TransitionState => ({
+    track: trackOf(group),
+    formed: groups[group].formed,
+    elapsed: Math.min(now - groups[group].startedAt, totalDuration(group) + 1),
+  });
+
+  // Reversing mid-way picks up from where the group is rather than jumping to its start
+  const resumeTime = (group: TransitionGroup, current: number, now: number) => {
+    const { delay, duration, easing, stagger, spread } = trackOf(group);
+    const goal = groups[group].formed ? current : 1 - current;
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2;
+      if (EASINGS[easing](mid) < goal) low = mid;
+      else high = mid;
+    }
+    return now - delay - staggerKey(stagger, MIDDLE) * spread - low * duration;
+  };
+
+  const play = (targets: Partial<Record<TransitionGroup, boolean>>, now: number, onComplete?: () => void) => {
+    const started: TransitionGroup[] = [];
+    TRANSITION_GROUPS.forEach(group => {
+      const formed = targets[group];
+      if (formed === undefined || formed === groups[group].formed) return;
+
+      const midway = !isSettled(group, now);
+      const current = progress(group, MIDDLE, now);
+      groups[group].formed = formed;
+      groups[group].startedAt = midway ? resumeTime(group, current, now) : now;
+      started.push(group);
+    });
+
+    if (onComplete) {
+      if (started.length === 0) onComplete();
+      else pending = { groups: started, callback: onComplete };
+    }
+  };
+
+  const tick = (now: number) => {
+    if (pending && pending.groups.every(group => isSettled(group, now))) {
+      const { callback } = pending;
+      pending = null;
+      callback();
+    }
+  };
+
+  const setChoreography = (next: Choreography) => {
+    choreography = next;
+  };
+
+  return { play, progress, state, isSettled, tick, setChoreography };
+};
+
+// A group's track as shader uniforms; the enums become indices into the GLSL below
+const EASING_INDEX: Record<EasingName, number> = { linear: 0, cubicInOut: 1, cubicOut: 2, backOut: 3, bounceOut: 4 };
+const STAGGER_INDEX: Record<StaggerOrder, number> = { none: 0, random: 1, bottomUp: 2, topDown: 3, spiral: 4 };
+
+export const createTransitionUniforms = () => ({
+  uTransitionElapsed: { value: 0 },
+  uTransitionDelay: { value: 0 },
+  uTransitionDuration: { value: 1 },
+  uTransitionSpread: { value: 0 },
+  uTransitionEasing: { value: 0 },
+  uTransitionStagger: { value: 0 },
+  uTransitionFormed: { value: 0 },
+});
+
+export type TransitionUniforms = ReturnType<typeof createTransitionUniforms>;
+
+export const applyTransition = (uniforms: TransitionUniforms, timeline: TransitionTimeline, group: TransitionGroup, now: number) => {
+  const { track, formed, elapsed } = timeline.state(group, now);
+  uniforms.uTransitionElapsed.value = elapsed;
+  uniforms.uTransitionDelay.value = track.delay;
+  uniforms.uTransitionDuration.value = track.duration;
+  uniforms.uTransitionSpread.value = track.spread;
+  uniforms.uTransitionEasing.value = EASING_INDEX[track.easing];
+  uniforms.uTransitionStagger.value = STAGGER_INDEX[track.stagger];
+  uniforms.uTransitionFormed.value = formed ? 1 : 0;
+};
+
+/**
+ * transitionProgress(element) -> 0 scattered .. 1 formed, the same value
+ * timeline.progress gives on the CPU. `element` is the StaggerInput as
+ * (height 0..1, angle in radians, random 0..1).
+ */
+export const TRANSITION_GLSL = `
+  uniform float uTransitionElapsed;
+  uniform float uTransitionDelay;
+  uniform float uTransitionDuration;
+  uniform float uTransitionSpread;
+  uniform float uTransitionEasing;
+  uniform float uTransitionStagger;
+  uniform float uTransitionFormed;
+
+  const float TRANSITION_SPIRAL_TURNS = ${SPIRAL_TURNS.toFixed(1)};
+  const float TRANSITION_TAU = 6.2831853;
+
+  float transitionStaggerKey(vec3 element) {
+    if (uTransitionStagger < 0.5) return 0.0;
+    if (uTransitionStagger < 1.5) return element.z;
+    if (uTransitionStagger < 2.5) return element.x;
+    if (uTransitionStagger < 3.5) return 1.0 - element.x;
+    float turn = fract(element.y / TRANSITION_TAU);
+    return min(1.0, (element.x * TRANSITION_SPIRAL_TURNS + turn) / (TRANSITION_SPIRAL_TURNS + 1.0));
+  }
+
+  // Cubes are spelled out: pow() is undefined for the negative bases backOut needs
+  float transitionEase(float t) {
+    if (uTransitionEasing < 0.5) return t;
+    if (uTransitionEasing < 1.5) {
+      float u = 2.0 - 2.0 * t;
+      return t < 0.5 ? 4.0 * t * t * t : 1.0 - u * u * u / 2.0;
+    }
+    float s = t - 1.0;
+    if (uTransitionEasing < 2.5) return 1.0 + s * s * s;
+    if (uTransitionEasing < 3.5) return 1.0 + 2.70158 * s * s * s + 1.70158 * s * s;
+    if (t < 1.0 / 2.75) return 7.5625 * t * t;
+    if (t < 2.0 / 2.75) { t -= 1.5 / 2.75; return 7.5625 * t * t + 0.75; }
+    if (t < 2.5 / 2.75) { t -= 2.25 / 2.75; return 7.5625 * t * t + 0.9375; }
+    t -= 2.625 / 2.75;
+    return 7.5625 * t * t + 0.984375;
+  }
+
+  float transitionProgress(vec3 element) {
+    float elapsed = uTransitionElapsed - uTransitionDelay - transitionStaggerKey(element) * uTransitionSpread;
+    float eased = transitionEase(clamp(elapsed / max(uTransitionDuration, 1e-3), 0.0, 1.0));
+    return uTransitionFormed > 0.5 ? eased : 1.0 - eased;
+  }
+`;
+
+const STORAGE_KEY = 'transitionChoreography';
+
+export const loadChoreographyId = (): string => {
+  try {
+    return findChoreography(localStorage.getItem(STORAGE_KEY) || DEFAULT_CHOREOGRAPHY_ID).id;
+  } catch {
+    return DEFAULT_CHOREOGRAPHY_ID;
+  }
+};
+
+export const saveChoreographyId = (id: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (error) {
+    console.warn('Could not save transition choreography:', error);
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * The tree's silhouette, shared by everything that sits on it (foliage,
+ * ornaments, photos, star) so they all agree when the shape changes. Heights
+ * are measured from the tree's base; `t` is normalized height (0 base, 1 tip).
+ */
+
+export type TreeProfile = 'cone' | 'fir' | 'spiral' | 'slim';
+
+export interface TreeShape {
+  height: number;
+  baseRadius: number;
+  layers: number; // 1 = smooth silhouette, more = stacked tiers that flare at the bottom
+  profile: TreeProfile;
+}
+
+export const DEFAULT_TREE_SHAPE: TreeShape = {
+  height: 12,
+  baseRadius: 5,
+  layers: 1,
+  profile: 'cone',
+};
+
+// What the settings sliders allow; stored and shared shapes are held to the same ranges
+export const TREE_SHAPE_LIMITS: Record<'height' | 'baseRadius' | 'layers', { min: number; max: number }> = {
+  height: { min: 8, max: 16 },
+  baseRadius: { min: 3, max: 7 },
+  layers: { min: 1, max: 6 },
+};
+
+export const TREE_PROFILES: { id: TreeProfile; label: string }[] = [
+  { id: 'cone', label: '🔺 Nón' },
+  { id: 'fir', label: '🌲 Thông' },
+  { id: 'spiral', label: '🌀 Xoắn ốc' },
+  { id: 'slim', label: '🕯️ Thon' },
+];
+
+const SPIRAL_TURNS = 4;
+const SPIRAL_BAND = 0.35; // Fraction of a turn the spiral ribbon covers
+const TIER_FLARE = 0.35; // How much narrower the top of a tier is than its bottom
+
+// Radius multiplier of each profile at normalized height t
+const PROFILE_CURVES: Record<TreeProfile, (t: number) => number> = {
+  cone: t => 1 - t,
+  fir: t => Math.pow(1 - t, 1.4), // Concave: full skirt, thin top
+  spiral: t => 1 - t,
+  slim: t => 0.6 * Math.pow(1 - t, 0.9),
+};
+
+/** Silhouette radius at normalized height t. */
+export const treeRadiusAt = (shape: TreeShape, t: number) => {
+  const clamped = Math.min(1, Math.max(0, t));
+  let radius = shape.baseRadius * PROFILE_CURVES[shape.profile](clamped);
+
+  if (shape.layers > 1) {
+    // Position inside the current tier: 0 at its bottom, 1 at its top
+    const tier = (clamped * shape.layers) % 1;
+    radius *= 1 - TIER_FLARE * tier;
+  }
+  return radius;
+};
+
+/**
+ * Point on (or `offset` outside) the tree's surface at normalized height t.
+ * `angle` is where the caller wants to go around the trunk; the spiral profile
+ * folds it onto a ribbon winding up the tree.
+ */
+export const treeSurfacePoint = (shape: TreeShape, t: number, angle: number, offset = 0) => {
+  let theta = angle;
+  if (shape.profile === 'spiral') {
+    const turn = ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    theta = t * SPIRAL_TURNS * 2 * Math.PI + turn * SPIRAL_BAND;
+  }
+
+  const radius = treeRadiusAt(shape, t) + offset;
+  return {
+    x: Math.cos(theta) * radius,
+    y: t * shape.height,
+    z: Math.sin(theta) * radius,
+  };
+};
+
+// The star floats a little above the tip
+export const treeStarHeight = (shape: TreeShape) => shape.height + 1;
+
+const STORAGE_KEY = 'treeShape';
+
+// Keeps only a shape we can build; used for storage and share data alike
+export const parseTreeShape = (raw: unknown): TreeShape | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const value: Record<string, unknown> = { ...DEFAULT_TREE_SHAPE, ...raw };
+  if (!TREE_PROFILES.some(profile => profile.id === value.profile)) return null;
+
+  const inRange = (key: keyof typeof TREE_SHAPE_LIMITS) => {
+    const number = value[key];
+    return typeof number === 'number' && number >= TREE_SHAPE_LIMITS[key].min && number <= TREE_SHAPE_LIMITS[key].max;
+  };
+  if (!inRange('height') || !inRange('baseRadius') || !inRange('layers')) return null;
+
+  return {
+    height: value.height as number,
+    baseRadius: value.baseRadius as number,
+    layers: Math.round(value.layers as number),
+    profile: value.profile as TreeProfile,
+  };
+};
+
+export const loadTreeShape = (): TreeShape => {
+  try {
+    return parseTreeShape(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')) ?? DEFAULT_TREE_SHAPE;
+  } catch {
+    return DEFAULT_TREE_SHAPE;
+  }
+};
+
+export const saveTreeShape = (shape: TreeShape) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(shape));
+  } catch (error) {
+    console.warn('Could not save tree shape:', error);
+  }
+};
@@ -0,0 +1,91 @@
+/**
+ * Two-hand pinch manipulation. While both hands pinch, the change in distance
+ * between the two pinch points zooms the camera and the change in the angle of
+ * the line joining them turns the tree, like grabbing and twisting it.
+ *
+ * The manipulator turns consecutive pinch-point pairs into per-frame deltas;
+ * the deltas travel to the scene through a tiny pub/sub so they never go
+ * through React state.
+ */
+
+export interface PinchPoint {
+  x: number;
+  y: number;
+}
+
+export interface ManipulationDelta {
+  zoom: number; // Multiply the camera distance by this (< 1 moves closer)
+  rotation: number; // Radians to add to the tree's Y rotation
+}
+
+export interface TwoHandManipulatorOptions {
+  minSpan: number; // Ignore pairs closer than this (normalized), the angle gets too noisy
+  maxZoomStep: number; // Clamp a single frame's zoom factor to [1 / max, max] to ride out tracking glitches
+  rotationGain: number;
+}
+
+export interface TwoHandManipulator {
+  update: (points: [PinchPoint, PinchPoint] | null) => ManipulationDelta | null;
+  reset: () => void;
+}
+
+export const DEFAULT_MANIPULATOR_OPTIONS: TwoHandManipulatorOptions = {
+  minSpan: 0.08,
+  maxZoomStep: 1.25,
+  rotationGain: 1.5,
+};
+
+export const createTwoHandManipulator = (options: Partial<TwoHandManipulatorOptions> = {}): TwoHandManipulator => {
+  const { minSpan, maxZoomStep, rotationGain } = { ...DEFAULT_MANIPULATOR_OPTIONS, ...options };
+  let previous: { span: number; angle: number } | null = null;
+
+  const update = (points: [PinchPoint, PinchPoint] | null): ManipulationDelta | null => {
+    if (!points) {
+      previous = null;
+      return null;
+    }
+
+    // Order the pair left to right so the angle doesn't flip when the hands swap list order
+    const [a, b] = points[0].x <= points[1].x ? points : [points[1], points[0]];
+    const span = Math.max(minSpan, Math.hypot(b.x - a.x, b.y - a.y));
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+
+    // The first frame of a grab only sets the baseline
+    if (!previous) {
+      previous = { span, angle };
+      return { zoom: 1, rotation: 0 };
+    }
+
+    let angleDelta = angle - previous.angle;
+    if (angleDelta > Math.PI) angleDelta -= Math.PI * 2;
+    if (angleDelta < -Math.PI) angleDelta += Math.PI * 2;
+
+    // Hands moving apart zoom in: distance shrinks in proportion to how much the span grew
+    const zoom = Math.max(1 / maxZoomStep, Math.min(maxZoomStep, previous.span / span));
+    previous = { span, angle };
+
+    // The preview is mirrored, so a clockwise twist on screen is a negative angle in image space
+    return { zoom, rotation: -angleDelta * rotationGain };
+  };
+
+  const reset = () => {
+    previous = null;
+  };
+
+  return { update, reset };
+};
+
+type ManipulationListener = (delta: ManipulationDelta) => void;
+
+const listeners = new Set<ManipulationListener>();
+
+export const subscribeManipulation = (listener: ManipulationListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const publishManipulation = (delta: ManipulationDelta) => {
+  listeners.forEach(listener => listener(delta));
+};
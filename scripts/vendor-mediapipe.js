@@ -0,0 +1,175 @@
+import https from 'https';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Vendors the MediaPipe WASM runtime and the hand landmarker model into
+ * public/mediapipe so the app runs without internet access (kiosk installs).
+ *
+ * Every file in scripts/mediapipe-assets.json is taken from the first source
+ * that has it with a matching SHA-256: node_modules, the local cache
+ * (.cache/mediapipe), the old public/models location, then the download URL.
+ *
+ *   --strict   exit non-zero if any file is missing, fails its checksum or has none pinned (used by the build)
+ *   --offline  never download, only use node_modules and local copies
+ *   --pin      write the checksum of files that have none yet into the manifest
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ROOT = path.join(__dirname, '..');
+const MANIFEST_FILE = path.join(__dirname, 'mediapipe-assets.json');
+const PACKAGE_DIR = path.join(ROOT, 'node_modules', '@mediapipe', 'tasks-vision');
+const CACHE_DIR = path.join(ROOT, '.cache', 'mediapipe');
+const OUTPUT_DIR = path.join(ROOT, 'public', 'mediapipe');
+
+const args = new Set(process.argv.slice(2));
+const strict = args.has('--strict');
+const offline = args.has('--offline');
+const pin = args.has('--pin');
+
+const sha256 = (buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+const readIfExists = (file) => (fs.existsSync(file) ? fs.readFileSync(file) : null);
+
+const writeFile = (file, buffer) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, buffer);
+};
+
+const download = (url, redirects = 5) =>
+  new Promise((resolve, reject) => {
+    https.get(url, (response) => {
+      const { statusCode = 0, headers } = response;
+      if (statusCode >= 300 && statusCode < 400 && headers.location && redirects > 0) {
+        response.resume();
+        resolve(download(new URL(headers.location, url).toString(), redirects - 1));
+        return;
+      }
+      if (statusCode !== 200) {
+        response.resume();
+        reject(new Error(`HTTP ${statusCode}`));
+        return;
+      }
+      const chunks = [];
+      response.on('data', (chunk) => chunks.push(chunk));
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', reject);
+    }).on('error', reject);
+  });
+
+const installedVersion = () => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(PACKAGE_DIR, 'package.json'), 'utf8')).version;
+  } catch {
+    return null;
+  }
+};
+
+const manifest = JSON.parse(fs.readFileSync(MANIFEST_FILE, 'utf8'));
+const packageVersion = installedVersion();
+const packageUsable = packageVersion === manifest.version;
+
+if (packageVersion && !packageUsable) {
+  console.warn(`⚠ node_modules has @mediapipe/tasks-vision ${packageVersion}, manifest expects ${manifest.version}; skipping it as a source.`);
+}
+
+// Local copies first, the network last
+const candidatesFor = (entry) => {
+  const candidates = [];
+  if (entry.package && packageUsable) {
+    candidates.push({ label: 'node_modules', load: async () => readIfExists(path.join(PACKAGE_DIR, entry.package)) });
+  }
+  candidates.push({ label: 'cache', load: async () => readIfExists(path.join(CACHE_DIR, entry.path)) });
+  if (entry.legacyPath) {
+    candidates.push({ label: entry.legacyPath, load: async () => readIfExists(path.join(ROOT, entry.legacyPath)) });
+  }
+  if (entry.url && !offline) {
+    candidates.push({
+      label: entry.url,
+      load: async () => {
+        const buffer = await download(entry.url);
+        writeFile(path.join(CACHE_DIR, entry.path), buffer);
+        return buffer;
+      },
+    });
+  }
+  return candidates;
+};
+
+const vendorFile = async (entry) => {
+  const target = path.join(OUTPUT_DIR, entry.path);
+
+  const existing = readIfExists(target);
+  if (existing && entry.sha256 && sha256(existing) === entry.sha256) {
+    console.log(`✓ ${entry.path} (up to date)`);
+    return true;
+  }
+
+  for (const candidate of candidatesFor(entry)) {
+    let buffer;
+    try {
+      buffer = await candidate.load();
+    } catch (error) {
+      console.warn(`⚠ ${entry.path}: ${candidate.label} failed (${error.message})`);
+      continue;
+    }
+    if (!buffer) continue;
+
+    const hash = sha256(buffer);
+    if (entry.sha256 && hash !== entry.sha256) {
+      console.warn(`⚠ ${entry.path}: checksum mismatch from ${candidate.label}, skipping`);
+      continue;
+    }
+
+    writeFile(target, buffer);
+    console.log(`✓ ${entry.path} from ${candidate.label} (${buffer.length} bytes)`);
+    if (!entry.sha256) {
+      if (pin) {
+        entry.sha256 = hash;
+        console.log(`  pinned sha256 ${hash}`);
+      } else {
+        console.warn(`⚠ ${entry.path} has no pinned checksum; run "npm run vendor-mediapipe -- --pin" to record ${hash}`);
+      }
+    }
+    return true;
+  }
+
+  console.error(`✗ ${entry.path}: no source available${offline ? ' (offline)' : ''}`);
+  if (entry.url) {
+    console.warn(`  Download it from ${entry.url}`);
+    console.warn(`  and place it at .cache/mediapipe/${entry.path}`);
+  }
+  return false;
+};
+
+const main = async () => {
+  console.log(`Vendoring MediaPipe ${manifest.version} assets into public/mediapipe...`);
+
+  // A build must never ship an unverified file, so an unpinned manifest fails before anything is copied
+  const unpinned = manifest.files.filter((entry) => !/^[0-9a-f]{64}$/.test(entry.sha256 ?? ''));
+  if (strict && !pin && unpinned.length > 0) {
+    unpinned.forEach((entry) => console.error(`✗ ${entry.path} has no pinned checksum in scripts/mediapipe-assets.json`));
+    console.error('  Run "npm run vendor-mediapipe -- --pin" once with network access and commit the manifest.');
+    process.exit(1);
+  }
+
+  let ok = true;
+  for (const entry of manifest.files) {
+    ok = (await vendorFile(entry)) && ok;
+  }
+
+  if (pin) {
+    fs.writeFileSync(MANIFEST_FILE, JSON.stringify(manifest, null, 2) + '\n');
+  }
+
+  if (!ok) {
+    console.warn('⚠ Gesture control will fall back to the CDN sources for missing files.');
+    if (strict) process.exit(1);
+  }
+};
+
+main();
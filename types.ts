@@ -15,3 +15,34 @@ export interface ParticleData {
   speed: number;
   color: string;
 }
+
+export enum GestureType {
+  OPEN_PALM = 'OPEN_PALM',
+  FIST = 'FIST',
+  PINCH_LEFT = 'PINCH_LEFT',
+  PINCH_RIGHT = 'PINCH_RIGHT',
+  THUMBS_UP = 'THUMBS_UP',
+  THUMBS_DOWN = 'THUMBS_DOWN',
+  VICTORY = 'VICTORY',
+  SWIPE_LEFT = 'SWIPE_LEFT',
+  SWIPE_RIGHT = 'SWIPE_RIGHT',
+  STIR = 'STIR',
+  FLICK_UP = 'FLICK_UP'
+}
+
+export enum AppAction {
+  NONE = 'NONE',
+  MODE_CHAOS = 'MODE_CHAOS',
+  MODE_FORMED = 'MODE_FORMED',
+  TOGGLE_MODE = 'TOGGLE_MODE',
+  PHOTO_PREV = 'PHOTO_PREV',
+  PHOTO_NEXT = 'PHOTO_NEXT',
+  SNOW_TOGGLE = 'SNOW_TOGGLE',
+  CAMERA_FORWARD = 'CAMERA_FORWARD',
+  CAMERA_BACKWARD = 'CAMERA_BACKWARD',
+  OPEN_PHOTO_VIEWER = 'OPEN_PHOTO_VIEWER',
+  START_SLIDESHOW = 'START_SLIDESHOW',
+  TAKE_SCREENSHOT = 'TAKE_SCREENSHOT',
+  SPIN_TREE = 'SPIN_TREE',
+  LIGHT_PATTERN_NEXT = 'LIGHT_PATTERN_NEXT'
+}
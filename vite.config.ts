@@ -28,7 +28,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Comma-separated MediaPipe asset sources, see lib/mediapipeAssets.ts
+        'process.env.MEDIAPIPE_SOURCES': JSON.stringify(env.MEDIAPIPE_SOURCES ?? '')
       },
       resolve: {
         alias: {